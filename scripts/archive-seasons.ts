@@ -0,0 +1,28 @@
+import { createClient } from '@supabase/supabase-js';
+import type { Database } from '../src/integrations/supabase/types';
+
+// Season rollover: freezes the final standings of every season that has ended into
+// season_standings and opens the next season. Safe to run at any time.
+//
+//   SUPABASE_URL=... SUPABASE_SERVICE_ROLE_KEY=... npm run archive-seasons
+
+const url = process.env.SUPABASE_URL;
+const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+if (!url || !serviceRoleKey) {
+  console.error('SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY must be set');
+  process.exit(1);
+}
+
+// archive_ended_seasons can only be called with the service role
+const supabase = createClient<Database>(url, serviceRoleKey, { auth: { persistSession: false } });
+
+const archiveSeasons = async () => {
+  const { data: archived, error } = await supabase.rpc('archive_ended_seasons');
+  if (error) throw error;
+  console.log(`Archived ${archived} seasons`);
+};
+
+archiveSeasons().catch(error => {
+  console.error('Error archiving seasons:', error);
+  process.exit(1);
+});
@@ -0,0 +1,28 @@
+import { createClient } from '@supabase/supabase-js';
+import type { Database } from '../src/integrations/supabase/types';
+
+// Re-ranks the global leaderboard snapshot that the leaderboard pages read. Schedule it every few
+// minutes; archive-seasons also refreshes it when a season rolls over.
+//
+//   SUPABASE_URL=... SUPABASE_SERVICE_ROLE_KEY=... npm run refresh-leaderboard
+
+const url = process.env.SUPABASE_URL;
+const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+if (!url || !serviceRoleKey) {
+  console.error('SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY must be set');
+  process.exit(1);
+}
+
+// refresh_global_leaderboard can only be called with the service role
+const supabase = createClient<Database>(url, serviceRoleKey, { auth: { persistSession: false } });
+
+const refreshLeaderboard = async () => {
+  const { error } = await supabase.rpc('refresh_global_leaderboard');
+  if (error) throw error;
+  console.log('Global leaderboard refreshed');
+};
+
+refreshLeaderboard().catch(error => {
+  console.error('Error refreshing leaderboard:', error);
+  process.exit(1);
+});
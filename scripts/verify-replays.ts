@@ -0,0 +1,137 @@
+import { readFileSync, readdirSync } from 'node:fs';
+import { join } from 'node:path';
+import { createClient } from '@supabase/supabase-js';
+import type { Database } from '../src/integrations/supabase/types';
+import { parseLevel } from '../src/game/levels/parse';
+import type { LevelDefinition } from '../src/game/levels/schema';
+import { parseReplay } from '../src/game/replay';
+import { verifyReplay, type VerificationResult } from '../src/game/verify';
+
+// Headless replay verifier: re-simulates the replay of every queued game with the shared engine and
+// marks the game verified when it reproduces the submitted fish count, score and time.
+//
+//   SUPABASE_URL=... SUPABASE_SERVICE_ROLE_KEY=... npm run verify-replays
+//
+// Runs until the queue is empty, so it can be scheduled as often as needed.
+
+const BATCH_SIZE = 50;
+const CAMPAIGN_DIR = join(process.cwd(), 'src/game/levels/data/solo');
+
+const url = process.env.SUPABASE_URL;
+const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+if (!url || !serviceRoleKey) {
+  console.error('SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY must be set');
+  process.exit(1);
+}
+
+// The service role bypasses RLS, which is what lets this script set `verified`
+const supabase = createClient<Database>(url, serviceRoleKey, { auth: { persistSession: false } });
+
+// Same files and order as the bundled campaign in src/game/levels/loader.ts
+const campaign: LevelDefinition[] = readdirSync(CAMPAIGN_DIR)
+  .filter(file => file.endsWith('.json'))
+  .sort()
+  .map(file => parseLevel(JSON.parse(readFileSync(join(CAMPAIGN_DIR, file), 'utf8')), file));
+
+const communityLevels = new Map<string, LevelDefinition>();
+
+const loadCommunityLevel = async (id: string) => {
+  const cached = communityLevels.get(id);
+  if (cached) return cached;
+
+  const { data, error } = await supabase
+    .from('levels')
+    .select('*')
+    .eq('id', id)
+    .single();
+
+  if (error) throw error;
+  // Same overrides as toLevelDefinition in src/game/levels/community.ts
+  const level = { ...parseLevel(data.data, `community level ${id}`), id: data.id, name: data.title };
+  communityLevels.set(id, level);
+  return level;
+};
+
+type SplitRow = Pick<Database['public']['Tables']['level_splits']['Row'], 'level_id' | 'level_index' | 'ticks' | 'run_ticks'>;
+type QueuedGame = Database['public']['Tables']['games']['Row'] & { replays: { data: unknown }; level_splits: SplitRow[] };
+
+const verifyGame = async (game: QueuedGame): Promise<VerificationResult> => {
+  // A resumed run only recorded the part played after the resume
+  if (game.run_ticks === null) {
+    return { verified: false, reason: 'resumed run' };
+  }
+
+  try {
+    const replay = parseReplay(game.replays.data);
+    const levels = game.level_id ? [await loadCommunityLevel(game.level_id)] : campaign;
+    return verifyReplay(replay, levels, {
+      fishCount: game.fish_collected,
+      score: game.score,
+      ticks: game.run_ticks,
+      completed: game.completed,
+      splits: [...game.level_splits]
+        .sort((a, b) => a.level_index - b.level_index)
+        .map(split => ({ levelId: split.level_id, levelIndex: split.level_index, ticks: split.ticks, runTicks: split.run_ticks })),
+    });
+  } catch (error) {
+    return { verified: false, reason: error instanceof Error ? error.message : String(error) };
+  }
+};
+
+const verifyQueue = async () => {
+  let checked = 0;
+  let verified = 0;
+  // Games that could not be marked; left in the queue for the next run instead of blocking this one
+  const failed = new Set<string>();
+
+  for (;;) {
+    // Games only enter the queue once their replay is uploaded
+    let query = supabase
+      .from('games')
+      .select('*, replays!inner(data), level_splits(level_id, level_index, ticks, run_ticks)')
+      .is('verified_at', null)
+      .order('created_at', { ascending: true })
+      .limit(BATCH_SIZE);
+    if (failed.size > 0) {
+      query = query.not('id', 'in', `(${[...failed].join(',')})`);
+    }
+
+    const { data: games, error } = await query;
+
+    if (error) throw error;
+    if (games.length === 0) break;
+
+    for (const game of games as unknown as QueuedGame[]) {
+      try {
+        const result = await verifyGame(game);
+        const { error: updateError } = await supabase
+          .from('games')
+          .update({
+            verified: result.verified,
+            verified_at: new Date().toISOString(),
+            verification_error: result.reason,
+          })
+          .eq('id', game.id);
+
+        if (updateError) throw updateError;
+
+        checked += 1;
+        if (result.verified) {
+          verified += 1;
+        } else {
+          console.log(`Game ${game.id} rejected: ${result.reason}`);
+        }
+      } catch (error) {
+        console.error(`Error verifying game ${game.id}:`, error);
+        failed.add(game.id);
+      }
+    }
+  }
+
+  console.log(`Checked ${checked} games, ${verified} verified, ${failed.size} failed`);
+};
+
+verifyQueue().catch(error => {
+  console.error('Error verifying replays:', error);
+  process.exit(1);
+});
@@ -6,6 +6,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
+import { isNicknameTaken } from '@/game/profiles';
 
 export const Auth = () => {
   const [loading, setLoading] = useState(false);
@@ -48,6 +49,16 @@ export const Auth = () => {
           return;
         }
 
+        if (await isNicknameTaken(nickname)) {
+          toast({
+            title: "Nickname em uso",
+            description: "Esse nickname já pertence a outro jogador",
+            variant: "destructive",
+          });
+          setLoading(false);
+          return;
+        }
+
         // Nickname validation already done above
         const { error } = await supabase.auth.signUp({ 
           email, 
@@ -1,68 +1,81 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
+import { Link } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
 import kittyImage from '@/assets/kitty.png';
-
-interface GameObject {
-  x: number;
-  y: number;
-  width: number;
-  height: number;
-  vx: number;
-  vy: number;
-}
-
-interface Platform {
-  x: number;
-  y: number;
-  width: number;
-  height: number;
-}
-
-interface Fish {
-  x: number;
-  y: number;
-  width: number;
-  height: number;
-  collected: boolean;
-}
-
-interface Scratcher {
-  x: number;
-  y: number;
-  width: number;
-  height: number;
-}
-
-interface Level {
-  platforms: Platform[];
-  fishes: Fish[];
-  scratcher: Scratcher;
-  playerStart: { x: number; y: number };
-}
+import { applyCamera, centerCamera, followTarget, getViewport, interpolateCamera, type Camera } from '@/game/camera';
+import { drawEntities, drawHeldKeys, interpolateEntities } from '@/game/entities';
+import { createGhostRecorder, formatSplitDelta, ghostKittyAt, splitDelta, type GhostRecorder, type GhostRun, type GhostSplitType } from '@/game/ghost';
+import { fetchGhostPlayers, fetchGhosts, savePersonalBest, type GhostPlayer } from '@/game/ghostStorage';
+import { GAME_KEYS, readInput } from '@/game/input';
+import { TICKS_PER_SECOND, formatTicks, interpolateKitty, startFixedStepLoop } from '@/game/loop';
+import { fetchCommunityLevel, recordLevelPlay } from '@/game/levels/community';
+import { getLevels } from '@/game/levels/loader';
+import { drawFish, drawGhost, drawKitty, drawParallaxBackground, drawPlatform, drawRunTimer, drawScratcher } from '@/game/render';
+import { createReplayRecorder, createSeed, replayTicks, type ReplayRecorder } from '@/game/replay';
+import { clearRun, saveRun, type RunSnapshot } from '@/game/runs';
+import type { LevelSplit } from '@/game/speedrun';
+import { FISH_POINTS, createSoloLevel, stepSoloLevel, type SoloLevelState, type SoloProgress } from '@/game/solo';
+import type { LevelDefinition } from '@/game/levels/schema';
+import type { Json } from '@/integrations/supabase/types';
 
 interface GameProps {
   user?: any;
+  // Community level to play instead of the bundled solo campaign
+  levelId?: string;
+  // Saved run to pick up instead of showing the start screen
+  resumeRun?: RunSnapshot;
   onBackToProfile?: () => void;
+  // Called once the finished run is saved and counted in the player's stats
+  onStatsChanged?: () => void;
+}
+
+// Whose ghost to race: the player's own best, nobody, or another player's user id
+type GhostSource = 'best' | 'none' | string;
+
+interface SplitResult {
+  type: GhostSplitType;
+  // Fish count or delivery number within the level
+  occurrence: number;
+  delta: number;
 }
 
-export const Game = ({ user, onBackToProfile }: GameProps) => {
+export const Game = ({ user, levelId, resumeRun, onBackToProfile, onStatsChanged }: GameProps) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const animationRef = useRef<number>();
+  const stopLoopRef = useRef<() => void>();
+  // Run time in simulation ticks; the countdown and the speedrun timer both derive from it
+  const elapsedTicks = useRef(0);
+  // Run time when the current level was entered, and the splits of the levels completed so far
+  const levelStartTick = useRef(0);
+  const levelSplits = useRef<LevelSplit[]>([]);
+  // A resumed run lost the time played before the resume, so it has no run time
+  const runResumed = useRef(false);
   const keysRef = useRef<Set<string>>(new Set());
   const kittyImageRef = useRef<HTMLImageElement | null>(null);
   
   const [score, setScore] = useState(0);
   const [fishCount, setFishCount] = useState(0);
   const [carriedFish, setCarriedFish] = useState(0);
+  const [falls, setFalls] = useState(0);
   const [timeLeft, setTimeLeft] = useState(90);
   const [currentLevel, setCurrentLevel] = useState(0);
   const [gameStatus, setGameStatus] = useState<'playing' | 'won' | 'lost'>('playing');
   const [gameStarted, setGameStarted] = useState(false);
-  const [hasReachedScratcher, setHasReachedScratcher] = useState(false);
+  const [paused, setPaused] = useState(false);
+  const [levelCompleted, setLevelCompleted] = useState(false);
+  // Saved replay of the finished run
+  const [replayId, setReplayId] = useState<string | null>(null);
+  const [ghostSource, setGhostSource] = useState<GhostSource>('best');
+  const [ghostPlayers, setGhostPlayers] = useState<GhostPlayer[]>([]);
+  const [hasGhost, setHasGhost] = useState(false);
+  // Latest split against the ghost, shown in the HUD
+  const [lastSplit, setLastSplit] = useState<SplitResult | null>(null);
   const [imageLoaded, setImageLoaded] = useState(false);
+  const [levelLoading, setLevelLoading] = useState(!!levelId);
   const { toast } = useToast();
+  const playerName = user?.user_metadata?.nickname || user?.email?.split('@')[0] || 'Jogador';
 
   // Load kitty image
   useEffect(() => {
@@ -78,95 +91,127 @@ export const Game = ({ user, onBackToProfile }: GameProps) => {
     };
   }, []);
 
-  // Game objects
-  const kitty = useRef<GameObject & { 
-    animationState: 'idle' | 'walk' | 'jump';
-    animationFrame: number;
-    facingDirection: 'left' | 'right';
-  }>({
-    x: 100,
-    y: 300,
-    width: 40,
-    height: 40,
-    vx: 0,
-    vy: 0,
-    animationState: 'idle',
-    animationFrame: 0,
-    facingDirection: 'right'
-  });
+  // Game objects: the solo rules run on these refs, React state only mirrors them for the HUD
+  const levelState = useRef<SoloLevelState | null>(null);
+  const previousLevelState = useRef<SoloLevelState | null>(null);
+  // Score and fish when the current level started; restarting the level or resuming a run goes back to them
+  const levelStart = useRef<SoloProgress>({ score: 0, fishCount: 0 });
+  const recorder = useRef<ReplayRecorder | null>(null);
+  const resumedRef = useRef(false);
+  const camera = useRef<Camera>({ x: 0, y: 0, width: 800, height: 600 });
+  const previousCamera = useRef<Camera>(camera.current);
+  // Ghosts of the selected source by level id, the one raced in the current level, and this attempt's recording
+  const ghosts = useRef<Record<string, GhostRun>>({});
+  const ghost = useRef<GhostRun | null>(null);
+  const ghostRecorder = useRef<GhostRecorder | null>(null);
+  const splitCounts = useRef<Record<GhostSplitType, number>>({ fish: 0, delivery: 0 });
+  // Best finishes this session; the only personal bests a demo player has
+  const sessionBests = useRef<Record<string, GhostRun>>({});
 
   // Game levels configuration
-  const levels = useRef<Level[]>([
-    // Nível 1 - Básico
-    {
-      platforms: [
-        { x: 0, y: 580, width: 800, height: 20 }, // Ground
-        { x: 200, y: 450, width: 150, height: 20 },
-        { x: 500, y: 400, width: 100, height: 20 },
-        { x: 150, y: 300, width: 120, height: 20 },
-      ],
-      fishes: [
-        { x: 250, y: 420, width: 25, height: 20, collected: false },
-        { x: 530, y: 370, width: 25, height: 20, collected: false },
-      ],
-      scratcher: { x: 700, y: 530, width: 60, height: 50 },
-      playerStart: { x: 50, y: 530 }
-    },
-    // Nível 2 - Torres altas
-    {
-      platforms: [
-        { x: 0, y: 580, width: 800, height: 20 }, // Ground
-        { x: 100, y: 450, width: 80, height: 20 },
-        { x: 300, y: 350, width: 80, height: 20 },
-        { x: 150, y: 250, width: 80, height: 20 },
-        { x: 400, y: 150, width: 80, height: 20 },
-        { x: 600, y: 200, width: 120, height: 20 },
-      ],
-      fishes: [
-        { x: 430, y: 120, width: 25, height: 20, collected: false },
-        { x: 180, y: 220, width: 25, height: 20, collected: false },
-        { x: 630, y: 170, width: 25, height: 20, collected: false },
-      ],
-      scratcher: { x: 720, y: 530, width: 60, height: 50 },
-      playerStart: { x: 30, y: 530 }
-    },
-    // Nível 3 - Labirinto complexo
-    {
-      platforms: [
-        { x: 0, y: 580, width: 800, height: 20 }, // Ground
-        { x: 100, y: 500, width: 100, height: 20 },
-        { x: 300, y: 450, width: 100, height: 20 },
-        { x: 500, y: 400, width: 100, height: 20 },
-        { x: 650, y: 350, width: 100, height: 20 },
-        { x: 100, y: 350, width: 80, height: 20 },
-        { x: 300, y: 250, width: 80, height: 20 },
-        { x: 500, y: 200, width: 80, height: 20 },
-        { x: 200, y: 150, width: 100, height: 20 },
-        { x: 450, y: 100, width: 80, height: 20 },
-      ],
-      fishes: [
-        { x: 530, y: 170, width: 25, height: 20, collected: false },
-        { x: 230, y: 120, width: 25, height: 20, collected: false },
-        { x: 480, y: 70, width: 25, height: 20, collected: false },
-        { x: 680, y: 320, width: 25, height: 20, collected: false },
-      ],
-      scratcher: { x: 50, y: 530, width: 60, height: 50 },
-      playerStart: { x: 720, y: 530 }
-    }
-  ]);
+  const levels = useRef<LevelDefinition[]>(getLevels('solo'));
 
   const currentLevelData = levels.current[currentLevel];
-  const platforms = useRef<Platform[]>(currentLevelData?.platforms || []);
-  const fishes = useRef<Fish[]>(currentLevelData?.fishes || []);
-  const scratcher = useRef<Scratcher>(currentLevelData?.scratcher || { x: 0, y: 0, width: 0, height: 0 });
+  // Levels can be larger than the canvas; the camera scrolls the world through the viewport
+  const WORLD_WIDTH = currentLevelData?.canvas.width ?? 800;
+  const WORLD_HEIGHT = currentLevelData?.canvas.height ?? 600;
+  const viewport = getViewport({ width: WORLD_WIDTH, height: WORLD_HEIGHT }, currentLevelData?.mode ?? 'solo');
+  const CANVAS_WIDTH = viewport.width;
+  const CANVAS_HEIGHT = viewport.height;
+  const totalFish = levels.current.reduce((sum, level) => sum + level.fishes.length, 0);
+
+  // Swap the campaign for a single community level
+  useEffect(() => {
+    if (!levelId) return;
+
+    let cancelled = false;
+    setLevelLoading(true);
+    fetchCommunityLevel(levelId)
+      .then(level => {
+        if (cancelled) return;
+        levels.current = [level];
+        setCurrentLevel(0);
+      })
+      .catch(error => {
+        console.error('Error loading community level:', error);
+        toast({
+          title: "Erro",
+          description: "Falha ao carregar o nível da comunidade",
+          variant: "destructive",
+        });
+      })
+      .finally(() => {
+        if (!cancelled) setLevelLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [levelId, toast]);
+
+  // Players with ghosts on these levels, offered on the start screen
+  useEffect(() => {
+    if (levelLoading) return;
+
+    fetchGhostPlayers(levels.current.map(level => level.id))
+      .then(players => setGhostPlayers(players.filter(player => player.userId !== user?.id)))
+      .catch(error => console.error('Error loading ghost players:', error));
+  }, [levelLoading, user]);
+
+  // Ghosts are fetched ahead of the run so the first level has its ghost from the first tick
+  useEffect(() => {
+    if (levelLoading) return;
+
+    let cancelled = false;
+    const levelIds = levels.current.map(level => level.id);
 
-  const GRAVITY = 0.5;
-  const JUMP_FORCE = -12;
-  const MOVE_SPEED = 5;
-  const CANVAS_WIDTH = 800;
-  const CANVAS_HEIGHT = 600;
+    const loadGhosts = async () => {
+      if (ghostSource === 'none') return {};
+      if (ghostSource === 'best' && !user) return { ...sessionBests.current };
+      return fetchGhosts(ghostSource === 'best' ? user.id : ghostSource, levelIds);
+    };
 
-  const saveGameResult = useCallback(async () => {
+    loadGhosts()
+      .then(loaded => {
+        if (!cancelled) ghosts.current = loaded;
+      })
+      .catch(error => {
+        console.error('Error loading ghosts:', error);
+        if (!cancelled) ghosts.current = {};
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [ghostSource, levelLoading, user]);
+
+  // A finished level replaces the player's ghost when it beats it
+  const storePersonalBest = useCallback(async (run: GhostRun) => {
+    const levelName = levels.current.find(level => level.id === run.levelId)?.name ?? '';
+    const previousBest = sessionBests.current[run.levelId];
+    if (!previousBest || run.ticks < previousBest.ticks) {
+      sessionBests.current[run.levelId] = run;
+    }
+
+    try {
+      const improved = user
+        ? await savePersonalBest(user.id, playerName, run)
+        : sessionBests.current[run.levelId] === run;
+
+      if (!improved) return;
+      if (ghostSource === 'best') {
+        ghosts.current[run.levelId] = run;
+      }
+      toast({
+        title: "👻 Novo recorde!",
+        description: `${levelName}: ${formatTicks(run.ticks)}`,
+      });
+    } catch (error) {
+      console.error('Error saving ghost:', error);
+    }
+  }, [user, playerName, ghostSource, toast]);
+
+  const saveGameResult = useCallback(async (completed: boolean) => {
     if (!user) {
       console.log('Modo demo - progresso não salvo');
       return;
@@ -175,63 +220,101 @@ export const Game = ({ user, onBackToProfile }: GameProps) => {
     try {
       const { supabase } = await import('@/integrations/supabase/client');
       
-      // Save individual game
-      await supabase.from('games').insert({
-        user_id: user.id,
-        fish_collected: fishCount,
-        score: score,
-        time_taken: 60 - timeLeft
+      // The server checks the result against the levels and updates user_stats in the same transaction
+      const { data: gameId, error: gameError } = await supabase.rpc('submit_game_result', {
+        fish_count: fishCount,
+        final_score: score,
+        fall_count: falls,
+        levels_completed: completed ? levels.current.length : currentLevel,
+        elapsed_ticks: elapsedTicks.current,
+        resumed: runResumed.current,
+        game_completed: completed,
+        game_player_name: playerName,
+        game_level_id: levelId,
       });
 
-      // Update user stats
-      const { data: currentStats } = await supabase
-        .from('user_stats')
-        .select('*')
-        .eq('user_id', user.id)
-        .single();
-
-      if (currentStats) {
-        await supabase
-          .from('user_stats')
-          .update({
-            total_fish: currentStats.total_fish + fishCount,
-            games_played: currentStats.games_played + 1,
-            best_score: Math.max(currentStats.best_score, score)
-          })
-          .eq('user_id', user.id);
-      } else {
-        await supabase
-          .from('user_stats')
+      if (gameError) throw gameError;
+      onStatsChanged?.();
+
+      if (levelSplits.current.length > 0) {
+        const { error: splitsError } = await supabase
+          .from('level_splits')
+          .insert(levelSplits.current.map(split => ({
+            game_id: gameId,
+            user_id: user.id,
+            level_id: split.levelId,
+            level_index: split.levelIndex,
+            ticks: split.ticks,
+            run_ticks: split.runTicks,
+          })));
+
+        if (splitsError) {
+          console.error('Error saving level splits:', splitsError);
+        }
+      }
+
+      // Attach the recorded inputs so the run can be watched again
+      const replay = recorder.current?.toReplay();
+      if (replay) {
+        const { data: savedReplay, error: replayError } = await supabase
+          .from('replays')
           .insert({
+            game_id: gameId,
             user_id: user.id,
-            total_fish: fishCount,
-            games_played: 1,
-            best_score: score
-          });
+            level_id: replay.segments[0].levelId,
+            seed: replay.seed,
+            ticks: replayTicks(replay),
+            data: replay as unknown as Json,
+          })
+          .select('id')
+          .single();
+
+        if (replayError) {
+          console.error('Error saving replay:', replayError);
+        } else {
+          setReplayId(savedReplay.id);
+        }
       }
     } catch (error) {
       console.error('Error saving game:', error);
+      toast({
+        title: "Erro",
+        description: "Não foi possível salvar o resultado da partida",
+        variant: "destructive",
+      });
     }
-  }, [user, fishCount, score, timeLeft]);
+  }, [user, levelId, playerName, currentLevel, fishCount, score, falls, onStatsChanged, toast]);
+
+  // Puts the level's objects in place and the kitty on its spawn, dropping keys from the previous level.
+  // Every load starts a new replay segment.
+  const loadLevel = useCallback((level: LevelDefinition, progress: SoloProgress) => {
+    levelStart.current = progress;
+    levelState.current = createSoloLevel(level, progress);
+    previousLevelState.current = levelState.current;
+    recorder.current?.startLevel(level.id, progress);
+
+    // Every attempt at a level races the ghost from its start
+    ghost.current = ghosts.current[level.id] ?? null;
+    ghostRecorder.current = createGhostRecorder(level.id);
+    splitCounts.current = { fish: 0, delivery: 0 };
+    setHasGhost(!!ghost.current);
+    setLastSplit(null);
+
+    // Snap the camera onto the kitty
+    camera.current = centerCamera(getViewport(level.canvas, level.mode), levelState.current.engine.kitty, level.canvas);
+    previousCamera.current = camera.current;
+  }, []);
 
   const nextLevel = useCallback(() => {
     if (currentLevel < levels.current.length - 1) {
-      setCurrentLevel(prev => prev + 1);
-      setTimeLeft(prev => prev + 30); // Bonus time for completing level
-      setCarriedFish(0);
-      setHasReachedScratcher(false);
-      
       // Update level data references
       const newLevelData = levels.current[currentLevel + 1];
-      platforms.current = newLevelData.platforms;
-      fishes.current = newLevelData.fishes.map(f => ({ ...f, collected: false }));
-      scratcher.current = newLevelData.scratcher;
-      
-      // Reset kitty position to level start
-      kitty.current.x = newLevelData.playerStart.x;
-      kitty.current.y = newLevelData.playerStart.y;
-      kitty.current.vx = 0;
-      kitty.current.vy = 0;
+
+      setCurrentLevel(prev => prev + 1);
+      setTimeLeft(prev => prev + newLevelData.timeLimit); // Bonus time for completing level
+      setCarriedFish(0);
+      levelStartTick.current = elapsedTicks.current;
+      loadLevel(newLevelData, { score, fishCount });
       
       toast({
         title: `🎯 Nível ${currentLevel + 2}!`,
@@ -240,333 +323,221 @@ export const Game = ({ user, onBackToProfile }: GameProps) => {
     } else {
       // All levels completed
       setGameStatus('won');
-      saveGameResult();
+      clearRun(user?.id);
+      saveGameResult(true);
       toast({
         title: "🏆 Jogo Completo!",
-        description: `Você completou todos os níveis! Score Final: ${score}`,
+        description: `Você completou todos os níveis! Score Final: ${score} | Tempo: ${formatTicks(elapsedTicks.current)}`,
       });
     }
-  }, [currentLevel, score, saveGameResult, toast]);
+  }, [currentLevel, score, fishCount, user, saveGameResult, loadLevel, toast]);
 
-  const checkWinCondition = useCallback(() => {
-    const currentLevelFishes = levels.current[currentLevel].fishes;
-    const allFishCollected = currentLevelFishes.every((_, index) => 
-      fishes.current[index]?.collected
-    );
-    
-    console.log('Checking win condition:', {
-      allFishCollected,
-      hasReachedScratcher,
-      currentLevelFishes: currentLevelFishes.length,
-      fishesState: fishes.current.map(f => f.collected),
-      carriedFish
-    });
-    
-    // Complete level when all fish are collected AND player reaches scratcher
-    if (allFishCollected && hasReachedScratcher) {
-      console.log('LEVEL COMPLETED!');
-      // Level completed - delivered fish to scratcher
-      nextLevel();
-    }
-  }, [currentLevel, hasReachedScratcher, nextLevel]);
+  // The level ends on the tick the last fish reaches the scratcher
+  useEffect(() => {
+    if (!levelCompleted) return;
+    setLevelCompleted(false);
+    nextLevel();
+  }, [levelCompleted, nextLevel]);
 
-  // Timer effect
+  // Timer runs out - the countdown itself is driven by simulation ticks in updateGame
   useEffect(() => {
-    if (!gameStarted || gameStatus !== 'playing') return;
+    if (!gameStarted || gameStatus !== 'playing' || timeLeft > 0) return;
 
-    const timer = setInterval(() => {
-      setTimeLeft(prev => {
-        if (prev <= 1) {
-          setGameStatus('lost');
-          saveGameResult();
-          toast({
-            title: "⏰ Tempo esgotado!",
-            description: `Você coletou ${fishCount} peixinhos. Score: ${score}`,
-          });
-          return 0;
-        }
-        return prev - 1;
-      });
-    }, 1000);
+    setGameStatus('lost');
+    clearRun(user?.id);
+    saveGameResult(false);
+    toast({
+      title: "⏰ Tempo esgotado!",
+      description: `Você coletou ${fishCount} peixinhos. Score: ${score}`,
+    });
+  }, [gameStarted, gameStatus, timeLeft, user, saveGameResult, fishCount, score, toast]);
 
-    return () => clearInterval(timer);
-  }, [gameStarted, gameStatus, saveGameResult, fishCount, score, toast]);
+  // Keep the saved run current; it changes with every countdown second and level
+  useEffect(() => {
+    if (!gameStarted || gameStatus !== 'playing' || timeLeft <= 0) return;
+
+    saveRun(user?.id, {
+      levelId,
+      levelIndex: currentLevel,
+      ...levelStart.current,
+      timeLeft,
+      falls,
+    });
+  }, [gameStarted, gameStatus, user, levelId, currentLevel, timeLeft, falls]);
 
+  // Hidden tabs pause the run instead of leaving the kitty unattended
   useEffect(() => {
-    checkWinCondition();
-  }, [fishCount, hasReachedScratcher, checkWinCondition]);
+    if (!gameStarted || gameStatus !== 'playing') return;
+
+    const handleVisibilityChange = () => {
+      if (document.hidden) {
+        keysRef.current.clear();
+        setPaused(true);
+      }
+    };
+
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
+  }, [gameStarted, gameStatus]);
 
   // Key handling with preventDefault for arrow keys
   const handleKeyDown = useCallback((e: KeyboardEvent) => {
     const key = e.key.toLowerCase();
+
+    // Esc or P toggles the pause menu; held movement keys are dropped so nothing sticks on resume
+    if ((key === 'escape' || key === 'p') && gameStatus === 'playing') {
+      e.preventDefault();
+      if (!e.repeat) {
+        keysRef.current.clear();
+        setPaused(prev => !prev);
+      }
+      return;
+    }
+
     keysRef.current.add(key);
     
     // Prevent default behavior for game controls to stop page scrolling
-    if (['arrowup', 'arrowdown', 'arrowleft', 'arrowright', ' ', 'w', 'a', 's', 'd'].includes(key)) {
+    if (GAME_KEYS.includes(key)) {
       e.preventDefault();
     }
-  }, []);
+  }, [gameStatus]);
 
   const handleKeyUp = useCallback((e: KeyboardEvent) => {
     const key = e.key.toLowerCase();
     keysRef.current.delete(key);
     
     // Prevent default behavior for game controls
-    if (['arrowup', 'arrowdown', 'arrowleft', 'arrowright', ' ', 'w', 'a', 's', 'd'].includes(key)) {
+    if (GAME_KEYS.includes(key)) {
       e.preventDefault();
     }
   }, []);
 
-  // Collision detection
-  const checkCollision = (rect1: GameObject | Fish, rect2: Platform): boolean => {
-    return rect1.x < rect2.x + rect2.width &&
-           rect1.x + rect1.width > rect2.x &&
-           rect1.y < rect2.y + rect2.height &&
-           rect1.y + rect1.height > rect2.y;
-  };
-
-  // Game loop
-  const gameLoop = useCallback(() => {
-    if (!canvasRef.current || gameStatus !== 'playing') return;
-
-    const canvas = canvasRef.current;
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
-
-    // Clear canvas with gradient background
-    const bgGradient = ctx.createLinearGradient(0, 0, 0, CANVAS_HEIGHT);
-    bgGradient.addColorStop(0, '#87CEEB'); // Sky blue
-    bgGradient.addColorStop(0.7, '#98FB98'); // Light green
-    bgGradient.addColorStop(1, '#90EE90'); // Green
-    ctx.fillStyle = bgGradient;
-    ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
-
-    // Handle input and animations
-    if (keysRef.current.has('a') || keysRef.current.has('arrowleft')) {
-      kitty.current.vx = -MOVE_SPEED;
-      kitty.current.facingDirection = 'left';
-      kitty.current.animationState = 'walk';
-    } else if (keysRef.current.has('d') || keysRef.current.has('arrowright')) {
-      kitty.current.vx = MOVE_SPEED;
-      kitty.current.facingDirection = 'right';
-      kitty.current.animationState = 'walk';
-    } else {
-      kitty.current.vx *= 0.8; // Friction
-      kitty.current.animationState = 'idle';
-    }
-
-    // Jump
-    if ((keysRef.current.has('w') || keysRef.current.has(' ') || keysRef.current.has('arrowup')) && 
-        Math.abs(kitty.current.vy) < 0.1) {
-      // Check if on ground/platform
-      const kittyBottom = kitty.current.y + kitty.current.height;
-      const onPlatform = platforms.current.some(platform => 
-        kitty.current.x < platform.x + platform.width &&
-        kitty.current.x + kitty.current.width > platform.x &&
-        Math.abs(kittyBottom - platform.y) < 5
-      );
-      
-      if (onPlatform) {
-        kitty.current.vy = JUMP_FORCE;
-        kitty.current.animationState = 'jump';
+  // One fixed simulation tick
+  const updateGame = useCallback(() => {
+    const current = levelState.current;
+    if (gameStatus !== 'playing' || paused || !current || current.completed) return;
+
+    const input = readInput(keysRef.current);
+    recorder.current?.record(input);
+    const { state: next, events } = stepSoloLevel(current, input);
+    previousLevelState.current = current;
+    levelState.current = next;
+    elapsedTicks.current += 1;
+    ghostRecorder.current?.record(next.engine.kitty);
+
+    // Marks a split and compares it with the same split of the ghost
+    const split = (type: GhostSplitType) => {
+      const recording = ghostRecorder.current;
+      if (!recording) return;
+      recording.split(type);
+
+      const occurrence = splitCounts.current[type];
+      splitCounts.current[type] += 1;
+      const delta = ghost.current ? splitDelta(ghost.current, type, occurrence, recording.ticks()) : null;
+      if (delta !== null) {
+        setLastSplit({ type, occurrence: occurrence + 1, delta });
       }
-    }
-
-    // Apply gravity
-    kitty.current.vy += GRAVITY;
-
-    // Update position
-    kitty.current.x += kitty.current.vx;
-    kitty.current.y += kitty.current.vy;
+    };
 
-    // Platform collisions
-    platforms.current.forEach(platform => {
-      if (checkCollision(kitty.current, platform)) {
-        // Coming from above
-        if (kitty.current.vy > 0 && kitty.current.y < platform.y) {
-          kitty.current.y = platform.y - kitty.current.height;
-          kitty.current.vy = 0;
+    const world = { width: WORLD_WIDTH, height: WORLD_HEIGHT };
+    previousCamera.current = camera.current;
+    camera.current = followTarget(camera.current, next.engine.kitty, world);
+
+    setScore(next.score);
+    setFishCount(next.fishCount);
+    setCarriedFish(next.carriedFish);
+
+    events.forEach(event => {
+      switch (event.type) {
+        case 'respawn':
+          // Appear at the respawn point instead of sliding there from where the kitty fell
+          previousLevelState.current = next;
+          camera.current = centerCamera({ width: CANVAS_WIDTH, height: CANVAS_HEIGHT }, next.engine.kitty, world);
+          previousCamera.current = camera.current;
+          setFalls(prev => prev + 1);
+          break;
+        case 'fish':
+          split('fish');
+          toast({
+            title: "🐟 Peixinho coletado!",
+            description: `+${FISH_POINTS} pontos | Carregando: ${event.carried} peixe(s)`,
+          });
+          break;
+        case 'delivery':
+          split('delivery');
+          toast({
+            title: "🪚 Arranhador alcançado!",
+            description: `Entregue ${event.fish} peixe(s) - Bônus: +${event.points} pontos!`,
+          });
+          break;
+        case 'complete': {
+          if (ghostRecorder.current) {
+            storePersonalBest(ghostRecorder.current.finish());
+          }
+          const levelTicks = elapsedTicks.current - levelStartTick.current;
+          levelSplits.current.push({
+            levelId: levels.current[currentLevel].id,
+            levelIndex: currentLevel,
+            ticks: levelTicks,
+            runTicks: elapsedTicks.current,
+          });
+          toast({
+            title: `⏱️ ${levels.current[currentLevel].name}: ${formatTicks(levelTicks)}`,
+            description: `Tempo total: ${formatTicks(elapsedTicks.current)}`,
+          });
+          setLevelCompleted(true);
+          break;
         }
       }
     });
 
-    // Boundary check
-    if (kitty.current.x < 0) kitty.current.x = 0;
-    if (kitty.current.x + kitty.current.width > CANVAS_WIDTH) {
-      kitty.current.x = CANVAS_WIDTH - kitty.current.width;
-    }
-    if (kitty.current.y > CANVAS_HEIGHT) {
-      // Reset position if falling off
-      kitty.current.x = 100;
-      kitty.current.y = 300;
-      kitty.current.vx = 0;
-      kitty.current.vy = 0;
+    // Countdown
+    if (elapsedTicks.current % TICKS_PER_SECOND === 0) {
+      setTimeLeft(prev => Math.max(prev - 1, 0));
     }
+  }, [gameStatus, paused, currentLevel, toast, storePersonalBest, CANVAS_WIDTH, CANVAS_HEIGHT, WORLD_WIDTH, WORLD_HEIGHT]);
 
-    // Fish collection
-    fishes.current.forEach(fish => {
-      if (!fish.collected && checkCollision(kitty.current, fish)) {
-        fish.collected = true;
-        setScore(prev => prev + 10);
-        setFishCount(prev => prev + 1);
-        setCarriedFish(prev => prev + 1);
-        toast({
-          title: "🐟 Peixinho coletado!",
-          description: `+10 pontos | Carregando: ${carriedFish + 1} peixe(s)`,
-        });
-      }
-    });
+  // Draws the world, interpolating the kitty and camera between the last two ticks
+  const renderGame = useCallback((frameAlpha: number) => {
+    const current = levelState.current;
+    if (!canvasRef.current || gameStatus !== 'playing' || !current) return;
+    // No ticks run while paused, so hold the last simulated frame
+    const alpha = paused ? 1 : frameAlpha;
+    const previous = previousLevelState.current ?? current;
 
-    // Scratcher collision - delivery point
-    if (checkCollision(kitty.current, scratcher.current)) {
-      console.log('Touching scratcher! hasReachedScratcher:', hasReachedScratcher, 'carriedFish:', carriedFish);
-      if (!hasReachedScratcher && carriedFish > 0) {
-        setHasReachedScratcher(true);
-        setScore(prev => prev + carriedFish * 20); // Bonus for reaching scratcher with fish
-        toast({
-          title: "🪚 Arranhador alcançado!",
-          description: `Entregue ${carriedFish} peixe(s) - Bônus: +${carriedFish * 20} pontos!`,
-        });
-      } else if (!hasReachedScratcher) {
-        setHasReachedScratcher(true);
-      }
-    } else {
-      setHasReachedScratcher(false);
-    }
+    const canvas = canvasRef.current;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
 
-    // Draw platforms with enhanced graphics
-    platforms.current.forEach(platform => {
-      const gradient = ctx.createLinearGradient(0, platform.y, 0, platform.y + platform.height);
-      gradient.addColorStop(0, '#d97706');
-      gradient.addColorStop(1, '#92400e');
-      ctx.fillStyle = gradient;
-      ctx.fillRect(platform.x, platform.y, platform.width, platform.height);
-      
-      // Add platform border
-      ctx.strokeStyle = '#451a03';
-      ctx.lineWidth = 2;
-      ctx.strokeRect(platform.x, platform.y, platform.width, platform.height);
-    });
+    const drawnCamera = interpolateCamera(previousCamera.current, camera.current, alpha);
+    drawParallaxBackground(ctx, drawnCamera, { width: WORLD_WIDTH, height: WORLD_HEIGHT });
 
-    // Draw scratcher (goal) with enhanced graphics
-    const scratcherGradient = ctx.createLinearGradient(
-      scratcher.current.x, scratcher.current.y,
-      scratcher.current.x, scratcher.current.y + scratcher.current.height
-    );
-    
-    if (hasReachedScratcher) {
-      scratcherGradient.addColorStop(0, '#4ade80');
-      scratcherGradient.addColorStop(1, '#15803d');
-      ctx.shadowColor = '#22c55e';
-      ctx.shadowBlur = 20;
-    } else {
-      scratcherGradient.addColorStop(0, '#a855f7');
-      scratcherGradient.addColorStop(1, '#6b21a8');
-    }
-    
-    ctx.fillStyle = scratcherGradient;
-    ctx.fillRect(scratcher.current.x, scratcher.current.y, scratcher.current.width, scratcher.current.height);
-    
-    // Animated scratcher emoji
-    const scratcherScale = hasReachedScratcher ? 1 + Math.sin(kitty.current.animationFrame * 0.2) * 0.1 : 1;
-    ctx.save();
-    ctx.translate(scratcher.current.x + 30, scratcher.current.y + 30);
-    ctx.scale(scratcherScale, scratcherScale);
-    ctx.font = '24px Arial';
-    ctx.textAlign = 'center';
-    ctx.fillText('🪚', 0, 0);
-    ctx.restore();
-    
-    ctx.shadowBlur = 0;
+    const drawnKitty = interpolateKitty(previous.engine.kitty, current.engine.kitty, alpha);
 
-    // Draw fishes with floating animation
-    fishes.current.forEach((fish, index) => {
+    ctx.save();
+    applyCamera(ctx, drawnCamera);
+    current.engine.platforms.forEach(platform => drawPlatform(ctx, platform));
+    drawEntities(ctx, interpolateEntities(previous.engine.entities, current.engine.entities, alpha), drawnKitty.animationFrame);
+    drawScratcher(ctx, current.scratcher, current.atScratcher, drawnKitty.animationFrame);
+    current.fishes.forEach((fish, index) => {
       if (!fish.collected) {
-        const floatY = Math.sin((kitty.current.animationFrame + index * 30) * 0.05) * 3;
-        
-        // Fish glow effect
-        ctx.save();
-        ctx.shadowColor = '#f97316';
-        ctx.shadowBlur = 10;
-        
-        // Fish body
-        const fishGradient = ctx.createRadialGradient(
-          fish.x + fish.width/2, fish.y + fish.height/2 + floatY, 0,
-          fish.x + fish.width/2, fish.y + fish.height/2 + floatY, fish.width
-        );
-        fishGradient.addColorStop(0, '#fb923c');
-        fishGradient.addColorStop(1, '#ea580c');
-        ctx.fillStyle = fishGradient;
-        ctx.fillRect(fish.x, fish.y + floatY, fish.width, fish.height);
-        
-        // Fish emoji with float effect
-        ctx.font = '20px Arial';
-        ctx.textAlign = 'center';
-        ctx.fillText('🐟', fish.x + fish.width/2, fish.y + 15 + floatY);
-        
-        ctx.restore();
+        drawFish(ctx, fish, drawnKitty.animationFrame, index);
       }
     });
 
-    // Update animation frame
-    kitty.current.animationFrame += 1;
-
-    // Draw kitty with enhanced graphics and animations
-    ctx.save();
-    
-    // Apply facing direction
-    if (kitty.current.facingDirection === 'left') {
-      ctx.scale(-1, 1);
-      ctx.translate(-kitty.current.x * 2 - kitty.current.width, 0);
-    }
-    
-    // Animation effects based on state
-    let yOffset = 0;
-    let scaleX = 1;
-    let scaleY = 1;
-    
-    switch (kitty.current.animationState) {
-      case 'idle':
-        yOffset = Math.sin(kitty.current.animationFrame * 0.05) * 1;
-        scaleX = 1 + Math.sin(kitty.current.animationFrame * 0.03) * 0.02;
-        break;
-      case 'walk':
-        yOffset = Math.sin(kitty.current.animationFrame * 0.3) * 2;
-        scaleX = 1 + Math.sin(kitty.current.animationFrame * 0.4) * 0.05;
-        break;
-      case 'jump':
-        scaleY = 1.1;
-        scaleX = 0.9;
-        break;
-    }
-    
-    // Draw kitty image with animation (no background shape)
-    if (imageLoaded && kittyImageRef.current) {
-      ctx.save();
-      ctx.translate(kitty.current.x + kitty.current.width/2, kitty.current.y + kitty.current.height/2 + yOffset);
-      ctx.scale(scaleX, scaleY);
-      // Draw larger kitty (50% bigger)
-      const kittySize = kitty.current.width * 1.5;
-      ctx.drawImage(kittyImageRef.current, -kittySize/2, -kittySize/2, kittySize, kittySize);
-      ctx.restore();
-    } else {
-      // Fallback to emoji while image loads
-      ctx.font = '28px Arial';
-      ctx.textAlign = 'center';
-      ctx.fillStyle = '#ec4899';
-      ctx.fillText('🐱', kitty.current.x + kitty.current.width/2, kitty.current.y + 25 + yOffset);
-    }
-    
-    // Add sparkle effect when moving
-    if (kitty.current.animationState === 'walk' && kitty.current.animationFrame % 10 === 0) {
-      ctx.font = '12px Arial';
-      ctx.fillText('✨', kitty.current.x + Math.random() * 40, kitty.current.y + Math.random() * 40);
+    // The ghost is on the same tick as the player
+    const ghostTicks = ghostRecorder.current?.ticks() ?? 0;
+    const ghostKitty = ghost.current && ghostKittyAt(ghost.current, ghostTicks);
+    if (ghostKitty) {
+      const previousGhostKitty = ghostKittyAt(ghost.current, ghostTicks - 1) ?? ghostKitty;
+      drawGhost(ctx, interpolateKitty(previousGhostKitty, ghostKitty, alpha), imageLoaded ? kittyImageRef.current : null);
     }
-    
-    ctx.restore();
 
-    animationRef.current = requestAnimationFrame(gameLoop);
-  }, [gameStatus, toast]);
+    drawKitty(ctx, drawnKitty, imageLoaded ? kittyImageRef.current : null);
+    ctx.restore();
+    drawHeldKeys(ctx, drawnKitty.keys, 12, 20);
+    drawRunTimer(ctx, formatTicks(elapsedTicks.current), canvas.width - 12, 24);
+  }, [gameStatus, paused, imageLoaded, WORLD_WIDTH, WORLD_HEIGHT]);
 
   // Setup and cleanup
   useEffect(() => {
@@ -575,50 +546,77 @@ export const Game = ({ user, onBackToProfile }: GameProps) => {
     window.addEventListener('keydown', handleKeyDown);
     window.addEventListener('keyup', handleKeyUp);
     
-    animationRef.current = requestAnimationFrame(gameLoop);
+    stopLoopRef.current = startFixedStepLoop({ update: updateGame, render: renderGame });
 
     return () => {
       window.removeEventListener('keydown', handleKeyDown);
       window.removeEventListener('keyup', handleKeyUp);
-      if (animationRef.current) {
-        cancelAnimationFrame(animationRef.current);
-      }
+      stopLoopRef.current?.();
     };
-  }, [gameStarted, gameLoop, handleKeyDown, handleKeyUp]);
+  }, [gameStarted, updateGame, renderGame, handleKeyDown, handleKeyUp]);
+
+  // Starts a new run, or picks up a saved one at the start of the level it was on
+  const startGame = useCallback((run?: RunSnapshot) => {
+    const levelIndex = run && run.levelIndex < levels.current.length ? run.levelIndex : 0;
+    const level = levels.current[levelIndex];
+    const progress = { score: run?.score ?? 0, fishCount: run?.fishCount ?? 0 };
 
-  const startGame = () => {
     setGameStarted(true);
-    setScore(0);
-    setFishCount(0);
+    setPaused(false);
+    setScore(progress.score);
+    setFishCount(progress.fishCount);
     setCarriedFish(0);
-    setCurrentLevel(0);
-    setTimeLeft(90);
+    setFalls(run?.falls ?? 0);
+    setCurrentLevel(levelIndex);
+    setTimeLeft(run?.timeLeft ?? level.timeLimit);
     setGameStatus('playing');
-    setHasReachedScratcher(false);
-    
-    // Initialize first level
-    const firstLevel = levels.current[0];
-    platforms.current = firstLevel.platforms;
-    fishes.current = firstLevel.fishes.map(f => ({ ...f, collected: false }));
-    scratcher.current = firstLevel.scratcher;
-    
-    // Reset kitty position to level start
-    kitty.current = {
-      x: firstLevel.playerStart.x,
-      y: firstLevel.playerStart.y,
-      width: 40,
-      height: 40,
-      vx: 0,
-      vy: 0,
-      animationState: 'idle',
-      animationFrame: 0,
-      facingDirection: 'right'
-    };
-    
-    toast({
-      title: "🎮 Nível 1 iniciado!",
-      description: "Colete peixes e leve-os ao arranhador 🪚",
-    });
+    setLevelCompleted(false);
+    setReplayId(null);
+
+    recorder.current = createReplayRecorder(createSeed());
+    loadLevel(level, progress);
+    elapsedTicks.current = 0;
+    levelStartTick.current = 0;
+    levelSplits.current = [];
+    runResumed.current = !!run;
+
+    if (levelId && !run) {
+      recordLevelPlay(levelId);
+    }
+
+    if (run) {
+      toast({
+        title: "▶️ Partida retomada",
+        description: `Nível ${levelIndex + 1}: ${level.name}`,
+      });
+    } else {
+      toast({
+        title: levelId ? `🎮 ${level.name}` : "🎮 Nível 1 iniciado!",
+        description: "Colete peixes e leve-os ao arranhador 🪚",
+      });
+    }
+  }, [levelId, loadLevel, toast]);
+
+  // A run resumed from the profile skips the start screen once its level is loaded
+  useEffect(() => {
+    if (!resumeRun || levelLoading || resumedRef.current) return;
+    resumedRef.current = true;
+    startGame(resumeRun);
+  }, [resumeRun, levelLoading, startGame]);
+
+  // Back to the state the current level started in; time keeps counting down
+  const restartLevel = () => {
+    setScore(levelStart.current.score);
+    setFishCount(levelStart.current.fishCount);
+    setCarriedFish(0);
+    loadLevel(levels.current[currentLevel], levelStart.current);
+    keysRef.current.clear();
+    setPaused(false);
+  };
+
+  const resumeGame = () => {
+    keysRef.current.clear();
+    setPaused(false);
   };
 
   const resetGame = () => {
@@ -628,8 +626,20 @@ export const Game = ({ user, onBackToProfile }: GameProps) => {
     setFishCount(0);
     setTimeLeft(60);
     
-    if (animationRef.current) {
-      cancelAnimationFrame(animationRef.current);
+    stopLoopRef.current?.();
+  };
+
+  // Leaving mid-run keeps the saved run, so it can be resumed from the profile
+  const quitGame = () => {
+    stopLoopRef.current?.();
+    toast({
+      title: "💾 Progresso salvo",
+      description: "Continue a partida pelo seu perfil",
+    });
+    if (onBackToProfile) {
+      onBackToProfile();
+    } else {
+      resetGame();
     }
   };
 
@@ -648,12 +658,37 @@ export const Game = ({ user, onBackToProfile }: GameProps) => {
           )}
         </div>
 
+        {levelId && !levelLoading && (
+          <p className="text-lg font-semibold text-primary">
+            🌍 {levels.current[0].name}
+          </p>
+        )}
+
+        <div className="flex items-center gap-3">
+          <span className="text-sm text-muted-foreground">👻 Fantasma</span>
+          <Select value={ghostSource} onValueChange={setGhostSource}>
+            <SelectTrigger className="w-56">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="best">Meu recorde</SelectItem>
+              <SelectItem value="none">Sem fantasma</SelectItem>
+              {ghostPlayers.map(player => (
+                <SelectItem key={player.userId} value={player.userId}>
+                  {player.playerName}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
         <Button 
-          onClick={startGame}
+          onClick={() => startGame()}
+          disabled={levelLoading}
           className="bg-gradient-primary hover:opacity-90"
           size="lg"
         >
-          🎮 Iniciar Jogo
+          {levelLoading ? 'Carregando nível...' : '🎮 Iniciar Jogo'}
         </Button>
 
         {onBackToProfile && (
@@ -695,14 +730,44 @@ export const Game = ({ user, onBackToProfile }: GameProps) => {
             <span className="text-xl animate-float">🐟</span>
             <span>{carriedFish}</span>
           </div>
+          <div className="flex items-center gap-2 text-muted-foreground" title="Quedas">
+            <span className="text-xl">💥</span>
+            <span>{falls}</span>
+          </div>
           <div className="flex items-center gap-2 text-destructive">
             <span className="text-xl">⏰</span>
             <span>{timeLeft}s</span>
           </div>
+          {hasGhost && (
+            <div
+              className={`flex items-center gap-2 ${lastSplit && lastSplit.delta > 0 ? 'text-destructive' : 'text-green-500'}`}
+              title="Diferença para o fantasma"
+            >
+              <span className="text-xl">👻</span>
+              <span>
+                {lastSplit
+                  ? `${lastSplit.type === 'fish' ? `🐟${lastSplit.occurrence}` : '🪚'} ${formatSplitDelta(lastSplit.delta)}`
+                  : '--'}
+              </span>
+            </div>
+          )}
+          {gameStatus === 'playing' && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => {
+                keysRef.current.clear();
+                setPaused(true);
+              }}
+              disabled={paused}
+            >
+              ⏸️ Pausar
+            </Button>
+          )}
         </div>
       </div>
 
-      <Card className="p-2 shadow-lg game-ui-card">
+      <Card className="p-2 shadow-lg game-ui-card relative">
         <canvas 
           ref={canvasRef}
           width={CANVAS_WIDTH}
@@ -710,6 +775,24 @@ export const Game = ({ user, onBackToProfile }: GameProps) => {
           className="border-2 border-primary/30 rounded-lg shadow-inner"
           style={{ background: 'var(--gradient-sky)' }}
         />
+
+        {paused && gameStatus === 'playing' && (
+          <div className="absolute inset-2 rounded-lg bg-background/70 backdrop-blur-sm flex items-center justify-center">
+            <div className="game-ui-card p-6 rounded-2xl text-center space-y-3 w-64">
+              <div className="text-2xl font-bold">⏸️ Pausado</div>
+              <p className="text-sm text-muted-foreground">Esc ou P para continuar</p>
+              <Button onClick={resumeGame} className="w-full bg-gradient-primary hover:opacity-90">
+                ▶️ Continuar
+              </Button>
+              <Button onClick={restartLevel} variant="secondary" className="w-full">
+                🔄 Reiniciar nível
+              </Button>
+              <Button onClick={quitGame} variant="outline" className="w-full">
+                🚪 Sair
+              </Button>
+            </div>
+          </div>
+        )}
       </Card>
 
       {gameStatus !== 'playing' && (
@@ -718,7 +801,18 @@ export const Game = ({ user, onBackToProfile }: GameProps) => {
             {gameStatus === 'won' ? '🎉 Parabéns!' : '⏰ Tempo Esgotado!'}
           </div>
           <div className="mb-4 text-muted-foreground">
-            Score Final: {score} | Peixinhos: {fishCount}/5
+            Score Final: {score} | Peixinhos: {fishCount}/{totalFish} | Quedas: {falls}
+          </div>
+          <div className="mb-4 text-sm">
+            <p className="font-semibold">
+              ⏱️ {formatTicks(elapsedTicks.current)}
+              {runResumed.current && <span className="text-muted-foreground"> (partida retomada, fora do ranking da campanha)</span>}
+            </p>
+            {levelSplits.current.map(split => (
+              <p key={split.levelIndex} className="text-muted-foreground font-mono">
+                {levels.current[split.levelIndex].name}: {formatTicks(split.ticks)} ({formatTicks(split.runTicks)})
+              </p>
+            ))}
           </div>
           <div className="flex gap-2">
             <Button 
@@ -727,6 +821,11 @@ export const Game = ({ user, onBackToProfile }: GameProps) => {
             >
               Jogar Novamente
             </Button>
+            {replayId && (
+              <Button asChild variant="secondary">
+                <Link to={`/replay/${replayId}`}>🎬 Ver replay</Link>
+              </Button>
+            )}
             {onBackToProfile && (
               <Button 
                 onClick={onBackToProfile}
@@ -741,7 +840,7 @@ export const Game = ({ user, onBackToProfile }: GameProps) => {
 
       {gameStarted && gameStatus === 'playing' && (
         <div className="text-center text-sm text-muted-foreground">
-          <p>🎮 Use WASD ou setas para mover</p>
+          <p>🎮 Use WASD ou setas para mover • Esc ou P para pausar</p>
           <p>⬆️ Pule nas plataformas para alcançar os peixinhos!</p>
         </div>
       )}
@@ -1,4 +1,5 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { Auth } from '@/components/Auth';
 import { UserProfile } from '@/components/UserProfile';
 import { Game } from '@/components/Game';
@@ -6,6 +7,7 @@ import { MultiplayerLobby } from '@/components/MultiplayerLobby';
 import { MultiplayerGame } from '@/components/MultiplayerGame';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
+import { loadRun, type RunSnapshot } from '@/game/runs';
 
 // Mock user for development when Supabase is not configured
 const mockUser = {
@@ -16,9 +18,18 @@ const mockUser = {
 export const GameContainer = () => {
   const [user, setUser] = useState<any>(null);
   const [loading, setLoading] = useState(true);
-  const [currentView, setCurrentView] = useState<'profile' | 'game' | 'multiplayer' | 'multiplayer-game'>('profile');
+  const [searchParams, setSearchParams] = useSearchParams();
+  // `/?level=<id>` opens a community level straight into the solo game
+  const communityLevelId = searchParams.get('level') ?? undefined;
+  const [currentView, setCurrentView] = useState<'profile' | 'game' | 'multiplayer' | 'multiplayer-game'>(
+    communityLevelId ? 'game' : 'profile'
+  );
   const [currentRoomId, setCurrentRoomId] = useState<string | null>(null);
+  // Saved solo run picked from the profile
+  const [resumeRun, setResumeRun] = useState<RunSnapshot | null>(null);
   const [useMockMode, setUseMockMode] = useState(false);
+  // Bumped whenever a finished game changes the player's stats, so the profile reloads them
+  const [statsVersion, setStatsVersion] = useState(0);
 
   useEffect(() => {
     // Since Supabase is now configured, proceed with authentication
@@ -50,6 +61,23 @@ export const GameContainer = () => {
     setCurrentView('multiplayer-game');
   };
 
+  const handleBackToProfile = () => {
+    if (communityLevelId) {
+      setSearchParams({});
+    }
+    setResumeRun(null);
+    setCurrentView('profile');
+  };
+
+  const handleResumeGame = (run: RunSnapshot) => {
+    setResumeRun(run);
+    setCurrentView('game');
+  };
+
+  const handleStatsChanged = useCallback(() => {
+    setStatsVersion(version => version + 1);
+  }, []);
+
   const handleLeaveRoom = () => {
     setCurrentRoomId(null);
     setCurrentView('multiplayer');
@@ -66,8 +94,16 @@ export const GameContainer = () => {
   // Demo mode when Supabase is not configured
   if (useMockMode) {
     if (currentView === 'game') {
-      return <Game onBackToProfile={() => setCurrentView('profile')} />;
+      return (
+        <Game
+          levelId={resumeRun?.levelId ?? communityLevelId}
+          resumeRun={resumeRun ?? undefined}
+          onBackToProfile={handleBackToProfile}
+        />
+      );
     }
+
+    const demoRun = loadRun();
     
     return (
       <div className="min-h-screen bg-gradient-background flex items-center justify-center p-4">
@@ -93,6 +129,15 @@ export const GameContainer = () => {
             >
               🎮 Jogar sem Login
             </Button>
+            {demoRun && (
+              <Button
+                onClick={() => handleResumeGame(demoRun)}
+                variant="secondary"
+                className="w-full"
+              >
+                ▶️ Continuar partida (nível {demoRun.levelIndex + 1})
+              </Button>
+            )}
           </CardContent>
         </Card>
       </div>
@@ -107,7 +152,10 @@ export const GameContainer = () => {
     return (
       <Game 
         user={user} 
-        onBackToProfile={() => setCurrentView('profile')} 
+        levelId={resumeRun?.levelId ?? communityLevelId}
+        resumeRun={resumeRun ?? undefined}
+        onBackToProfile={handleBackToProfile} 
+        onStatsChanged={handleStatsChanged}
       />
     );
   }
@@ -128,6 +176,7 @@ export const GameContainer = () => {
         user={user}
         roomId={currentRoomId}
         onLeaveRoom={handleLeaveRoom}
+        onStatsChanged={handleStatsChanged}
       />
     );
   }
@@ -136,7 +185,9 @@ export const GameContainer = () => {
     <UserProfile 
       user={user} 
       onStartGame={() => setCurrentView('game')}
+      onResumeGame={handleResumeGame}
       onStartMultiplayer={() => setCurrentView('multiplayer')}
+      statsVersion={statsVersion}
     />
   );
 };
\ No newline at end of file
@@ -0,0 +1,255 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import type { User } from '@supabase/supabase-js';
+import {
+  LEADERBOARD_PAGE_SIZE,
+  fetchLeaderboardPage,
+  fetchPlayerStanding,
+  fetchSeasons,
+  pageOfPosition,
+  type LeaderboardBoard,
+  type LeaderboardEntry,
+  type LeaderboardMetric,
+  type LeaderboardPeriod,
+  type Season,
+} from '@/game/leaderboard';
+
+const METRICS: { value: LeaderboardMetric; label: string; unit: string }[] = [
+  { value: 'best_score', label: '⭐ Melhor pontuação', unit: 'pts' },
+  { value: 'total_fish', label: '🐟 Peixes', unit: '🐟' },
+  { value: 'multiplayer_wins', label: '👥 Vitórias online', unit: '🏆' },
+  { value: 'rating', label: '📈 Rating', unit: '📈' },
+];
+
+const PERIODS: { value: LeaderboardPeriod; label: string }[] = [
+  { value: 'all', label: '♾️ Todos os tempos' },
+  { value: 'week', label: '📅 Esta semana' },
+  { value: 'month', label: '🗓️ Este mês' },
+  { value: 'season', label: '🏁 Temporada atual' },
+];
+
+// Archived seasons share the period Select with the live periods
+const SEASON_PREFIX = 'season:';
+
+const formatDate = (date: string) => new Date(date).toLocaleDateString('pt-BR');
+
+const toBoard = (metric: LeaderboardMetric, scope: string): LeaderboardBoard => scope.startsWith(SEASON_PREFIX)
+  ? { metric, period: 'season', seasonId: scope.slice(SEASON_PREFIX.length) }
+  : { metric, period: scope as LeaderboardPeriod };
+
+export const GlobalLeaderboard = () => {
+  const [user, setUser] = useState<User | null>(null);
+  const [metric, setMetric] = useState<LeaderboardMetric>('best_score');
+  const [scope, setScope] = useState<string>('all');
+  const [seasons, setSeasons] = useState<Season[]>([]);
+  const [page, setPage] = useState(0);
+  const [entries, setEntries] = useState<LeaderboardEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [standing, setStanding] = useState<LeaderboardEntry | null>(null);
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+
+  const currentSeason = seasons.find(season => !season.archived_at && new Date(season.ends_at) > new Date());
+  const archivedSeasons = seasons.filter(season => season.archived_at);
+  const pageCount = Math.max(Math.ceil(total / LEADERBOARD_PAGE_SIZE), 1);
+  const unit = METRICS.find(option => option.value === metric)?.unit;
+
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      setUser(session?.user ?? null);
+    });
+  }, []);
+
+  useEffect(() => {
+    fetchSeasons()
+      .then(setSeasons)
+      .catch(error => console.error('Error loading seasons:', error));
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadBoard = async () => {
+      try {
+        setLoading(true);
+        const result = await fetchLeaderboardPage(toBoard(metric, scope), page);
+        if (cancelled) return;
+        setEntries(result.entries);
+        setTotal(result.total);
+      } catch (error) {
+        console.error('Error loading global leaderboard:', error);
+        if (cancelled) return;
+        setEntries([]);
+        setTotal(0);
+        toast({
+          title: "Erro",
+          description: "Falha ao carregar o ranking",
+          variant: "destructive",
+        });
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    loadBoard();
+    return () => {
+      cancelled = true;
+    };
+  }, [metric, scope, page, toast]);
+
+  useEffect(() => {
+    if (!user) return;
+    let cancelled = false;
+
+    fetchPlayerStanding(toBoard(metric, scope), user.id)
+      .then(result => {
+        if (!cancelled) setStanding(result);
+      })
+      .catch(error => console.error('Error loading player standing:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [metric, scope, user]);
+
+  // A different board starts from its first page
+  const changeMetric = (value: string) => {
+    setMetric(value as LeaderboardMetric);
+    if (value === 'rating') setScope('all');
+    setPage(0);
+  };
+
+  const changeScope = (value: string) => {
+    setScope(value);
+    setPage(0);
+  };
+
+  const jumpToMyRank = () => {
+    if (standing) setPage(pageOfPosition(standing.position));
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-background p-4">
+      <div className="max-w-3xl mx-auto space-y-6">
+        <div className="text-center">
+          <h1 className="text-4xl font-bold mb-2 bg-gradient-primary bg-clip-text text-transparent">
+            🏆 Ranking Global
+          </h1>
+          <p className="text-muted-foreground">
+            Os melhores jogadores de TheoNess
+          </p>
+        </div>
+
+        <Card className="game-ui-card">
+          <CardHeader className="space-y-4">
+            <div className="flex flex-wrap items-center justify-between gap-4">
+              <CardTitle>
+                {PERIODS.find(option => option.value === scope)?.label
+                  ?? `🗄️ ${archivedSeasons.find(season => scope === `${SEASON_PREFIX}${season.id}`)?.name ?? 'Temporada'}`}
+              </CardTitle>
+              <Select value={scope} onValueChange={changeScope} disabled={metric === 'rating'}>
+                <SelectTrigger className="w-56">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PERIODS.map(option => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                  {archivedSeasons.map(season => (
+                    <SelectItem key={season.id} value={`${SEASON_PREFIX}${season.id}`}>
+                      🗄️ {season.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {scope === 'season' && currentSeason && (
+              <p className="text-sm text-muted-foreground">
+                {currentSeason.name}: de {formatDate(currentSeason.starts_at)} até {formatDate(currentSeason.ends_at)}
+              </p>
+            )}
+            {scope.startsWith(SEASON_PREFIX) && (
+              <p className="text-sm text-muted-foreground">
+                Classificação final da temporada encerrada
+              </p>
+            )}
+            <Tabs value={metric} onValueChange={changeMetric}>
+              <TabsList className="w-full">
+                {METRICS.map(option => (
+                  <TabsTrigger key={option.value} value={option.value} className="flex-1">
+                    {option.label}
+                  </TabsTrigger>
+                ))}
+              </TabsList>
+            </Tabs>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {loading ? (
+              <p className="text-center text-muted-foreground py-8">Carregando ranking...</p>
+            ) : entries.length === 0 ? (
+              <p className="text-center text-muted-foreground py-8">Ninguém pontuou neste período ainda.</p>
+            ) : (
+              entries.map(entry => (
+                <div
+                  key={entry.userId}
+                  className={`flex items-center justify-between px-3 py-2 rounded-lg ${entry.userId === user?.id ? 'bg-primary/10 border border-primary/30' : 'bg-muted/20'}`}
+                >
+                  <span className="w-12 font-bold text-primary">
+                    {entry.rank <= 3 ? ['🥇', '🥈', '🥉'][entry.rank - 1] : `#${entry.rank}`}
+                  </span>
+                  <span className="flex-1 truncate">{entry.playerName}</span>
+                  <span className="font-mono">{entry.value} {unit}</span>
+                </div>
+              ))
+            )}
+
+            <div className="flex items-center justify-between pt-2">
+              <Button variant="outline" size="sm" onClick={() => setPage(prev => prev - 1)} disabled={loading || page === 0}>
+                ← Anterior
+              </Button>
+              <span className="text-sm text-muted-foreground">Página {page + 1} de {pageCount}</span>
+              <Button variant="outline" size="sm" onClick={() => setPage(prev => prev + 1)} disabled={loading || page + 1 >= pageCount}>
+                Próxima →
+              </Button>
+            </div>
+
+            {user && (
+              <div className="flex items-center justify-between gap-2 pt-2 border-t border-border/30">
+                <p className="text-sm text-muted-foreground">
+                  {standing
+                    ? `Sua posição: #${standing.rank} com ${standing.value} ${unit}`
+                    : 'Você ainda não aparece neste ranking.'}
+                </p>
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  onClick={jumpToMyRank}
+                  disabled={!standing || page === pageOfPosition(standing.position)}
+                >
+                  📍 Ir para minha posição
+                </Button>
+              </div>
+            )}
+            <p className="text-xs text-center text-muted-foreground">
+              🎬 Partidas solo só contam depois de verificadas pelo replay
+            </p>
+          </CardContent>
+        </Card>
+
+        <div className="flex justify-center">
+          <Button asChild variant="outline">
+            <Link to="/">← Voltar ao Jogo</Link>
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,315 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import type { User } from '@supabase/supabase-js';
+import type { CommunityLevel } from '@/game/levels/community';
+
+type LevelTab = 'community' | 'mine';
+type LevelSort = 'recent' | 'plays' | 'likes';
+
+const SORT_COLUMNS: Record<LevelSort, 'created_at' | 'plays' | 'likes'> = {
+  recent: 'created_at',
+  plays: 'plays',
+  likes: 'likes',
+};
+
+const PAGE_SIZE = 30;
+
+export const LevelBrowser = () => {
+  const [user, setUser] = useState<User | null>(null);
+  const [tab, setTab] = useState<LevelTab>('community');
+  const [search, setSearch] = useState('');
+  const [modeFilter, setModeFilter] = useState<'all' | 'solo' | 'multiplayer'>('all');
+  const [sort, setSort] = useState<LevelSort>('plays');
+  const [levels, setLevels] = useState<CommunityLevel[]>([]);
+  const [likedIds, setLikedIds] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(true);
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      setUser(session?.user ?? null);
+    });
+  }, []);
+
+  const loadLevels = useCallback(async () => {
+    setLoading(true);
+    try {
+      let query = supabase
+        .from('levels')
+        .select('*')
+        .order(SORT_COLUMNS[sort], { ascending: false })
+        .limit(PAGE_SIZE);
+
+      if (tab === 'mine') {
+        query = query.eq('owner_id', user.id);
+      } else {
+        query = query.eq('published', true);
+      }
+      if (modeFilter !== 'all') {
+        query = query.eq('mode', modeFilter);
+      }
+      const term = search.trim();
+      if (term) {
+        query = query.ilike('title', `%${term}%`);
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+      setLevels(data || []);
+
+      // Which of the listed levels the player already liked
+      if (user && data?.length) {
+        const { data: likes, error: likesError } = await supabase
+          .from('level_likes')
+          .select('level_id')
+          .eq('user_id', user.id)
+          .in('level_id', data.map(level => level.id));
+
+        if (likesError) throw likesError;
+        setLikedIds(new Set(likes.map(like => like.level_id)));
+      }
+    } catch (error) {
+      console.error('Error loading levels:', error);
+      toast({
+        title: "Erro",
+        description: "Falha ao carregar níveis",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [tab, sort, modeFilter, search, user, toast]);
+
+  // Debounce typing in the search box
+  useEffect(() => {
+    if (tab === 'mine' && !user) return;
+    const timeout = setTimeout(loadLevels, 300);
+    return () => clearTimeout(timeout);
+  }, [loadLevels, tab, user]);
+
+  const toggleLike = async (level: CommunityLevel) => {
+    if (!user) {
+      toast({
+        title: "Autenticação necessária",
+        description: "Faça login para curtir níveis",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const liked = likedIds.has(level.id);
+    try {
+      const { error } = liked
+        ? await supabase.from('level_likes').delete().eq('level_id', level.id).eq('user_id', user.id)
+        : await supabase.from('level_likes').insert({ level_id: level.id, user_id: user.id });
+
+      if (error) throw error;
+
+      setLikedIds(prev => {
+        const next = new Set(prev);
+        if (liked) {
+          next.delete(level.id);
+        } else {
+          next.add(level.id);
+        }
+        return next;
+      });
+      setLevels(prev => prev.map(item => item.id === level.id
+        ? { ...item, likes: item.likes + (liked ? -1 : 1) }
+        : item));
+    } catch (error) {
+      console.error('Error toggling like:', error);
+      toast({
+        title: "Erro",
+        description: "Falha ao curtir o nível",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const togglePublished = async (level: CommunityLevel, published: boolean) => {
+    try {
+      const { error } = await supabase
+        .from('levels')
+        .update({ published })
+        .eq('id', level.id);
+
+      if (error) throw error;
+      setLevels(prev => prev.map(item => item.id === level.id ? { ...item, published } : item));
+      toast({
+        title: published ? "🌍 Nível publicado!" : "🔒 Nível despublicado",
+        description: level.title,
+      });
+    } catch (error) {
+      console.error('Error publishing level:', error);
+      toast({
+        title: "Erro",
+        description: "Falha ao atualizar o nível",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const deleteLevel = async (level: CommunityLevel) => {
+    if (!window.confirm(`Excluir "${level.title}"?`)) return;
+
+    try {
+      const { error } = await supabase
+        .from('levels')
+        .delete()
+        .eq('id', level.id);
+
+      if (error) throw error;
+      setLevels(prev => prev.filter(item => item.id !== level.id));
+    } catch (error) {
+      console.error('Error deleting level:', error);
+      toast({
+        title: "Erro",
+        description: "Falha ao excluir o nível",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-background p-6">
+      <div className="max-w-5xl mx-auto">
+        <div className="text-center mb-8">
+          <h1 className="text-5xl font-bold mb-4 bg-gradient-primary bg-clip-text text-transparent animate-float">
+            🌍 Níveis da Comunidade
+          </h1>
+          <p className="text-muted-foreground">Jogue fases criadas por outros jogadores ou compartilhe as suas!</p>
+        </div>
+
+        <Card className="p-4 game-ui-card mb-6">
+          <div className="flex flex-wrap gap-3 items-center">
+            <Tabs value={tab} onValueChange={(value) => setTab(value as LevelTab)}>
+              <TabsList>
+                <TabsTrigger value="community">🌍 Comunidade</TabsTrigger>
+                <TabsTrigger value="mine" disabled={!user}>🛠️ Meus níveis</TabsTrigger>
+              </TabsList>
+            </Tabs>
+            <Input
+              placeholder="Buscar por nome..."
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className="flex-1 min-w-[180px]"
+              maxLength={80}
+            />
+            <Select value={modeFilter} onValueChange={(value) => setModeFilter(value as typeof modeFilter)}>
+              <SelectTrigger className="w-[150px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Todos os modos</SelectItem>
+                <SelectItem value="solo">🎯 Solo</SelectItem>
+                <SelectItem value="multiplayer">👥 Multiplayer</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select value={sort} onValueChange={(value) => setSort(value as LevelSort)}>
+              <SelectTrigger className="w-[160px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="plays">▶️ Mais jogados</SelectItem>
+                <SelectItem value="likes">❤️ Mais curtidos</SelectItem>
+                <SelectItem value="recent">🆕 Mais recentes</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </Card>
+
+        {loading ? (
+          <div className="text-center py-8">
+            <div className="animate-spin w-8 h-8 border-2 border-primary border-t-transparent rounded-full mx-auto mb-2" />
+            <p className="text-muted-foreground">Carregando níveis...</p>
+          </div>
+        ) : levels.length === 0 ? (
+          <Card className="p-8 game-ui-card text-center text-muted-foreground">
+            <p className="text-lg mb-2">Nenhum nível encontrado</p>
+            <p>Crie o seu no editor e publique para a comunidade!</p>
+          </Card>
+        ) : (
+          <div className="grid gap-4">
+            {levels.map(level => (
+              <Card key={level.id} className="p-4 border border-primary/20 hover:border-primary/40 transition-colors">
+                <div className="flex items-center justify-between gap-4 flex-wrap">
+                  <div className="flex-1 min-w-[200px]">
+                    <div className="flex items-center gap-2 mb-2 flex-wrap">
+                      <h3 className="font-bold text-lg">{level.title}</h3>
+                      <Badge variant="outline" className="text-xs">
+                        {level.mode === 'solo' ? '🎯 Solo' : '👥 Multiplayer'}
+                      </Badge>
+                      {tab === 'mine' && !level.published && (
+                        <Badge variant="secondary" className="text-xs">🔒 Rascunho</Badge>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-4 text-sm text-muted-foreground">
+                      <span>▶️ {level.plays} partidas</span>
+                      <span>❤️ {level.likes} curtidas</span>
+                      <span>📅 {new Date(level.created_at).toLocaleDateString('pt-BR')}</span>
+                    </div>
+                  </div>
+
+                  <div className="flex items-center gap-2">
+                    {tab === 'mine' ? (
+                      <>
+                        <div className="flex items-center gap-2 mr-2">
+                          <Switch
+                            checked={level.published}
+                            onCheckedChange={(published) => togglePublished(level, published)}
+                          />
+                          <span className="text-sm text-muted-foreground">Publicado</span>
+                        </div>
+                        <Button asChild variant="outline" size="sm">
+                          <Link to={`/editor?level=${level.id}`}>✏️ Editar</Link>
+                        </Button>
+                        <Button variant="destructive" size="sm" onClick={() => deleteLevel(level)}>
+                          🗑️
+                        </Button>
+                      </>
+                    ) : (
+                      <Button
+                        variant={likedIds.has(level.id) ? 'secondary' : 'outline'}
+                        size="sm"
+                        onClick={() => toggleLike(level)}
+                      >
+                        {likedIds.has(level.id) ? '❤️' : '🤍'}
+                      </Button>
+                    )}
+                    <Button
+                      size="sm"
+                      className="bg-gradient-primary hover:opacity-90"
+                      onClick={() => navigate(`/?level=${level.id}`)}
+                    >
+                      ▶️ Jogar
+                    </Button>
+                  </div>
+                </div>
+              </Card>
+            ))}
+          </div>
+        )}
+
+        <div className="flex justify-center gap-2 mt-8">
+          <Button asChild variant="outline">
+            <Link to="/">← Voltar ao Jogo</Link>
+          </Button>
+          <Button asChild variant="secondary">
+            <Link to="/editor">🛠️ Criar Nível</Link>
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,1181 @@
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import type { User } from '@supabase/supabase-js';
+import kittyImage from '@/assets/kitty.png';
+import { applyCamera, centerCamera, followTarget, getViewport, interpolateCamera } from '@/game/camera';
+import { checkCollision } from '@/game/collision';
+import {
+  KEY_COLORS,
+  createEntities,
+  drawEntities,
+  drawHeldKeys,
+  interpolateEntities,
+  type EntityDefinition,
+  type EntityType,
+  type KeyColor,
+} from '@/game/entities';
+import { createKitty, step } from '@/game/engine';
+import { GAME_KEYS, readInput } from '@/game/input';
+import { TICKS_PER_SECOND, interpolateKitty, startFixedStepLoop } from '@/game/loop';
+import { PHYSICS_BY_MODE } from '@/game/physics';
+import { drawFish, drawKitty, drawParallaxBackground, drawPlatform, drawScratcher, drawSky } from '@/game/render';
+import {
+  CANVAS_PRESETS,
+  MIN_OBJECT_SIZE,
+  RESIZE_HANDLE_SIZE,
+  canRemove,
+  createEmptyLevel,
+  createEntityDefinition,
+  getObjectRect,
+  hitTest,
+  isOnResizeHandle,
+  isResizable,
+  removeObject,
+  snap,
+  updateEntity,
+  updateObject,
+  type EditorSelection,
+} from '@/game/levels/editing';
+import { toLevelData, toLevelDefinition } from '@/game/levels/community';
+import { LevelValidationError, getLevels, parseLevel, validateLevel } from '@/game/levels/loader';
+import type { LevelDefinition, LevelMode } from '@/game/levels/schema';
+import type { EngineState, Platform, Point, Rect } from '@/game/types';
+
+type EditorTool = 'select' | 'platform' | 'oneway' | 'fish' | 'scratcher' | 'spawn' | 'entity';
+
+const TOOLS: { id: EditorTool; label: string }[] = [
+  { id: 'select', label: '🖱️ Selecionar' },
+  { id: 'platform', label: '🧱 Bloco sólido' },
+  { id: 'oneway', label: '➖ Plataforma' },
+  { id: 'fish', label: '🐟 Peixe' },
+  { id: 'scratcher', label: '🪚 Arranhador' },
+  { id: 'spawn', label: '🐱 Início' },
+];
+
+const OBJECT_LABELS: Record<EditorSelection['type'], string> = {
+  platform: 'Plataforma',
+  fish: 'Peixe',
+  scratcher: 'Arranhador',
+  spawn: 'Ponto de início',
+  entity: 'Elemento',
+};
+
+const ENTITY_LABELS: Record<EntityType, string> = {
+  'moving-platform': '⚙️ Plataforma móvel',
+  'crumbling-platform': '🪨 Plataforma frágil',
+  spring: '🌀 Mola',
+  hazard: '🔥 Perigo',
+  conveyor: '➡️ Esteira',
+  key: '🔑 Chave',
+  door: '🚪 Porta',
+  checkpoint: '🚩 Checkpoint',
+};
+
+const KEY_COLOR_LABELS: Record<KeyColor, string> = {
+  red: 'Vermelha',
+  blue: 'Azul',
+  green: 'Verde',
+  yellow: 'Amarela',
+};
+
+const MAX_HISTORY = 100;
+
+interface EditorHistory {
+  past: LevelDefinition[];
+  present: LevelDefinition;
+  future: LevelDefinition[];
+}
+
+interface DragState {
+  selection: EditorSelection;
+  mode: 'move' | 'resize';
+  start: Point;
+  startRect: Rect;
+  before: LevelDefinition;
+  moved: boolean;
+}
+
+// The `levels` row being edited, when the level was saved to or opened from Supabase
+interface RemoteLevel {
+  id: string;
+  published: boolean;
+  // Published at least once, so its data can no longer change
+  locked: boolean;
+}
+
+interface NumberFieldProps {
+  label: string;
+  value: number | undefined;
+  onChange: (value: number | undefined) => void;
+  optional?: boolean;
+}
+
+const NumberField = ({ label, value, onChange, optional }: NumberFieldProps) => (
+  <div className="space-y-1">
+    <Label className="text-xs text-muted-foreground">{label}</Label>
+    <Input
+      type="number"
+      value={value ?? ''}
+      placeholder={optional ? '—' : undefined}
+      onChange={(e) => {
+        if (e.target.value === '') {
+          if (optional) onChange(undefined);
+          return;
+        }
+        const parsed = Number(e.target.value);
+        if (Number.isFinite(parsed)) onChange(parsed);
+      }}
+      className="h-8"
+    />
+  </div>
+);
+
+interface EntityFieldsProps {
+  entity: EntityDefinition;
+  onChange: (entity: EntityDefinition) => void;
+}
+
+// Type-specific properties of the selected entity; the rectangle is edited with the common fields
+const EntityFields = ({ entity, onChange }: EntityFieldsProps) => {
+  switch (entity.type) {
+    case 'moving-platform':
+      return (
+        <div className="space-y-2">
+          <NumberField
+            label="Velocidade (px/tick)"
+            value={entity.speed}
+            onChange={(speed) => onChange({ ...entity, speed: Math.max(0.1, speed) })}
+          />
+          {entity.path.map((point, index) => (
+            <div key={index} className="grid grid-cols-2 gap-2">
+              <NumberField
+                label={`Ponto ${index + 1} X`}
+                value={point.x}
+                onChange={(x) => onChange({ ...entity, path: entity.path.map((item, itemIndex) => itemIndex === index ? { ...item, x } : item) })}
+              />
+              <NumberField
+                label={`Ponto ${index + 1} Y`}
+                value={point.y}
+                onChange={(y) => onChange({ ...entity, path: entity.path.map((item, itemIndex) => itemIndex === index ? { ...item, y } : item) })}
+              />
+            </div>
+          ))}
+          <div className="grid grid-cols-2 gap-2">
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => {
+                const last = entity.path[entity.path.length - 1];
+                onChange({ ...entity, path: [...entity.path, { x: last.x, y: last.y - 100 }] });
+              }}
+            >
+              ➕ Ponto
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => onChange({ ...entity, path: entity.path.slice(0, -1) })}
+              disabled={entity.path.length <= 1}
+            >
+              ➖ Ponto
+            </Button>
+          </div>
+        </div>
+      );
+    case 'crumbling-platform':
+      return (
+        <div className="grid grid-cols-2 gap-2">
+          <NumberField
+            label="Atraso (ticks)"
+            value={entity.delay}
+            onChange={(delay) => onChange({ ...entity, delay: delay === undefined ? undefined : Math.max(1, Math.round(delay)) })}
+            optional
+          />
+          <NumberField
+            label="Volta em (ticks)"
+            value={entity.respawn}
+            onChange={(respawn) => onChange({ ...entity, respawn: respawn === undefined ? undefined : Math.max(1, Math.round(respawn)) })}
+            optional
+          />
+        </div>
+      );
+    case 'spring':
+      return (
+        <NumberField
+          label="Força (negativa sobe)"
+          value={entity.force}
+          onChange={(force) => onChange({ ...entity, force: force === undefined ? undefined : Math.min(-1, force) })}
+          optional
+        />
+      );
+    case 'conveyor':
+      return (
+        <NumberField
+          label="Velocidade (negativa vai à esquerda)"
+          value={entity.speed}
+          onChange={(speed) => onChange({ ...entity, speed })}
+        />
+      );
+    case 'hazard':
+      return (
+        <Select
+          value={entity.variant}
+          onValueChange={(variant: 'spikes' | 'water') => onChange({ ...entity, variant })}
+        >
+          <SelectTrigger className="h-8">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="spikes">🔺 Espinhos</SelectItem>
+            <SelectItem value="water">🌊 Água</SelectItem>
+          </SelectContent>
+        </Select>
+      );
+    case 'checkpoint':
+      return null;
+    case 'key':
+    case 'door':
+      return (
+        <Select
+          value={entity.color}
+          onValueChange={(color: KeyColor) => onChange({ ...entity, color })}
+        >
+          <SelectTrigger className="h-8">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(KEY_COLORS) as KeyColor[]).map(color => (
+              <SelectItem key={color} value={color}>
+                <span style={{ color: KEY_COLORS[color] }}>●</span> {KEY_COLOR_LABELS[color]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      );
+  }
+};
+
+export const LevelEditor = () => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const kittyImageRef = useRef<HTMLImageElement | null>(null);
+  const dragRef = useRef<DragState | null>(null);
+  const savedIdRef = useRef<string | null>(null);
+
+  const [history, setHistory] = useState<EditorHistory>(() => ({
+    past: [],
+    present: getLevels('solo')[0] ?? createEmptyLevel('solo'),
+    future: [],
+  }));
+  const [tool, setTool] = useState<EditorTool>('select');
+  const [entityType, setEntityType] = useState<EntityType>('moving-platform');
+  const [selection, setSelection] = useState<EditorSelection | null>(null);
+  const [snapEnabled, setSnapEnabled] = useState(true);
+  const [gridSize, setGridSize] = useState(10);
+  const [playtesting, setPlaytesting] = useState(false);
+  const [imageLoaded, setImageLoaded] = useState(false);
+  const [user, setUser] = useState<User | null>(null);
+  const [remoteLevel, setRemoteLevel] = useState<RemoteLevel | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { toast } = useToast();
+
+  const level = history.present;
+  const issues = useMemo(() => validateLevel(level), [level]);
+  const grid = snapEnabled ? gridSize : 0;
+  const bundledLevels = useMemo(() => [...getLevels('solo'), ...getLevels('multiplayer')], []);
+  const selectedRect = selection ? getObjectRect(level, selection) : undefined;
+  // The editor shows the whole world; play-testing shows what a player sees through the camera
+  const playViewport = getViewport(level.canvas, level.mode);
+
+  // Load kitty image
+  useEffect(() => {
+    const img = new Image();
+    img.src = kittyImage;
+    img.onload = () => {
+      kittyImageRef.current = img;
+      setImageLoaded(true);
+    };
+  }, []);
+
+  // `/editor?level=<id>` opens a level from Supabase; only its owner saves over it, anyone else edits a copy
+  const remoteLevelId = searchParams.get('level');
+  useEffect(() => {
+    const loadRemoteLevel = async () => {
+      try {
+        const { data: { session } } = await supabase.auth.getSession();
+        setUser(session?.user ?? null);
+        // Saving a new level puts its id in the URL; it is already loaded
+        if (!remoteLevelId || remoteLevelId === savedIdRef.current) return;
+
+        const { data, error } = await supabase
+          .from('levels')
+          .select('*')
+          .eq('id', remoteLevelId)
+          .single();
+
+        if (error) throw error;
+        setHistory({ past: [], present: toLevelDefinition(data), future: [] });
+        setSelection(null);
+        setRemoteLevel(data.owner_id === session?.user?.id
+          ? { id: data.id, published: data.published, locked: data.published_at !== null }
+          : null);
+      } catch (error) {
+        console.error('Error loading level:', error);
+        toast({
+          title: "Erro",
+          description: "Falha ao carregar o nível",
+          variant: "destructive",
+        });
+      }
+    };
+
+    loadRemoteLevel();
+  }, [remoteLevelId, toast]);
+
+  // History
+  const commit = useCallback((next: LevelDefinition) => {
+    setHistory(prev => ({
+      past: [...prev.past, prev.present].slice(-MAX_HISTORY),
+      present: next,
+      future: [],
+    }));
+  }, []);
+
+  const undo = useCallback(() => {
+    setHistory(prev => prev.past.length === 0 ? prev : {
+      past: prev.past.slice(0, -1),
+      present: prev.past[prev.past.length - 1],
+      future: [prev.present, ...prev.future],
+    });
+    setSelection(null);
+  }, []);
+
+  const redo = useCallback(() => {
+    setHistory(prev => prev.future.length === 0 ? prev : {
+      past: [...prev.past, prev.present],
+      present: prev.future[0],
+      future: prev.future.slice(1),
+    });
+    setSelection(null);
+  }, []);
+
+  const openLevel = (next: LevelDefinition) => {
+    commit(next);
+    setRemoteLevel(null);
+    if (remoteLevelId) setSearchParams({});
+    setSelection(null);
+    setTool('select');
+  };
+
+  const deleteSelected = useCallback(() => {
+    if (!selection || !canRemove(level, selection)) return;
+    commit(removeObject(level, selection));
+    setSelection(null);
+  }, [level, selection, commit]);
+
+  // Mouse editing
+  const toCanvasPoint = (e: React.MouseEvent<HTMLCanvasElement>): Point => {
+    const canvas = e.currentTarget;
+    const bounds = canvas.getBoundingClientRect();
+    return {
+      x: (e.clientX - bounds.left) * canvas.width / bounds.width,
+      y: (e.clientY - bounds.top) * canvas.height / bounds.height,
+    };
+  };
+
+  const placeObject = (x: number, y: number) => {
+    let next: LevelDefinition;
+    let placed: EditorSelection;
+
+    switch (tool) {
+      case 'platform':
+      case 'oneway': {
+        const platform: Platform = { x, y, width: 120, height: 20 };
+        if (tool === 'oneway') platform.kind = 'oneway';
+        next = { ...level, platforms: [...level.platforms, platform] };
+        placed = { type: 'platform', index: level.platforms.length };
+        break;
+      }
+      case 'fish':
+        next = { ...level, fishes: [...level.fishes, { x, y, width: 25, height: 20 }] };
+        placed = { type: 'fish', index: level.fishes.length };
+        break;
+      case 'scratcher':
+        next = { ...level, scratcher: { ...level.scratcher, x, y } };
+        placed = { type: 'scratcher', index: 0 };
+        break;
+      case 'spawn':
+        next = { ...level, spawnPoints: [...level.spawnPoints, { x, y }] };
+        placed = { type: 'spawn', index: level.spawnPoints.length };
+        break;
+      case 'entity': {
+        const entities = level.entities ?? [];
+        next = { ...level, entities: [...entities, createEntityDefinition(entityType, x, y)] };
+        placed = { type: 'entity', index: entities.length };
+        break;
+      }
+      default:
+        return;
+    }
+
+    commit(next);
+    setSelection(placed);
+    setTool('select');
+  };
+
+  const handleMouseDown = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    if (playtesting) return;
+    const point = toCanvasPoint(e);
+
+    if (tool !== 'select') {
+      placeObject(snap(point.x, grid), snap(point.y, grid));
+      return;
+    }
+
+    // The resize handle of the current selection wins over whatever is underneath
+    if (selection && selectedRect && isResizable(selection) && isOnResizeHandle(selectedRect, point)) {
+      dragRef.current = { selection, mode: 'resize', start: point, startRect: selectedRect, before: level, moved: false };
+      return;
+    }
+
+    const hit = hitTest(level, point);
+    setSelection(hit);
+    if (hit) {
+      dragRef.current = { selection: hit, mode: 'move', start: point, startRect: getObjectRect(level, hit), before: level, moved: false };
+    }
+  };
+
+  const handleMouseMove = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+
+    const point = toCanvasPoint(e);
+    const dx = point.x - drag.start.x;
+    const dy = point.y - drag.start.y;
+    const { startRect } = drag;
+
+    const rect: Rect = drag.mode === 'move'
+      ? { ...startRect, x: snap(startRect.x + dx, grid), y: snap(startRect.y + dy, grid) }
+      : {
+          ...startRect,
+          width: Math.max(MIN_OBJECT_SIZE, snap(startRect.x + startRect.width + dx, grid) - startRect.x),
+          height: Math.max(MIN_OBJECT_SIZE, snap(startRect.y + startRect.height + dy, grid) - startRect.y),
+        };
+
+    if (!drag.moved && rect.x === startRect.x && rect.y === startRect.y &&
+        rect.width === startRect.width && rect.height === startRect.height) {
+      return;
+    }
+
+    drag.moved = true;
+    setHistory(prev => ({ ...prev, present: updateObject(drag.before, drag.selection, rect) }));
+  };
+
+  // A whole drag is a single undo step
+  const handleMouseUp = () => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    if (!drag?.moved) return;
+
+    setHistory(prev => ({
+      past: [...prev.past, drag.before].slice(-MAX_HISTORY),
+      present: prev.present,
+      future: [],
+    }));
+  };
+
+  // Keyboard shortcuts
+  useEffect(() => {
+    if (playtesting) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA') return;
+
+      const key = e.key.toLowerCase();
+      const modifier = e.ctrlKey || e.metaKey;
+      if (modifier && key === 'z') {
+        e.preventDefault();
+        if (e.shiftKey) {
+          redo();
+        } else {
+          undo();
+        }
+      } else if (modifier && key === 'y') {
+        e.preventDefault();
+        redo();
+      } else if ((key === 'delete' || key === 'backspace') && selection) {
+        e.preventDefault();
+        deleteSelected();
+      } else if (key === 'escape') {
+        setSelection(null);
+        setTool('select');
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [playtesting, selection, undo, redo, deleteSelected]);
+
+  // Draw the level being edited
+  useEffect(() => {
+    if (playtesting) return;
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+
+    const { width, height } = level.canvas;
+    drawSky(ctx, width, height);
+
+    // Snap grid
+    if (snapEnabled && gridSize >= 5) {
+      ctx.save();
+      ctx.strokeStyle = 'rgba(255, 255, 255, 0.35)';
+      ctx.lineWidth = 1;
+      const step = gridSize < 20 ? gridSize * 5 : gridSize;
+      for (let x = 0; x <= width; x += step) {
+        ctx.beginPath();
+        ctx.moveTo(x + 0.5, 0);
+        ctx.lineTo(x + 0.5, height);
+        ctx.stroke();
+      }
+      for (let y = 0; y <= height; y += step) {
+        ctx.beginPath();
+        ctx.moveTo(0, y + 0.5);
+        ctx.lineTo(width, y + 0.5);
+        ctx.stroke();
+      }
+      ctx.restore();
+    }
+
+    level.platforms.forEach(platform => drawPlatform(ctx, platform));
+    drawEntities(ctx, createEntities(level.entities), 0);
+    drawScratcher(ctx, level.scratcher, false, 0);
+    level.fishes.forEach((fish, index) => drawFish(ctx, fish, 0, index));
+
+    // Spawn points as numbered translucent kitties
+    level.spawnPoints.forEach((spawn, index) => {
+      ctx.save();
+      ctx.globalAlpha = 0.7;
+      drawKitty(ctx, createKitty(spawn.x, spawn.y), imageLoaded ? kittyImageRef.current : null);
+      ctx.restore();
+      ctx.font = 'bold 12px Arial';
+      ctx.textAlign = 'center';
+      ctx.fillStyle = '#1e3a8a';
+      ctx.fillText(`${index + 1}`, spawn.x + 20, spawn.y - 6);
+    });
+
+    // Selection outline and resize handle
+    if (selection && selectedRect) {
+      ctx.save();
+      ctx.strokeStyle = '#2563eb';
+      ctx.lineWidth = 2;
+      ctx.setLineDash([6, 3]);
+      ctx.strokeRect(selectedRect.x - 2, selectedRect.y - 2, selectedRect.width + 4, selectedRect.height + 4);
+      if (isResizable(selection)) {
+        ctx.setLineDash([]);
+        ctx.fillStyle = '#2563eb';
+        ctx.fillRect(
+          selectedRect.x + selectedRect.width - RESIZE_HANDLE_SIZE / 2,
+          selectedRect.y + selectedRect.height - RESIZE_HANDLE_SIZE / 2,
+          RESIZE_HANDLE_SIZE,
+          RESIZE_HANDLE_SIZE
+        );
+      }
+      ctx.restore();
+    }
+  }, [level, selection, selectedRect, playtesting, snapEnabled, gridSize, imageLoaded]);
+
+  // Play-test with the real engine and physics profile of the level's mode
+  useEffect(() => {
+    if (!playtesting) return;
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+
+    const spawn = level.spawnPoints[0];
+    let state: EngineState = {
+      kitty: createKitty(spawn.x, spawn.y),
+      platforms: level.platforms,
+      bounds: level.canvas,
+      respawnPoint: spawn,
+      physics: PHYSICS_BY_MODE[level.mode],
+      entities: createEntities(level.entities),
+    };
+    let previous = state.kitty;
+    let previousEntities = state.entities;
+    let camera = centerCamera(getViewport(level.canvas, level.mode), state.kitty, level.canvas);
+    let previousCamera = camera;
+    const collected = level.fishes.map(() => false);
+    const keys = new Set<string>();
+    let finished = false;
+    let ticks = 0;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const key = e.key.toLowerCase();
+      if (key === 'escape') {
+        setPlaytesting(false);
+        return;
+      }
+      keys.add(key);
+      if (GAME_KEYS.includes(key)) {
+        e.preventDefault();
+      }
+    };
+
+    const handleKeyUp = (e: KeyboardEvent) => {
+      keys.delete(e.key.toLowerCase());
+    };
+
+    const stopLoop = startFixedStepLoop({
+      update: () => {
+        if (finished) return;
+        previous = state.kitty;
+        previousEntities = state.entities;
+        state = step(state, readInput(keys));
+        if (state.respawned) previous = state.kitty;
+        previousCamera = camera;
+        camera = followTarget(camera, state.kitty, level.canvas);
+        ticks += 1;
+
+        level.fishes.forEach((fish, index) => {
+          if (!collected[index] && checkCollision(state.kitty, fish)) {
+            collected[index] = true;
+          }
+        });
+
+        if (collected.every(Boolean) && checkCollision(state.kitty, level.scratcher)) {
+          finished = true;
+          toast({
+            title: "🏆 Nível concluído!",
+            description: `Tempo: ${(ticks / TICKS_PER_SECOND).toFixed(2)}s${level.parTime ? ` (par ${level.parTime}s)` : ''}`,
+          });
+        }
+      },
+      render: (alpha) => {
+        const kitty = interpolateKitty(previous, state.kitty, alpha);
+        const drawnCamera = interpolateCamera(previousCamera, camera, alpha);
+        drawParallaxBackground(ctx, drawnCamera, level.canvas);
+        ctx.save();
+        applyCamera(ctx, drawnCamera);
+        level.platforms.forEach(platform => drawPlatform(ctx, platform));
+        drawEntities(ctx, interpolateEntities(previousEntities, state.entities, alpha), kitty.animationFrame);
+        drawScratcher(ctx, level.scratcher, finished, kitty.animationFrame);
+        level.fishes.forEach((fish, index) => {
+          if (!collected[index]) {
+            drawFish(ctx, fish, kitty.animationFrame, index);
+          }
+        });
+        drawKitty(ctx, kitty, kittyImageRef.current);
+        ctx.restore();
+        drawHeldKeys(ctx, kitty.keys, 12, 44);
+
+        // HUD
+        ctx.save();
+        ctx.font = 'bold 16px Arial';
+        ctx.textAlign = 'left';
+        ctx.fillStyle = '#1f2937';
+        const fishCount = collected.filter(Boolean).length;
+        ctx.fillText(`🐟 ${fishCount}/${collected.length}   ⏰ ${(ticks / TICKS_PER_SECOND).toFixed(1)}s   Esc para voltar`, 12, 24);
+        ctx.restore();
+      },
+    });
+
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+
+    return () => {
+      stopLoop();
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+    };
+  }, [playtesting, level, toast]);
+
+  const startPlaytest = () => {
+    if (issues.length > 0) {
+      toast({
+        title: "Nível com problemas",
+        description: "Corrija os problemas listados antes de testar",
+        variant: "destructive",
+      });
+      return;
+    }
+    setSelection(null);
+    setPlaytesting(true);
+  };
+
+  // Sharing through Supabase
+  // Changes to a published level become a new draft
+  const saveToCloud = async (published = remoteLevel?.locked ? false : remoteLevel?.published ?? false) => {
+    if (!user) {
+      toast({
+        title: "Autenticação necessária",
+        description: "Faça login para salvar níveis",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (issues.length > 0) {
+      toast({
+        title: "Nível com problemas",
+        description: "Corrija os problemas listados antes de salvar",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const row = {
+        title: level.name,
+        mode: level.mode,
+        data: toLevelData(level),
+        published,
+      };
+
+      if (remoteLevel && !remoteLevel.locked) {
+        const { error } = await supabase
+          .from('levels')
+          .update(row)
+          .eq('id', remoteLevel.id);
+
+        if (error) throw error;
+        setRemoteLevel({ id: remoteLevel.id, published, locked: published });
+      } else {
+        // A published level keeps its data for the ghosts and results recorded on it, so changes to
+        // it are saved as a new level
+        const { data, error } = await supabase
+          .from('levels')
+          .insert({ ...row, owner_id: user.id })
+          .select()
+          .single();
+
+        if (error) throw error;
+        setRemoteLevel({ id: data.id, published, locked: published });
+        savedIdRef.current = data.id;
+        setSearchParams({ level: data.id });
+      }
+
+      toast({
+        title: published ? "🌍 Nível publicado!" : "☁️ Nível salvo!",
+        description: remoteLevel?.locked
+          ? "Níveis publicados não mudam, então as alterações viraram um novo nível"
+          : published ? "Outros jogadores já podem jogar" : "Publique quando estiver pronto",
+      });
+    } catch (error) {
+      console.error('Error saving level:', error);
+      toast({
+        title: "Erro",
+        description: "Falha ao salvar o nível",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // A published level can still be unpublished and published again, just not changed
+  const setPublished = async (published: boolean) => {
+    if (!remoteLevel) return;
+
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from('levels')
+        .update({ published })
+        .eq('id', remoteLevel.id);
+
+      if (error) throw error;
+      setRemoteLevel({ ...remoteLevel, published });
+      toast({
+        title: published ? "🌍 Nível publicado!" : "🔒 Nível despublicado",
+        description: level.name,
+      });
+    } catch (error) {
+      console.error('Error publishing level:', error);
+      toast({
+        title: "Erro",
+        description: "Falha ao atualizar o nível",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Import / export
+  const exportLevel = () => {
+    if (issues.length > 0) {
+      toast({
+        title: "Nível com problemas",
+        description: "Corrija os problemas listados antes de exportar",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const blob = new Blob([`${JSON.stringify(level, null, 2)}\n`], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${level.id}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const importLevel = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const imported = parseLevel(JSON.parse(await file.text()), file.name);
+      openLevel(imported);
+      toast({
+        title: "📂 Nível importado",
+        description: imported.name,
+      });
+    } catch (error) {
+      console.error('Error importing level:', error);
+      toast({
+        title: "Erro ao importar",
+        description: error instanceof LevelValidationError
+          ? error.issues.slice(0, 3).join(' • ')
+          : "Arquivo JSON inválido",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleOpenChange = (value: string) => {
+    if (value === 'new-solo' || value === 'new-multiplayer') {
+      openLevel(createEmptyLevel(value === 'new-solo' ? 'solo' : 'multiplayer'));
+      return;
+    }
+    const bundled = bundledLevels.find(candidate => candidate.id === value);
+    if (bundled) openLevel(bundled);
+  };
+
+  const updateLevel = (changes: Partial<LevelDefinition>) => commit({ ...level, ...changes });
+
+  const updateSelectedRect = (changes: Partial<Rect>) => {
+    if (!selection || !selectedRect) return;
+    commit(updateObject(level, selection, { ...selectedRect, ...changes }));
+  };
+
+  const selectedPlatform = selection?.type === 'platform' ? level.platforms[selection.index] : undefined;
+  const selectedEntity = selection?.type === 'entity' ? level.entities?.[selection.index] : undefined;
+
+  return (
+    <div className="min-h-screen bg-gradient-background p-4">
+      <div className="max-w-7xl mx-auto">
+        <div className="flex items-center justify-between mb-4 flex-wrap gap-2">
+          <h1 className="text-3xl font-bold bg-gradient-primary bg-clip-text text-transparent">
+            🛠️ Editor de Níveis
+          </h1>
+          <Button asChild variant="outline">
+            <Link to="/">← Voltar ao Jogo</Link>
+          </Button>
+        </div>
+
+        <div className="grid lg:grid-cols-4 gap-4">
+          {/* Canvas */}
+          <Card className="p-4 game-ui-card lg:col-span-3">
+            <div className="flex flex-wrap gap-2 mb-3">
+              {TOOLS.map(({ id, label }) => (
+                <Button
+                  key={id}
+                  size="sm"
+                  variant={tool === id ? 'default' : 'outline'}
+                  onClick={() => setTool(id)}
+                  disabled={playtesting}
+                >
+                  {label}
+                </Button>
+              ))}
+              <Select
+                value={entityType}
+                onValueChange={(value: EntityType) => {
+                  setEntityType(value);
+                  setTool('entity');
+                }}
+                disabled={playtesting}
+              >
+                <SelectTrigger className={`h-9 w-[190px] ${tool === 'entity' ? 'border-primary' : ''}`}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(ENTITY_LABELS) as EntityType[]).map(type => (
+                    <SelectItem key={type} value={type}>{ENTITY_LABELS[type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <div className="flex-1" />
+              <Button size="sm" variant="outline" onClick={undo} disabled={playtesting || history.past.length === 0}>
+                ↩️ Desfazer
+              </Button>
+              <Button size="sm" variant="outline" onClick={redo} disabled={playtesting || history.future.length === 0}>
+                ↪️ Refazer
+              </Button>
+              {playtesting ? (
+                <Button size="sm" variant="destructive" onClick={() => setPlaytesting(false)}>
+                  ⏹️ Parar Teste
+                </Button>
+              ) : (
+                <Button size="sm" className="bg-gradient-primary hover:opacity-90" onClick={startPlaytest}>
+                  ▶️ Testar
+                </Button>
+              )}
+            </div>
+
+            <div className="flex justify-center">
+              <canvas
+                ref={canvasRef}
+                width={playtesting ? playViewport.width : level.canvas.width}
+                height={playtesting ? playViewport.height : level.canvas.height}
+                className="border-2 border-primary/30 rounded-lg"
+                style={{
+                  maxWidth: '100%',
+                  maxHeight: '75vh',
+                  width: 'auto',
+                  height: 'auto',
+                  cursor: playtesting ? 'default' : tool === 'select' ? 'pointer' : 'crosshair',
+                }}
+                onMouseDown={handleMouseDown}
+                onMouseMove={handleMouseMove}
+                onMouseUp={handleMouseUp}
+                onMouseLeave={handleMouseUp}
+              />
+            </div>
+
+            <p className="text-center text-xs text-muted-foreground mt-3">
+              {playtesting
+                ? '🎮 WASD ou setas para mover • Esc para voltar ao editor'
+                : 'Clique para posicionar • Arraste para mover • Puxe o canto para redimensionar • Del apaga • Ctrl+Z / Ctrl+Y'}
+            </p>
+          </Card>
+
+          {/* Side panel */}
+          <div className="space-y-4">
+            <Card className="p-4 game-ui-card space-y-3">
+              <h2 className="font-bold text-primary">📁 Arquivo</h2>
+              <Select onValueChange={handleOpenChange} disabled={playtesting}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Abrir nível..." />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="new-solo">✨ Novo nível solo</SelectItem>
+                  <SelectItem value="new-multiplayer">✨ Novo nível multiplayer</SelectItem>
+                  {bundledLevels.map(bundled => (
+                    <SelectItem key={bundled.id} value={bundled.id}>
+                      {bundled.mode === 'solo' ? '🎯' : '👥'} {bundled.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <div className="grid grid-cols-2 gap-2">
+                <Button size="sm" variant="secondary" onClick={() => fileInputRef.current?.click()} disabled={playtesting}>
+                  📂 Importar
+                </Button>
+                <Button size="sm" variant="secondary" onClick={exportLevel}>
+                  💾 Exportar
+                </Button>
+              </div>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".json,application/json"
+                className="hidden"
+                onChange={importLevel}
+              />
+            </Card>
+
+            <Card className="p-4 game-ui-card space-y-3">
+              <div className="flex items-center justify-between">
+                <h2 className="font-bold text-primary">☁️ Comunidade</h2>
+                {remoteLevel && (
+                  <Badge variant={remoteLevel.published ? 'default' : 'secondary'}>
+                    {remoteLevel.published ? 'Publicado' : 'Rascunho'}
+                  </Badge>
+                )}
+              </div>
+              {user ? (
+                <>
+                  <Button
+                    size="sm"
+                    className="w-full bg-gradient-primary hover:opacity-90"
+                    onClick={() => saveToCloud()}
+                    disabled={saving || playtesting}
+                  >
+                    {saving
+                      ? 'Salvando...'
+                      : remoteLevel?.locked ? '☁️ Salvar como novo nível' : remoteLevel ? '☁️ Salvar alterações' : '☁️ Salvar na nuvem'}
+                  </Button>
+                  <div className="flex items-center justify-between">
+                    <Label className="text-sm">Publicar para todos</Label>
+                    <Switch
+                      checked={remoteLevel?.published ?? false}
+                      onCheckedChange={(published) => remoteLevel?.locked ? setPublished(published) : saveToCloud(published)}
+                      disabled={saving || playtesting}
+                    />
+                  </div>
+                </>
+              ) : (
+                <p className="text-xs text-muted-foreground">Faça login no jogo para salvar e compartilhar seus níveis.</p>
+              )}
+              <Button asChild size="sm" variant="outline" className="w-full">
+                <Link to="/levels">🌍 Ver níveis da comunidade</Link>
+              </Button>
+            </Card>
+
+            <Card className="p-4 game-ui-card space-y-3">
+              <h2 className="font-bold text-primary">🗺️ Nível</h2>
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">Nome</Label>
+                <Input value={level.name} onChange={(e) => updateLevel({ name: e.target.value })} className="h-8" />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">ID</Label>
+                <Input value={level.id} onChange={(e) => updateLevel({ id: e.target.value })} className="h-8" />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">Modo</Label>
+                <Select
+                  value={level.mode}
+                  onValueChange={(mode: LevelMode) => updateLevel({ mode, canvas: CANVAS_PRESETS[mode] })}
+                  disabled={playtesting}
+                >
+                  <SelectTrigger className="h-8">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="solo">Solo (800x600)</SelectItem>
+                    <SelectItem value="multiplayer">Multiplayer (800x1200)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <NumberField
+                  label="Largura do mundo"
+                  value={level.canvas.width}
+                  onChange={(width) => updateLevel({ canvas: { ...level.canvas, width } })}
+                />
+                <NumberField
+                  label="Altura do mundo"
+                  value={level.canvas.height}
+                  onChange={(height) => updateLevel({ canvas: { ...level.canvas, height } })}
+                />
+                <NumberField
+                  label="Tempo (s)"
+                  value={level.timeLimit}
+                  onChange={(timeLimit) => updateLevel({ timeLimit })}
+                />
+                <NumberField
+                  label="Par (s)"
+                  value={level.parTime}
+                  onChange={(parTime) => updateLevel({ parTime })}
+                  optional
+                />
+              </div>
+              <div className="flex items-center justify-between">
+                <Label className="text-sm">Grade magnética</Label>
+                <Switch checked={snapEnabled} onCheckedChange={setSnapEnabled} />
+              </div>
+              {snapEnabled && (
+                <NumberField
+                  label="Tamanho da grade"
+                  value={gridSize}
+                  onChange={(value) => setGridSize(Math.max(1, Math.round(value)))}
+                />
+              )}
+            </Card>
+
+            {selection && selectedRect && !playtesting && (
+              <Card className="p-4 game-ui-card space-y-3">
+                <div className="flex items-center justify-between">
+                  <h2 className="font-bold text-primary">
+                    {selectedEntity ? ENTITY_LABELS[selectedEntity.type] : OBJECT_LABELS[selection.type]}
+                  </h2>
+                  {selection.type !== 'scratcher' && (
+                    <Badge variant="outline">#{selection.index + 1}</Badge>
+                  )}
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  <NumberField label="X" value={selectedRect.x} onChange={(x) => updateSelectedRect({ x })} />
+                  <NumberField label="Y" value={selectedRect.y} onChange={(y) => updateSelectedRect({ y })} />
+                  {isResizable(selection) && (
+                    <>
+                      <NumberField
+                        label="Largura"
+                        value={selectedRect.width}
+                        onChange={(width) => updateSelectedRect({ width: Math.max(MIN_OBJECT_SIZE, width) })}
+                      />
+                      <NumberField
+                        label="Altura"
+                        value={selectedRect.height}
+                        onChange={(height) => updateSelectedRect({ height: Math.max(MIN_OBJECT_SIZE, height) })}
+                      />
+                    </>
+                  )}
+                </div>
+                {selectedEntity && (
+                  <EntityFields
+                    entity={selectedEntity}
+                    onChange={(entity) => commit(updateEntity(level, selection.index, entity))}
+                  />
+                )}
+                {selectedPlatform && (
+                  <div className="flex items-center justify-between">
+                    <Label className="text-sm">Atravessável por baixo</Label>
+                    <Switch
+                      checked={selectedPlatform.kind === 'oneway'}
+                      onCheckedChange={(oneway) => commit({
+                        ...level,
+                        platforms: level.platforms.map((platform, index) => index === selection.index
+                          ? { ...platform, kind: oneway ? 'oneway' : 'solid' }
+                          : platform),
+                      })}
+                    />
+                  </div>
+                )}
+                <Button
+                  size="sm"
+                  variant="destructive"
+                  className="w-full"
+                  onClick={deleteSelected}
+                  disabled={!canRemove(level, selection)}
+                >
+                  🗑️ Remover
+                </Button>
+              </Card>
+            )}
+
+            <Card className="p-4 game-ui-card">
+              <h2 className="font-bold text-primary mb-2">
+                {issues.length === 0 ? '✅ Nível válido' : `⚠️ ${issues.length} problema(s)`}
+              </h2>
+              {issues.length > 0 && (
+                <ul className="space-y-1 text-xs text-destructive max-h-40 overflow-y-auto">
+                  {issues.map(issue => (
+                    <li key={issue}>{issue}</li>
+                  ))}
+                </ul>
+              )}
+              <p className="text-xs text-muted-foreground mt-2">
+                {level.platforms.length} plataformas • {level.entities?.length ?? 0} elementos • {level.fishes.length} peixes • {level.spawnPoints.length} início(s)
+              </p>
+            </Card>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,223 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { HISTORY_PAGE_SIZE, fetchMatchHistory, fetchProgress, type MatchHistoryEntry, type Progress } from '@/game/history';
+import { getLevel, getLevels } from '@/game/levels/loader';
+import { TICKS_PER_SECOND, formatTicks } from '@/game/loop';
+
+interface MatchHistoryProps {
+  userId: string;
+  // Changes whenever a finished game was saved, to reload the history
+  statsVersion?: number;
+}
+
+const progressChartConfig = {
+  score: { label: 'Pontuação', color: 'hsl(var(--primary))' },
+  fish: { label: 'Peixes', color: 'hsl(var(--accent))' },
+  seconds: { label: 'Segundos', color: 'hsl(var(--primary))' },
+} satisfies ChartConfig;
+
+const formatDate = (date: string) => new Date(date).toLocaleString('pt-BR', { dateStyle: 'short', timeStyle: 'short' });
+
+// Campaign levels by name, community levels by a generic label
+const levelLabel = (levelId: string) => getLevel(levelId)?.name ?? 'Nível da comunidade';
+
+const HistoryEntry = ({ entry }: { entry: MatchHistoryEntry }) => (
+  <div className="flex items-center justify-between gap-3 p-3 rounded-lg bg-muted/20 border border-border/30 flex-wrap">
+    <div className="flex items-center gap-3">
+      <span className="text-2xl">{entry.mode === 'solo' ? '🎯' : '👥'}</span>
+      <div>
+        <p className="font-semibold">
+          {entry.mode === 'solo'
+            ? entry.level_id ? '🌍 Nível da comunidade' : 'Campanha solo'
+            : `Sala ${entry.room_name}`}
+        </p>
+        <p className="text-xs text-muted-foreground">{formatDate(entry.created_at)}</p>
+      </div>
+    </div>
+
+    <div className="flex items-center gap-2 flex-wrap text-sm">
+      {entry.mode === 'solo' ? (
+        <>
+          <span>⭐ {entry.score}</span>
+          <span>🐟 {entry.fish_collected}</span>
+          <span>💥 {entry.falls}</span>
+          {entry.run_ticks !== null && <span className="font-mono">⏱️ {formatTicks(entry.run_ticks)}</span>}
+          {entry.completed && <Badge variant="secondary">🏁 Completa</Badge>}
+          {entry.verified && <Badge variant="outline">✅ Verificada</Badge>}
+        </>
+      ) : (
+        <span>{entry.completed ? '🐟 Entregou o peixe' : 'Sem entrega'}</span>
+      )}
+      {entry.replay_id && (
+        <Button asChild variant="outline" size="sm">
+          <Link to={`/replay/${entry.replay_id}`}>🎬 Replay</Link>
+        </Button>
+      )}
+    </div>
+  </div>
+);
+
+export const MatchHistory = ({ userId, statsVersion }: MatchHistoryProps) => {
+  const [page, setPage] = useState(0);
+  const [entries, setEntries] = useState<MatchHistoryEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [historyStatus, setHistoryStatus] = useState<'loading' | 'error' | 'ready'>('loading');
+  const [progress, setProgress] = useState<Progress | null>(null);
+  const [progressStatus, setProgressStatus] = useState<'loading' | 'error' | 'ready'>('loading');
+
+  const loadHistory = useCallback(async () => {
+    try {
+      setHistoryStatus('loading');
+      const result = await fetchMatchHistory(page);
+      setEntries(result.entries);
+      setTotal(result.total);
+      setHistoryStatus('ready');
+    } catch (error) {
+      console.error('Error loading match history:', error);
+      setHistoryStatus('error');
+    }
+  }, [page]);
+
+  const loadProgress = useCallback(async () => {
+    try {
+      setProgressStatus('loading');
+      setProgress(await fetchProgress(userId));
+      setProgressStatus('ready');
+    } catch (error) {
+      console.error('Error loading progress:', error);
+      setProgressStatus('error');
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    loadHistory();
+  }, [loadHistory, statsVersion]);
+
+  useEffect(() => {
+    loadProgress();
+  }, [loadProgress, statsVersion]);
+
+  const pageCount = Math.max(Math.ceil(total / HISTORY_PAGE_SIZE), 1);
+  const campaignOrder = getLevels('solo').map(level => level.id);
+
+  const gamePoints = progress?.games.map(game => ({ ...game, label: new Date(game.playedAt).toLocaleDateString('pt-BR') })) ?? [];
+  const levelPoints = [...(progress?.levelTimes ?? [])]
+    // Campaign levels in play order, community levels after them
+    .sort((a, b) => (campaignOrder.indexOf(a.levelId) + 1 || Infinity) - (campaignOrder.indexOf(b.levelId) + 1 || Infinity))
+    .map(level => ({
+      label: levelLabel(level.levelId),
+      seconds: Number((level.averageTicks / TICKS_PER_SECOND).toFixed(2)),
+      finishes: level.finishes,
+    }));
+
+  const renderStatus = (status: 'loading' | 'error' | 'ready', onRetry: () => void) => {
+    if (status === 'loading') {
+      return (
+        <div className="text-center py-8">
+          <div className="animate-spin w-8 h-8 border-2 border-primary border-t-transparent rounded-full mx-auto mb-2" />
+          <p className="text-muted-foreground">Carregando...</p>
+        </div>
+      );
+    }
+    return (
+      <div className="text-center py-8 space-y-2">
+        <p className="text-destructive">⚠️ Não foi possível carregar</p>
+        <Button variant="outline" size="sm" onClick={onRetry}>Tentar de novo</Button>
+      </div>
+    );
+  };
+
+  return (
+    <Card className="game-ui-card">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          📜 Histórico de Partidas
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <Tabs defaultValue="matches">
+          <TabsList>
+            <TabsTrigger value="matches">🎮 Partidas</TabsTrigger>
+            <TabsTrigger value="progress">📈 Progresso</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="matches" className="space-y-3">
+            {historyStatus !== 'ready' ? renderStatus(historyStatus, loadHistory) : entries.length === 0 ? (
+              <p className="text-center text-muted-foreground py-8">Nenhuma partida jogada ainda.</p>
+            ) : (
+              <>
+                {entries.map(entry => <HistoryEntry key={`${entry.mode}-${entry.id}`} entry={entry} />)}
+                <div className="flex items-center justify-between pt-2">
+                  <Button variant="outline" size="sm" onClick={() => setPage(prev => prev - 1)} disabled={page === 0}>
+                    ← Anterior
+                  </Button>
+                  <span className="text-sm text-muted-foreground">Página {page + 1} de {pageCount}</span>
+                  <Button variant="outline" size="sm" onClick={() => setPage(prev => prev + 1)} disabled={page + 1 >= pageCount}>
+                    Próxima →
+                  </Button>
+                </div>
+              </>
+            )}
+          </TabsContent>
+
+          <TabsContent value="progress" className="space-y-6">
+            {progressStatus !== 'ready' ? renderStatus(progressStatus, loadProgress) : gamePoints.length === 0 ? (
+              <p className="text-center text-muted-foreground py-8">Jogue algumas partidas solo para ver seu progresso.</p>
+            ) : (
+              <>
+                <div>
+                  <p className="text-sm font-semibold mb-2">⭐ Pontuação por partida</p>
+                  <ChartContainer config={progressChartConfig} className="h-48 w-full">
+                    <LineChart data={gamePoints}>
+                      <CartesianGrid vertical={false} />
+                      <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={24} />
+                      <YAxis tickLine={false} axisLine={false} width={32} />
+                      <ChartTooltip content={<ChartTooltipContent />} />
+                      <Line dataKey="score" type="monotone" stroke="var(--color-score)" strokeWidth={2} dot={false} />
+                    </LineChart>
+                  </ChartContainer>
+                </div>
+
+                <div>
+                  <p className="text-sm font-semibold mb-2">🐟 Peixes por partida</p>
+                  <ChartContainer config={progressChartConfig} className="h-48 w-full">
+                    <BarChart data={gamePoints}>
+                      <CartesianGrid vertical={false} />
+                      <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={24} />
+                      <YAxis tickLine={false} axisLine={false} width={32} allowDecimals={false} />
+                      <ChartTooltip content={<ChartTooltipContent />} />
+                      <Bar dataKey="fish" fill="var(--color-fish)" radius={4} />
+                    </BarChart>
+                  </ChartContainer>
+                </div>
+
+                <div>
+                  <p className="text-sm font-semibold mb-2">⏱️ Tempo médio por nível (s)</p>
+                  {levelPoints.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">Complete um nível para ver seus tempos.</p>
+                  ) : (
+                    <ChartContainer config={progressChartConfig} className="h-48 w-full">
+                      <BarChart data={levelPoints}>
+                        <CartesianGrid vertical={false} />
+                        <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                        <YAxis tickLine={false} axisLine={false} width={32} />
+                        <ChartTooltip content={<ChartTooltipContent />} />
+                        <Bar dataKey="seconds" fill="var(--color-seconds)" radius={4} />
+                      </BarChart>
+                    </ChartContainer>
+                  )}
+                </div>
+              </>
+            )}
+          </TabsContent>
+        </Tabs>
+      </CardContent>
+    </Card>
+  );
+};
@@ -4,6 +4,7 @@ import { Card } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { MultiplayerChat } from './MultiplayerChat';
 import { RankingBoard } from './RankingBoard';
+import type { RoundPhase } from '@/game/rounds';
 
 interface Player {
   id: string;
@@ -20,11 +21,12 @@ interface MobileChatOverlayProps {
   roomId: string;
   user: any;
   players: Player[];
+  roundPhase: RoundPhase;
   isOpen: boolean;
   onClose: () => void;
 }
 
-export const MobileChatOverlay = ({ roomId, user, players, isOpen, onClose }: MobileChatOverlayProps) => {
+export const MobileChatOverlay = ({ roomId, user, players, roundPhase, isOpen, onClose }: MobileChatOverlayProps) => {
   const [activeTab, setActiveTab] = useState<'chat' | 'ranking'>('chat');
 
   if (!isOpen) {
@@ -67,7 +69,7 @@ export const MobileChatOverlay = ({ roomId, user, players, isOpen, onClose }: Mo
             <MultiplayerChat roomId={roomId} user={user} players={players} />
           ) : (
             <div className="p-4">
-              <RankingBoard roomId={roomId} players={players} />
+              <RankingBoard roomId={roomId} players={players} roundPhase={roundPhase} />
             </div>
           )}
         </div>
@@ -6,7 +6,7 @@ import { ScrollArea } from '@/components/ui/scroll-area';
 import { Badge } from '@/components/ui/badge';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
-import { PlayerProfile } from './PlayerProfile';
+import { fetchNicknames, profilePath } from '@/game/profiles';
 
 interface ChatMessage {
   id: string;
@@ -38,9 +38,17 @@ export const MultiplayerChat = ({ roomId, user, players }: MultiplayerChatProps)
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [newMessage, setNewMessage] = useState('');
   const [isTyping, setIsTyping] = useState(false);
-  const [selectedPlayer, setSelectedPlayer] = useState<{id: string, name: string} | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const { toast } = useToast();
+  const [nicknames, setNicknames] = useState<Map<string, string>>(new Map());
+  // Nicknames are only fetched again when someone joins or leaves
+  const playerIds = players.map(player => player.user_id).sort().join(',');
+
+  useEffect(() => {
+    fetchNicknames(playerIds ? playerIds.split(',') : [])
+      .then(setNicknames)
+      .catch(error => console.error('Error loading nicknames:', error));
+  }, [playerIds]);
 
   // Load messages and subscribe to real-time updates
   useEffect(() => {
@@ -149,6 +157,14 @@ export const MultiplayerChat = ({ roomId, user, players }: MultiplayerChatProps)
     }
   };
 
+  // Profiles open in a new tab so the player stays in the room
+  const openProfile = (playerId: string) => {
+    const nickname = nicknames.get(playerId);
+    if (nickname) {
+      window.open(profilePath(nickname), '_blank', 'noopener');
+    }
+  };
+
   return (
     <>
       <Card className="h-[400px] flex flex-col game-ui-card">
@@ -161,7 +177,7 @@ export const MultiplayerChat = ({ roomId, user, players }: MultiplayerChatProps)
                 <div className="flex items-center gap-2">
                   <div className={`w-2 h-2 rounded-full ${player.is_online ? 'bg-green-500' : 'bg-gray-400'}`} />
                   <button
-                    onClick={() => player.user_id !== user.id && setSelectedPlayer({ id: player.user_id, name: player.player_name })}
+                    onClick={() => player.user_id !== user.id && openProfile(player.user_id)}
                     className={`${player.user_id === user.id ? 'font-bold text-primary' : 'hover:text-primary hover:underline cursor-pointer'} transition-colors`}
                   >
                     {player.player_name}
@@ -189,7 +205,7 @@ export const MultiplayerChat = ({ roomId, user, players }: MultiplayerChatProps)
                   {!isSystemMessage && (
                     <div className="flex items-center justify-between mb-1">
                       <button
-                        onClick={() => !isOwn && messagePlayer && setSelectedPlayer({ id: message.user_id, name: message.player_name })}
+                        onClick={() => !isOwn && messagePlayer && openProfile(message.user_id)}
                         className={`font-semibold text-xs ${!isOwn ? 'hover:text-primary hover:underline cursor-pointer' : ''} transition-colors`}
                       >
                         {isOwn ? 'Você' : message.player_name}
@@ -239,17 +255,6 @@ export const MultiplayerChat = ({ roomId, user, players }: MultiplayerChatProps)
           </div>
         </div>
       </Card>
-
-      {/* Player Profile Modal */}
-      {selectedPlayer && (
-        <PlayerProfile
-          isOpen={!!selectedPlayer}
-          onClose={() => setSelectedPlayer(null)}
-          playerId={selectedPlayer.id}
-          playerName={selectedPlayer.name}
-          roomId={roomId}
-        />
-      )}
     </>
   );
 };
\ No newline at end of file
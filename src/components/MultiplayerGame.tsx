@@ -1,28 +1,61 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
+import type { RealtimeChannel } from '@supabase/supabase-js';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
 import { MultiplayerChat } from './MultiplayerChat';
 import { RankingBoard } from './RankingBoard';
 import { MobileChatOverlay } from './MobileChatOverlay';
 import kittyImage from '@/assets/kitty.png';
-
-interface GameObject {
-  x: number;
-  y: number;
-  width: number;
-  height: number;
-  vx: number;
-  vy: number;
-}
-
-interface Platform {
-  x: number;
-  y: number;
-  width: number;
-  height: number;
-}
+import { checkCollision } from '@/game/collision';
+import { applyCamera, centerCamera, followTarget, getViewport, interpolateCamera, VIEWPORT_BY_MODE, type Camera } from '@/game/camera';
+import { createKitty, step } from '@/game/engine';
+import { createEntities, drawEntities, drawHeldKeys, interpolateEntities, type Entity } from '@/game/entities';
+import { HOST_GRACE_MS, migrateHost, transferHost } from '@/game/host';
+import { GAME_KEYS, readInput } from '@/game/input';
+import { MULTIPLAYER_PHYSICS } from '@/game/physics';
+import { interpolateKitty, startFixedStepLoop } from '@/game/loop';
+import { fetchCommunityLevel, recordLevelPlay } from '@/game/levels/community';
+import { getLevel, getLevels } from '@/game/levels/loader';
+import {
+  PLAYER_STATE_EVENT,
+  PLAYER_STATE_RATE,
+  addSnapshot,
+  createSnapshotBuffer,
+  latestSnapshot,
+  parsePlayerState,
+  playerStateChannel,
+  remoteKittyAt,
+  roomStateChannel,
+  toPlayerState,
+  type SnapshotBuffer,
+} from '@/game/netcode';
+import { HEARTBEAT_MS, isHeartbeatOnly, sendHeartbeat } from '@/game/presence';
+import { fetchRoomMatchRatingChange, formatRatingDelta } from '@/game/rating';
+import { ROUND_SNAPSHOT_INTERVAL_MS, clearRoundSnapshot, loadRoundSnapshot, saveRoundSnapshot } from '@/game/rejoin';
+import { createSeed } from '@/game/replay';
+import {
+  ADVANCE_RETRY_MAX_MS,
+  ADVANCE_RETRY_MS,
+  COUNTDOWN_SECONDS,
+  INITIAL_ROUND,
+  RESULTS_SECONDS,
+  ROUND_END_SECONDS,
+  advanceRound,
+  deliverRoundFish,
+  fetchServerClockOffset,
+  isActiveRound,
+  latestRound,
+  roundStateFromRoom,
+  secondsLeft,
+  type RoundState,
+  type RoundTransition,
+} from '@/game/rounds';
+import { drawFish, drawKitty, drawParallaxBackground, drawPlatform } from '@/game/render';
+import type { LevelDefinition } from '@/game/levels/schema';
+import type { Kitty, Platform, Point } from '@/game/types';
 
 interface Fish {
   x: number;
@@ -55,35 +88,81 @@ interface Room {
   id: string;
   name: string;
   code: string;
+  created_by: string;
+  host_user_id: string;
   current_level: number;
   status: string;
+  level_id: string | null;
+  round_phase: string;
+  round_number: number;
+  round_level_id: string | null;
+  round_seed: number;
+  round_ends_at: string | null;
+  round_version: number;
+  // When the current match started; identifies its rating
+  started_at: string | null;
 }
 
 interface MultiplayerGameProps {
   user: any;
   roomId: string;
   onLeaveRoom: () => void;
+  // Called once a finished round is counted in the player's stats
+  onStatsChanged?: () => void;
 }
 
-export const MultiplayerGame = ({ user, roomId, onLeaveRoom }: MultiplayerGameProps) => {
+export const MultiplayerGame = ({ user, roomId, onLeaveRoom, onStatsChanged }: MultiplayerGameProps) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const animationRef = useRef<number>();
+  const stopLoopRef = useRef<() => void>();
   const keysRef = useRef<Set<string>>(new Set());
   const kittyImageRef = useRef<HTMLImageElement | null>(null);
-  const lastPositionUpdate = useRef<number>(0);
+  // This player's own channel for its live state, set once it is subscribed
+  const playerChannel = useRef<RealtimeChannel | null>(null);
+  const lastStateSent = useRef<number>(0);
+  const lastSnapshotSaved = useRef<number>(0);
+  // States received from each other player, keyed by user id
+  const remoteStates = useRef<Map<string, SnapshotBuffer>>(new Map());
   
   const [room, setRoom] = useState<Room | null>(null);
   const [players, setPlayers] = useState<Player[]>([]);
   const [currentPlayer, setCurrentPlayer] = useState<Player | null>(null);
-  const [gameStarted, setGameStarted] = useState(false);
-  const [timeLeft, setTimeLeft] = useState(60);
+  // Set by the room host; every client plays the same level against the same deadline
+  const [roundState, setRoundState] = useState<RoundState>(INITIAL_ROUND);
+  // Round whose level is set up, as `round:seed`
+  const [levelRound, setLevelRound] = useState<string | null>(null);
+  const [timeLeft, setTimeLeft] = useState(0);
   const [imageLoaded, setImageLoaded] = useState(false);
-  const [currentRound, setCurrentRound] = useState(1);
+  // Milliseconds from this client's clock to the database clock the round deadlines use
+  const clockOffset = useRef(0);
+  // Last round state acted on, and the last one the host started moving on from
+  const handledVersion = useRef(-1);
+  const advancingVersion = useRef(-1);
+  // Host: when a failed move out of a round state may be tried again
+  const advanceRetry = useRef({ version: -1, delay: 0, at: 0 });
+  // Fish delivered by each player at the last players refresh, for the host to spot deliveries
+  const fishByPlayer = useRef<Map<string, number>>(new Map());
+  // A delivery waiting for the database to settle who was first
+  const delivering = useRef(false);
+  // Fish taken back from the round snapshot, which goes to another player claiming it
+  const restoredFish = useRef<number | null>(null);
   const [roundFishCollected, setRoundFishCollected] = useState<{[key: string]: number}>({});
   const [carriedFish, setCarriedFish] = useState<number | null>(null);
-  const [currentLevel, setCurrentLevel] = useState(0);
   const [isMobile, setIsMobile] = useState(false);
   const [showChatOverlay, setShowChatOverlay] = useState(false);
+  // Community level picked when the room was created; replaces the random official rotation
+  const [communityLevel, setCommunityLevel] = useState<LevelDefinition | null>(null);
+  const [world, setWorld] = useState(VIEWPORT_BY_MODE.multiplayer);
+  // Player the camera follows instead of the local kitty (spectator camera)
+  const [spectatingId, setSpectatingId] = useState<string | null>(null);
+  // User ids in the room's presence; null until it first synced
+  const [presentIds, setPresentIds] = useState<Set<string> | null>(null);
+  // Connection to the room: the broadcast channel is joined and the browser has a network
+  const [channelReady, setChannelReady] = useState(false);
+  const [browserOnline, setBrowserOnline] = useState(navigator.onLine);
+  const [reconnecting, setReconnecting] = useState(false);
+  // Bumped on every reconnect, so the room is reloaded and its subscriptions renewed
+  const [reconnects, setReconnects] = useState(0);
+  const hasConnected = useRef(false);
   const { toast } = useToast();
 
   // Detect mobile device
@@ -98,120 +177,46 @@ export const MultiplayerGame = ({ user, roomId, onLeaveRoom }: MultiplayerGamePr
   }, []);
 
   // Game objects
-  const kitty = useRef<GameObject & { 
-    animationState: 'idle' | 'walk' | 'jump';
-    animationFrame: number;
-    facingDirection: 'left' | 'right';
-  }>({
-    x: 100,
-    y: 1120, // Start at ground level (CANVAS_HEIGHT - ground platform height - kitty height)
-    width: 40,
-    height: 40,
-    vx: 0,
-    vy: 0,
-    animationState: 'idle',
-    animationFrame: 0,
-    facingDirection: 'right'
-  });
-
-  // Multiple level configurations optimized for mobile portrait HD (800x1200)
-  const levelConfigs = [
-    // Level 1 - Basic vertical climb
-    {
-      platforms: [
-        { x: 0, y: 1180, width: 800, height: 20 }, // Ground
-        { x: 100, y: 1000, width: 200, height: 20 },
-        { x: 500, y: 850, width: 200, height: 20 },
-        { x: 150, y: 700, width: 200, height: 20 },
-        { x: 450, y: 550, width: 200, height: 20 },
-        { x: 200, y: 400, width: 200, height: 20 },
-        { x: 300, y: 250, width: 200, height: 20 },
-      ],
-      fishes: [
-        { x: 375, y: 220, width: 25, height: 20, collected: false, carriedBy: null },
-      ]
-    },
-    // Level 2 - Zigzag pattern
-    {
-      platforms: [
-        { x: 0, y: 1180, width: 800, height: 20 }, // Ground
-        { x: 600, y: 1050, width: 150, height: 20 },
-        { x: 50, y: 920, width: 150, height: 20 },
-        { x: 600, y: 790, width: 150, height: 20 },
-        { x: 50, y: 660, width: 150, height: 20 },
-        { x: 550, y: 530, width: 150, height: 20 },
-        { x: 100, y: 400, width: 150, height: 20 },
-        { x: 500, y: 270, width: 150, height: 20 },
-        { x: 300, y: 140, width: 200, height: 20 },
-      ],
-      fishes: [
-        { x: 375, y: 110, width: 25, height: 20, collected: false, carriedBy: null },
-      ]
-    },
-    // Level 3 - Center tower
-    {
-      platforms: [
-        { x: 0, y: 1180, width: 800, height: 20 }, // Ground
-        { x: 350, y: 1050, width: 100, height: 20 },
-        { x: 250, y: 920, width: 300, height: 20 },
-        { x: 350, y: 790, width: 100, height: 20 },
-        { x: 200, y: 660, width: 400, height: 20 },
-        { x: 350, y: 530, width: 100, height: 20 },
-        { x: 250, y: 400, width: 300, height: 20 },
-        { x: 350, y: 270, width: 100, height: 20 },
-        { x: 300, y: 140, width: 200, height: 20 },
-      ],
-      fishes: [
-        { x: 375, y: 110, width: 25, height: 20, collected: false, carriedBy: null },
-      ]
-    },
-    // Level 4 - Side jumps
-    {
-      platforms: [
-        { x: 0, y: 1180, width: 800, height: 20 }, // Ground
-        { x: 50, y: 1050, width: 120, height: 20 },
-        { x: 630, y: 940, width: 120, height: 20 },
-        { x: 50, y: 830, width: 120, height: 20 },
-        { x: 630, y: 720, width: 120, height: 20 },
-        { x: 100, y: 610, width: 120, height: 20 },
-        { x: 580, y: 500, width: 120, height: 20 },
-        { x: 150, y: 390, width: 120, height: 20 },
-        { x: 530, y: 280, width: 120, height: 20 },
-        { x: 340, y: 170, width: 120, height: 20 },
-      ],
-      fishes: [
-        { x: 375, y: 140, width: 25, height: 20, collected: false, carriedBy: null },
-      ]
-    },
-    // Level 5 - Stairs
-    {
-      platforms: [
-        { x: 0, y: 1180, width: 800, height: 20 }, // Ground
-        { x: 0, y: 1050, width: 160, height: 20 },
-        { x: 160, y: 920, width: 160, height: 20 },
-        { x: 320, y: 790, width: 160, height: 20 },
-        { x: 480, y: 660, width: 160, height: 20 },
-        { x: 320, y: 530, width: 160, height: 20 },
-        { x: 160, y: 400, width: 160, height: 20 },
-        { x: 320, y: 270, width: 160, height: 20 },
-        { x: 320, y: 140, width: 160, height: 20 },
-      ],
-      fishes: [
-        { x: 375, y: 110, width: 25, height: 20, collected: false, carriedBy: null },
-      ]
-    }
-  ];
-
+  // Start at ground level (CANVAS_HEIGHT - ground platform height - kitty height)
+  const kitty = useRef<Kitty>(createKitty(100, 1120));
+  const previousKitty = useRef<Kitty>(kitty.current);
+  // This player's level spawn until they reach a checkpoint
+  const respawnPoint = useRef<Point>({ x: 100, y: 1120 });
+  const camera = useRef<Camera>({ x: 0, y: 0, ...VIEWPORT_BY_MODE.multiplayer });
+  const previousCamera = useRef<Camera>(camera.current);
+
+  // Level configurations optimized for mobile portrait HD (800x1200)
+  const levelConfigs = getLevels('multiplayer');
+
+  const entities = useRef<Entity[]>([]);
+  const previousEntities = useRef<Entity[]>([]);
   const platforms = useRef<Platform[]>([]);
 
   const fishes = useRef<Fish[]>([]);
-  const scratchingPost = useRef<ScratchingPost>({ x: 375, y: 40, width: 50, height: 60 }); // Centered at top for HD
-
-  const GRAVITY = 0.8; // Increased gravity for more realistic physics
-  const JUMP_FORCE = -15; // Stronger jump to compensate for gravity
-  const MOVE_SPEED = 6;
-  const CANVAS_WIDTH = 800; // Higher resolution for mobile HD
-  const CANVAS_HEIGHT = 1200; // Taller for mobile portrait HD
+  const scratchingPost = useRef<ScratchingPost>(levelConfigs[0].scratcher); // Centered at top for HD
+
+  // The canvas shows at most 800x1200 (mobile portrait HD); larger worlds scroll with the camera
+  const WORLD_WIDTH = world.width;
+  const WORLD_HEIGHT = world.height;
+  const viewport = getViewport(world, 'multiplayer');
+  const CANVAS_WIDTH = viewport.width;
+  const CANVAS_HEIGHT = viewport.height;
+
+  const spectatedPlayer = players.find(player => player.user_id === spectatingId && player.user_id !== user.id);
+  const playerIds = players.map(player => player.user_id).join(',');
+
+  const hostId = room?.host_user_id;
+  const isHost = hostId === user.id;
+  const hostPlayer = players.find(player => player.user_id === hostId);
+  // Unknown until presence synced, so an empty room state never counts as the host leaving
+  const hostPresent = !presentIds || !hostId || presentIds.has(hostId);
+  const roundKey = `${roundState.round}:${roundState.seed}`;
+  const gameStarted = isActiveRound(roundState.phase) && levelRound === roundKey;
+  const inLobby = roundState.phase === 'lobby' || roundState.phase === 'results';
+  // Header clock for the current phase
+  const phaseClock = roundState.phase === 'countdown'
+    ? `⏳ Começa em ${timeLeft}s`
+    : roundState.phase === 'round_end' ? `🎉 Próxima rodada em ${timeLeft}s` : `⏰ ${timeLeft}s`;
 
   // Load kitty image
   useEffect(() => {
@@ -223,10 +228,15 @@ export const MultiplayerGame = ({ user, roomId, onLeaveRoom }: MultiplayerGamePr
     };
   }, []);
 
-  // Load room and player data
+  // Load room and player data, again after every reconnect
   useEffect(() => {
-    loadRoomData();
-    loadPlayers();
+    // Heartbeat first: it brings this player back online if they were swept out while away
+    sendHeartbeat(roomId)
+      .catch(error => console.error('Error sending heartbeat:', error))
+      .finally(() => {
+        loadRoomData();
+        loadPlayers();
+      });
     
     // Subscribe to real-time updates
     const roomChannel = supabase
@@ -242,7 +252,9 @@ export const MultiplayerGame = ({ user, roomId, onLeaveRoom }: MultiplayerGamePr
         (payload) => {
           console.log('Room update:', payload);
           if (payload.new) {
-            setRoom(payload.new as Room);
+            const updated = payload.new as Room;
+            setRoom(updated);
+            setRoundState(current => latestRound(current, roundStateFromRoom(updated)));
           }
         }
       )
@@ -254,23 +266,10 @@ export const MultiplayerGame = ({ user, roomId, onLeaveRoom }: MultiplayerGamePr
           table: 'room_players',
           filter: `room_id=eq.${roomId}`
         },
-        async (payload) => {
+        (payload) => {
+          if (payload.eventType === 'UPDATE' && isHeartbeatOnly(payload.old, payload.new)) return;
           console.log('Player update:', payload);
-          await loadPlayers();
-          
-          // Check if all players went offline and close room
-          const { data: onlinePlayers } = await supabase
-            .from('room_players')
-            .select('*')
-            .eq('room_id', roomId)
-            .eq('is_online', true);
-            
-          if (onlinePlayers?.length === 0) {
-            await supabase
-              .from('rooms')
-              .update({ status: 'completed' })
-              .eq('id', roomId);
-          }
+          loadPlayers();
         }
       )
       .subscribe();
@@ -278,24 +277,159 @@ export const MultiplayerGame = ({ user, roomId, onLeaveRoom }: MultiplayerGamePr
     return () => {
       supabase.removeChannel(roomChannel);
     };
+  }, [roomId, reconnects]);
+
+  // Who is connected
+  useEffect(() => {
+    const channel = supabase
+      .channel(roomStateChannel(roomId), { config: { presence: { key: user.id } } })
+      .on('presence', { event: 'sync' }, () => {
+        setPresentIds(new Set(Object.keys(channel.presenceState())));
+      })
+      .subscribe((status) => {
+        setChannelReady(status === 'SUBSCRIBED');
+        if (status === 'SUBSCRIBED') {
+          channel.track({ online_at: new Date().toISOString() });
+        }
+      });
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [roomId, user.id]);
+
+  // The channel this player sends its live state on
+  useEffect(() => {
+    const channel = supabase
+      .channel(playerStateChannel(roomId, user.id), { config: { private: true, broadcast: { self: false } } })
+      .subscribe((status) => {
+        playerChannel.current = status === 'SUBSCRIBED' ? channel : null;
+      });
+
+    return () => {
+      playerChannel.current = null;
+      supabase.removeChannel(channel);
+    };
+  }, [roomId, user.id]);
+
+  // Live state from each other player, on that player's own channel
+  useEffect(() => {
+    const states = remoteStates.current;
+    const senderIds = playerIds.split(',').filter(id => id && id !== user.id);
+
+    const channels = senderIds.map(senderId => supabase
+      .channel(playerStateChannel(roomId, senderId), { config: { private: true } })
+      .on('broadcast', { event: PLAYER_STATE_EVENT }, ({ payload }) => {
+        const state = parsePlayerState(payload, senderId);
+        if (!state) return;
+
+        const buffer = addSnapshot(states.get(senderId) ?? createSnapshotBuffer(), state, Date.now());
+        states.set(senderId, buffer);
+        // Only the newest state says who holds which fish
+        if (latestSnapshot(buffer) !== state) return;
+
+        // Fish carried by another player can't be picked up or seen on the ground
+        fishes.current.forEach((fish, index) => {
+          if (fish.carriedBy === senderId && index !== state.carriedFish) {
+            fish.carriedBy = null;
+          }
+        });
+        const carried = state.carriedFish !== null ? fishes.current[state.carriedFish] : undefined;
+        // Someone else picked up the restored fish while this player was away
+        if (carried && carried.carriedBy === user.id && restoredFish.current === state.carriedFish) {
+          carried.carriedBy = null;
+          restoredFish.current = null;
+          setCarriedFish(null);
+        }
+        if (carried && carried.carriedBy === null) {
+          carried.carriedBy = senderId;
+        }
+      })
+      .subscribe());
+
+    return () => {
+      channels.forEach(channel => supabase.removeChannel(channel));
+    };
+  }, [roomId, playerIds, user.id]);
+
+  // Everything received is stale once the room changes
+  useEffect(() => {
+    const states = remoteStates.current;
+    return () => states.clear();
   }, [roomId]);
 
-  // Timer effect
   useEffect(() => {
-    if (!gameStarted || room?.status !== 'playing') return;
+    const updateOnline = () => setBrowserOnline(navigator.onLine);
+    window.addEventListener('online', updateOnline);
+    window.addEventListener('offline', updateOnline);
+    return () => {
+      window.removeEventListener('online', updateOnline);
+      window.removeEventListener('offline', updateOnline);
+    };
+  }, []);
+
+  // Realtime rejoins the channel on its own once the network is back; catch up on what was missed then
+  const connected = channelReady && browserOnline;
+  useEffect(() => {
+    if (!connected) {
+      setReconnecting(hasConnected.current);
+      return;
+    }
+
+    if (hasConnected.current) {
+      setReconnects(count => count + 1);
+    }
+    hasConnected.current = true;
+    setReconnecting(false);
+  }, [connected]);
+
+  // Keep this player online in the room
+  useEffect(() => {
+    if (!connected) return;
 
     const timer = setInterval(() => {
-      setTimeLeft(prev => {
-        if (prev <= 1) {
-          endGame();
-          return 0;
-        }
-        return prev - 1;
+      sendHeartbeat(roomId).catch(error => console.error('Error sending heartbeat:', error));
+    }, HEARTBEAT_MS);
+    return () => clearInterval(timer);
+  }, [connected, roomId]);
+
+  // Forget players who left, and put back any fish they were carrying
+  useEffect(() => {
+    const online = new Set(playerIds.split(','));
+    remoteStates.current.forEach((_, userId) => {
+      if (!online.has(userId)) remoteStates.current.delete(userId);
+    });
+    fishes.current.forEach(fish => {
+      if (fish.carriedBy !== null && fish.carriedBy !== user.id && !online.has(fish.carriedBy)) {
+        fish.carriedBy = null;
+      }
+    });
+  }, [playerIds, user.id]);
+
+  // Load the room's community level
+  useEffect(() => {
+    if (!room?.level_id) return;
+
+    fetchCommunityLevel(room.level_id)
+      .then(setCommunityLevel)
+      .catch(error => {
+        console.error('Error loading community level:', error);
+        toast({
+          title: "Erro",
+          description: "Falha ao carregar o nível da comunidade, usando níveis oficiais",
+          variant: "destructive",
+        });
       });
-    }, 1000);
+  }, [room?.level_id, toast]);
 
-    return () => clearInterval(timer);
-  }, [gameStarted, room?.status]);
+  // Measure the clock offset once; the deadlines come from the database clock
+  useEffect(() => {
+    fetchServerClockOffset()
+      .then(offset => {
+        clockOffset.current = offset;
+      })
+      .catch(error => console.error('Error measuring server clock:', error));
+  }, []);
 
   const loadRoomData = async () => {
     try {
@@ -307,6 +441,7 @@ export const MultiplayerGame = ({ user, roomId, onLeaveRoom }: MultiplayerGamePr
 
       if (error) throw error;
       setRoom(data);
+      setRoundState(current => latestRound(current, roundStateFromRoom(data)));
     } catch (error) {
       console.error('Error loading room:', error);
       toast({
@@ -332,12 +467,20 @@ export const MultiplayerGame = ({ user, roomId, onLeaveRoom }: MultiplayerGamePr
       const myPlayer = data?.find(p => p.user_id === user.id);
       if (myPlayer) {
         setCurrentPlayer(myPlayer);
-        
-        // Update current player as online if found
-        await supabase
-          .from('room_players')
-          .update({ is_online: true })
-          .eq('id', myPlayer.id);
+        return;
+      }
+
+      // Swept offline while away: the player is still in the room, so bring them back online
+      const { data: rejoined, error: rejoinError } = await supabase
+        .from('room_players')
+        .update({ is_online: true })
+        .eq('room_id', roomId)
+        .eq('user_id', user.id)
+        .select();
+
+      if (rejoinError) throw rejoinError;
+      if (rejoined.length > 0) {
+        setCurrentPlayer(rejoined[0]);
       } else {
         // Join as new player if not found
         const userNickname = user.user_metadata?.nickname || user.email?.split('@')[0] || 'Jogador';
@@ -353,63 +496,127 @@ export const MultiplayerGame = ({ user, roomId, onLeaveRoom }: MultiplayerGamePr
           })
           .select()
           .single();
-          
-        if (!insertError && newPlayer) {
-          setCurrentPlayer(newPlayer);
-          
-          // Send join message
-          await supabase
-            .from('chat_messages')
-            .insert({
-              room_id: roomId,
-              user_id: user.id,
-              player_name: 'Sistema',
-              message: `👋 ${userNickname} entrou na sala!`,
-              message_type: 'system'
-            });
-        }
-      }
 
-      // Check if no players are online and mark room as completed
-      if (data?.length === 0) {
+        if (insertError) throw insertError;
+        setCurrentPlayer(newPlayer);
+
+        // Send join message
         await supabase
-          .from('rooms')
-          .update({ status: 'completed' })
-          .eq('id', roomId);
+          .from('chat_messages')
+          .insert({
+            room_id: roomId,
+            user_id: user.id,
+            player_name: 'Sistema',
+            message: `👋 ${userNickname} entrou na sala!`,
+            message_type: 'system'
+          });
       }
     } catch (error) {
       console.error('Error loading players:', error);
+      toast({
+        title: "Erro",
+        description: "Falha ao entrar na sala",
+        variant: "destructive",
+      });
     }
   };
 
-  const updatePlayerPosition = useCallback(async (x: number, y: number) => {
+  // Broadcasts the local kitty to the other players, throttled to PLAYER_STATE_RATE
+  const sendPlayerState = useCallback(() => {
     const now = Date.now();
-    if (now - lastPositionUpdate.current < 100) return; // Throttle updates
-    
-    lastPositionUpdate.current = now;
-    
-    try {
-      await supabase
-        .from('room_players')
-        .update({
-          position_x: x,
-          position_y: y
-        })
-        .eq('room_id', roomId)
-        .eq('user_id', user.id);
-    } catch (error) {
-      console.error('Error updating position:', error);
-    }
-  }, [roomId, user.id]);
-
-  // Initialize level when game starts
-  const initializeLevel = useCallback(() => {
-    const randomLevel = Math.floor(Math.random() * levelConfigs.length);
-    setCurrentLevel(randomLevel);
-    platforms.current = [...levelConfigs[randomLevel].platforms];
-    fishes.current = [...levelConfigs[randomLevel].fishes];
+    if (!playerChannel.current || now - lastStateSent.current < 1000 / PLAYER_STATE_RATE) return;
+
+    lastStateSent.current = now;
+    playerChannel.current
+      .send({
+        type: 'broadcast',
+        event: PLAYER_STATE_EVENT,
+        payload: toPlayerState(user.id, kitty.current, carriedFish),
+      })
+      .catch(error => console.error('Error sending player state:', error));
+  }, [user.id, carriedFish]);
+
+  // Saves where the local kitty is in this round, throttled, to restore it after a reload
+  const saveSnapshot = useCallback(() => {
+    const now = Date.now();
+    if (now - lastSnapshotSaved.current < ROUND_SNAPSHOT_INTERVAL_MS) return;
+
+    lastSnapshotSaved.current = now;
+    saveRoundSnapshot(user.id, {
+      roomId,
+      roundKey,
+      x: kitty.current.x,
+      y: kitty.current.y,
+      facing: kitty.current.facingDirection,
+      respawnX: respawnPoint.current.x,
+      respawnY: respawnPoint.current.y,
+      carriedFish,
+    });
+  }, [user.id, roomId, roundKey, carriedFish]);
+
+  // Community levels are known once loaded, official ones by id
+  const levelById = useCallback((levelId: string | null) =>
+    levelId !== null && communityLevel?.id === levelId ? communityLevel : getLevel(levelId),
+  [communityLevel]);
+
+  // Set up the round's level
+  const initializeLevel = useCallback((level: LevelDefinition, seed: number) => {
+    platforms.current = [...level.platforms];
+    entities.current = createEntities(level.entities);
+    previousEntities.current = entities.current;
+    // Players are spread over the level's spawn points in join order, rotated by the round seed
+    const playerIndex = Math.max(players.findIndex(player => player.user_id === user.id), 0);
+    respawnPoint.current = level.spawnPoints[(playerIndex + seed) % level.spawnPoints.length];
+    kitty.current = createKitty(respawnPoint.current.x, respawnPoint.current.y);
+    previousKitty.current = kitty.current;
+    fishes.current = level.fishes.map(fish => ({ ...fish, collected: false, carriedBy: null }));
+    scratchingPost.current = level.scratcher;
+    setWorld(level.canvas);
+    camera.current = centerCamera(getViewport(level.canvas, 'multiplayer'), kitty.current, level.canvas);
+    previousCamera.current = camera.current;
     setCarriedFish(null);
-  }, []);
+    restoredFish.current = null;
+  }, [players, user.id]);
+
+  // Load each round's level once it is known; a community level may still be loading
+  useEffect(() => {
+    if (!isActiveRound(roundState.phase) || levelRound === roundKey) return;
+
+    const level = levelById(roundState.levelId);
+    if (!level) return;
+
+    initializeLevel(level, roundState.seed);
+    setLevelRound(roundKey);
+
+    // Back after a reload: pick up where this player was in the round
+    const saved = loadRoundSnapshot(user.id, roomId, roundKey);
+    if (saved) {
+      respawnPoint.current = { x: saved.respawnX, y: saved.respawnY };
+      kitty.current = { ...kitty.current, x: saved.x, y: saved.y, facingDirection: saved.facing };
+      previousKitty.current = kitty.current;
+      camera.current = centerCamera(getViewport(level.canvas, 'multiplayer'), kitty.current, level.canvas);
+      previousCamera.current = camera.current;
+
+      // The fish is only taken back when no other player has been seen carrying it; once the player
+      // was swept offline it went back for everyone and may have been picked up since
+      const fish = saved.carriedFish !== null ? fishes.current[saved.carriedFish] : undefined;
+      const takenByOther = Array.from(remoteStates.current.values())
+        .some(buffer => latestSnapshot(buffer)?.carriedFish === saved.carriedFish);
+      if (fish && !takenByOther) {
+        fish.carriedBy = user.id;
+        restoredFish.current = saved.carriedFish;
+        setCarriedFish(saved.carriedFish);
+      }
+    }
+  }, [roundState, roundKey, levelRound, levelById, initializeLevel, user.id, roomId]);
+
+  // Cycles the camera through the other online players and back to the local kitty
+  const cycleSpectate = () => {
+    const others = players.filter(player => player.user_id !== user.id);
+    const currentIndex = others.findIndex(player => player.user_id === spectatingId);
+    const next = others[currentIndex + 1];
+    setSpectatingId(next ? next.user_id : null);
+  };
 
   const collectFish = useCallback(async (fishIndex: number) => {
     if (!currentPlayer || carriedFish !== null) return; // Can only carry one fish at a time
@@ -417,6 +624,7 @@ export const MultiplayerGame = ({ user, roomId, onLeaveRoom }: MultiplayerGamePr
     try {
       // Mark fish as carried
       fishes.current[fishIndex].carriedBy = user.id;
+      restoredFish.current = null;
       setCarriedFish(fishIndex);
 
       await supabase
@@ -434,19 +642,41 @@ export const MultiplayerGame = ({ user, roomId, onLeaveRoom }: MultiplayerGamePr
     }
   }, [currentPlayer, roomId, user.id, carriedFish]);
 
-  const deliverFish = useCallback(async () => {
+  // Falling or touching a hazard drops the carried fish back where it was picked up
+  const dropFish = useCallback(async () => {
     if (!currentPlayer || carriedFish === null) return;
 
-    const newFishCount = currentPlayer.fish_collected + 1;
+    fishes.current[carriedFish].carriedBy = null;
+    restoredFish.current = null;
+    setCarriedFish(null);
 
     try {
       await supabase
-        .from('room_players')
-        .update({
-          fish_collected: newFishCount
-        })
-        .eq('room_id', roomId)
-        .eq('user_id', user.id);
+        .from('chat_messages')
+        .insert({
+          room_id: roomId,
+          user_id: user.id,
+          player_name: 'Sistema',
+          message: `💥 ${currentPlayer.player_name} caiu e derrubou o peixe!`,
+          message_type: 'game'
+        });
+    } catch (error) {
+      console.error('Error dropping fish:', error);
+    }
+  }, [currentPlayer, roomId, user.id, carriedFish]);
+
+  const deliverFish = useCallback(async () => {
+    if (!currentPlayer || carriedFish === null || delivering.current) return;
+
+    delivering.current = true;
+    try {
+      // The database settles who delivered first; a later delivery puts the fish back
+      const won = await deliverRoundFish(roomId);
+      if (!won) {
+        fishes.current[carriedFish].carriedBy = null;
+        setCarriedFish(null);
+        return;
+      }
 
       // Mark fish as collected
       fishes.current[carriedFish].collected = true;
@@ -458,78 +688,168 @@ export const MultiplayerGame = ({ user, roomId, onLeaveRoom }: MultiplayerGamePr
           room_id: roomId,
           user_id: user.id,
           player_name: 'Sistema',
-          message: `🎯 ${currentPlayer.player_name} entregou o peixe! Próxima rodada em 3 segundos...`,
+          message: `🎯 ${currentPlayer.player_name} entregou o peixe!`,
           message_type: 'game'
         });
-
-      // Start next round automatically after fish delivery (Transformice style)
-      setTimeout(() => {
-        initializeLevel();
-        const nextRound = currentRound + 1;
-        setCurrentRound(nextRound);
-        setTimeLeft(60);
-      }, 3000);
-
     } catch (error) {
       console.error('Error delivering fish:', error);
+    } finally {
+      delivering.current = false;
     }
-  }, [currentPlayer, roomId, user.id, carriedFish, initializeLevel]);
+  }, [currentPlayer, roomId, user.id, carriedFish]);
 
-  const checkWinCondition = useCallback(() => {
-    const allPlayersCollected = players.every(player => player.fish_collected >= currentRound);
-    
-    if (allPlayersCollected && players.length > 0) {
-      startNextRound();
+  // Shows how the match that just ended moved this player's rating; the host's move into results rated it
+  const showMatchRating = useCallback(async (startedAt: string) => {
+    try {
+      const change = await fetchRoomMatchRatingChange(roomId, startedAt, user.id);
+      if (change) {
+        toast({
+          title: `📈 Rating: ${change.rating_after} (${formatRatingDelta(change)})`,
+          description: `${change.placement}º lugar com ${change.fish_delivered} peixes entregues`,
+        });
+      }
+    } catch (error) {
+      console.error('Error loading rating change:', error);
     }
-  }, [players, currentRound]);
+  }, [roomId, user.id, toast]);
 
+  // The host's transition out of a round recorded it for everyone, and rated the match once it is over
+  const matchStartedAt = room?.started_at ?? null;
   useEffect(() => {
-    checkWinCondition();
-  }, [players, checkWinCondition]);
+    const { phase, version } = roundState;
+    if (handledVersion.current === version) return;
+    handledVersion.current = version;
+
+    if ((phase === 'round_end' || phase === 'results') && levelRound === roundKey) {
+      onStatsChanged?.();
+      if (phase === 'results' && matchStartedAt) {
+        showMatchRating(matchStartedAt);
+      }
+    }
+  }, [roundState, levelRound, roundKey, matchStartedAt, onStatsChanged, showMatchRating]);
 
-  const startGame = async () => {
-    if (!room || room.status !== 'waiting') return;
+  // Host: saves the next round state; the other players get it through their rooms subscription.
+  // False when the round is already being moved on.
+  const advance = useCallback(async (transition: RoundTransition) => {
+    if (advancingVersion.current === roundState.version) return false;
+    advancingVersion.current = roundState.version;
 
+    let next: RoundState;
     try {
-      await supabase
-        .from('rooms')
-        .update({ status: 'playing' })
-        .eq('id', roomId);
+      next = await advanceRound(roomId, transition);
+    } catch (error) {
+      // Let it be tried again
+      advancingVersion.current = -1;
+      throw error;
+    }
+    setRoundState(current => latestRound(current, next));
+    return true;
+  }, [roomId, roundState.version]);
+
+  // Host: community rooms always play their level, otherwise the seed picks an official one
+  const countdownTo = useCallback((round: number): RoundTransition => {
+    const seed = createSeed();
+    const officialLevels = getLevels('multiplayer');
+    const level = communityLevel ?? officialLevels[seed % officialLevels.length];
+    return { phase: 'countdown', round, levelId: level.id, seed, durationSeconds: COUNTDOWN_SECONDS };
+  }, [communityLevel]);
+
+  // Host: moves the round on when its phase is over
+  const advanceOnDeadline = useCallback(async () => {
+    const { phase, round, levelId, seed, version } = roundState;
+    const retry = advanceRetry.current;
+    if (retry.version === version && Date.now() < retry.at) return;
 
-      await supabase
+    try {
+      switch (phase) {
+        case 'countdown':
+          await advance({ phase: 'playing', round, levelId, seed, durationSeconds: levelById(levelId)?.timeLimit ?? 60 });
+          break;
+        case 'playing':
+          if (!await advance({ phase: 'results', round, levelId, seed, durationSeconds: RESULTS_SECONDS })) break;
+          await supabase
+            .from('chat_messages')
+            .insert({
+              room_id: roomId,
+              user_id: user.id,
+              player_name: 'Sistema',
+              message: '⏰ Tempo esgotado!',
+              message_type: 'system'
+            });
+          break;
+        case 'round_end':
+          await advance(countdownTo(round + 1));
+          break;
+        case 'results':
+          await advance({ phase: 'lobby', round, levelId: null, seed: 0, durationSeconds: 0 });
+          break;
+      }
+    } catch (error) {
+      console.error('Error advancing round:', error);
+      // Back off instead of retrying on every tick
+      const delay = retry.version === version ? Math.min(retry.delay * 2, ADVANCE_RETRY_MAX_MS) : ADVANCE_RETRY_MS;
+      advanceRetry.current = { version, delay, at: Date.now() + delay };
+    }
+  }, [roundState, advance, levelById, countdownTo, roomId, user.id]);
+
+  // Time left in the phase for everyone; the host also moves the round on when it runs out
+  useEffect(() => {
+    if (roundState.endsAt === null) return;
+
+    const tick = () => {
+      const left = secondsLeft(roundState, clockOffset.current);
+      setTimeLeft(left);
+      if (left === 0 && isHost) {
+        advanceOnDeadline();
+      }
+    };
+
+    tick();
+    const timer = setInterval(tick, 250);
+    return () => clearInterval(timer);
+  }, [roundState, isHost, advanceOnDeadline]);
+
+  // Host: the first fish delivered ends the round (Transformice style)
+  useEffect(() => {
+    const previous = fishByPlayer.current;
+    fishByPlayer.current = new Map(players.map(player => [player.user_id, player.fish_collected]));
+    if (!isHost || roundState.phase !== 'playing') return;
+
+    const delivered = players.some(player =>
+      previous.has(player.user_id) && player.fish_collected > previous.get(player.user_id));
+    if (!delivered) return;
+
+    const { round, levelId, seed } = roundState;
+    advance({ phase: 'round_end', round, levelId, seed, durationSeconds: ROUND_END_SECONDS })
+      .then(advanced => advanced && supabase
         .from('chat_messages')
         .insert({
           room_id: roomId,
           user_id: user.id,
           player_name: 'Sistema',
-          message: `🎮 Jogo iniciado! Colete peixes e trabalhem em equipe!`,
+          message: `🎉 Rodada ${round} concluída! Iniciando rodada ${round + 1}!`,
           message_type: 'system'
-        });
+        }))
+      .catch(error => console.error('Error ending round:', error));
+  }, [players, isHost, roundState, advance, roomId, user.id]);
 
-      setGameStarted(true);
-      setTimeLeft(60);
-      initializeLevel();
-    } catch (error) {
-      console.error('Error starting game:', error);
-    }
-  };
+  // The host dropped out of presence for longer than a reconnect takes: move the room on. Every
+  // other player keeps reporting it; the database only moves the room once the host's heartbeats
+  // stopped too, and only once.
+  useEffect(() => {
+    if (hostPresent || isHost) return;
+
+    const timer = setInterval(() => {
+      migrateHost(roomId, hostId).catch(error => console.error('Error migrating host:', error));
+    }, HOST_GRACE_MS);
+    return () => clearInterval(timer);
+  }, [hostPresent, isHost, hostId, roomId]);
+
+  const handOverHost = async (newHostId: string) => {
+    const newHost = players.find(player => player.user_id === newHostId);
 
-  const startNextRound = async () => {
     try {
-      const nextRound = currentRound + 1;
-      setCurrentRound(nextRound);
-      setTimeLeft(60);
-      
-      // Initialize new random level
-      initializeLevel();
-      
-      // Reset fish positions
-      fishes.current = fishes.current.map(fish => ({ ...fish, collected: false }));
-      
-      await supabase
-        .from('rooms')
-        .update({ current_level: nextRound - 1 })
-        .eq('id', roomId);
+      await transferHost(roomId, newHostId);
 
       await supabase
         .from('chat_messages')
@@ -537,21 +857,24 @@ export const MultiplayerGame = ({ user, roomId, onLeaveRoom }: MultiplayerGamePr
           room_id: roomId,
           user_id: user.id,
           player_name: 'Sistema',
-          message: `🎉 Rodada ${currentRound} concluída! Iniciando rodada ${nextRound}!`,
+          message: `👑 ${newHost?.player_name || 'Jogador'} agora é o anfitrião da sala`,
           message_type: 'system'
         });
-
     } catch (error) {
-      console.error('Error starting next round:', error);
+      console.error('Error transferring host:', error);
+      toast({
+        title: "Erro",
+        description: "Falha ao passar o anfitrião",
+        variant: "destructive",
+      });
     }
   };
 
-  const endGame = async (won = false) => {
+  const startGame = async () => {
+    if (!room || !isHost || roundState.phase !== 'lobby') return;
+
     try {
-      await supabase
-        .from('rooms')
-        .update({ status: won ? 'completed' : 'waiting' })
-        .eq('id', roomId);
+      if (!await advance(countdownTo(1))) return;
 
       await supabase
         .from('chat_messages')
@@ -559,14 +882,20 @@ export const MultiplayerGame = ({ user, roomId, onLeaveRoom }: MultiplayerGamePr
           room_id: roomId,
           user_id: user.id,
           player_name: 'Sistema',
-          message: won ? '🎉 Parabéns! Todos coletaram peixes!' : '⏰ Tempo esgotado!',
+          message: `🎮 Jogo iniciado! Colete peixes e trabalhem em equipe!`,
           message_type: 'system'
         });
 
-      setGameStarted(false);
-      setCurrentRound(1);
+      if (room.level_id) {
+        recordLevelPlay(room.level_id);
+      }
     } catch (error) {
-      console.error('Error ending game:', error);
+      console.error('Error starting game:', error);
+      toast({
+        title: "Erro",
+        description: "Falha ao iniciar o jogo",
+        variant: "destructive",
+      });
     }
   };
 
@@ -579,6 +908,12 @@ export const MultiplayerGame = ({ user, roomId, onLeaveRoom }: MultiplayerGamePr
         .eq('room_id', roomId)
         .eq('user_id', user.id);
 
+      // Hand the room to whoever has been here longest
+      if (isHost) {
+        await migrateHost(roomId, user.id);
+      }
+      clearRoundSnapshot(user.id);
+
       await supabase
         .from('chat_messages')
         .insert({
@@ -618,7 +953,7 @@ export const MultiplayerGame = ({ user, roomId, onLeaveRoom }: MultiplayerGamePr
     const key = e.key.toLowerCase();
     keysRef.current.add(key);
     
-    if (['arrowup', 'arrowdown', 'arrowleft', 'arrowright', ' ', 'w', 'a', 's', 'd'].includes(key)) {
+    if (GAME_KEYS.includes(key)) {
       e.preventDefault();
     }
   }, []);
@@ -627,106 +962,51 @@ export const MultiplayerGame = ({ user, roomId, onLeaveRoom }: MultiplayerGamePr
     const key = e.key.toLowerCase();
     keysRef.current.delete(key);
     
-    if (['arrowup', 'arrowdown', 'arrowleft', 'arrowright', ' ', 'w', 'a', 's', 'd'].includes(key)) {
+    if (GAME_KEYS.includes(key)) {
       e.preventDefault();
     }
   }, []);
 
-  // Collision detection
-  const checkCollision = (rect1: GameObject | Fish, rect2: Platform): boolean => {
-    return rect1.x < rect2.x + rect2.width &&
-           rect1.x + rect1.width > rect2.x &&
-           rect1.y < rect2.y + rect2.height &&
-           rect1.y + rect1.height > rect2.y;
-  };
-
-  // Game loop
-  const gameLoop = useCallback(() => {
-    if (!canvasRef.current || !gameStarted) return;
-
-    const canvas = canvasRef.current;
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
+  // One fixed simulation tick
+  const updateGame = useCallback(() => {
+    if (!gameStarted) return;
 
-    // Clear canvas with gradient background
-    const bgGradient = ctx.createLinearGradient(0, 0, 0, CANVAS_HEIGHT);
-    bgGradient.addColorStop(0, '#87CEEB');
-    bgGradient.addColorStop(0.7, '#98FB98');
-    bgGradient.addColorStop(1, '#90EE90');
-    ctx.fillStyle = bgGradient;
-    ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
-
-    // Handle input and animations for current player
-    if (keysRef.current.has('a') || keysRef.current.has('arrowleft')) {
-      kitty.current.vx = -MOVE_SPEED;
-      kitty.current.facingDirection = 'left';
-      kitty.current.animationState = 'walk';
-    } else if (keysRef.current.has('d') || keysRef.current.has('arrowright')) {
-      kitty.current.vx = MOVE_SPEED;
-      kitty.current.facingDirection = 'right';
-      kitty.current.animationState = 'walk';
-    } else {
-      kitty.current.vx *= 0.8;
-      kitty.current.animationState = 'idle';
+    // The level is shown but frozen during the countdown and between rounds
+    if (roundState.phase !== 'playing') {
+      previousKitty.current = kitty.current;
+      previousCamera.current = camera.current;
+      return;
     }
 
-    // Jump (improved physics)
-    if ((keysRef.current.has('w') || keysRef.current.has(' ') || keysRef.current.has('arrowup'))) {
-      const kittyBottom = kitty.current.y + kitty.current.height;
-      let onPlatform = false;
-      
-      // Check if on ground
-      if (kittyBottom >= CANVAS_HEIGHT - 5) {
-        onPlatform = true;
-      } else {
-        // Check if on any platform with improved collision detection
-        onPlatform = platforms.current.some(platform => {
-          const isOnPlatform = kitty.current.x + kitty.current.width > platform.x + 5 &&
-                              kitty.current.x < platform.x + platform.width - 5 &&
-                              Math.abs(kittyBottom - platform.y) <= 10 &&
-                              kitty.current.vy >= -1; // Allow small upward velocity
-          return isOnPlatform;
-        });
-      }
-      
-      if (onPlatform && Math.abs(kitty.current.vy) < 2) {
-        kitty.current.vy = JUMP_FORCE;
-        kitty.current.animationState = 'jump';
-      }
+    // Advance physics for current player
+    previousKitty.current = kitty.current;
+    const next = step({
+      kitty: kitty.current,
+      platforms: platforms.current,
+      entities: entities.current,
+      bounds: { width: WORLD_WIDTH, height: WORLD_HEIGHT },
+      respawnPoint: respawnPoint.current,
+      physics: MULTIPLAYER_PHYSICS
+    }, readInput(keysRef.current));
+    kitty.current = next.kitty;
+    previousEntities.current = entities.current;
+    entities.current = next.entities;
+    respawnPoint.current = next.respawnPoint;
+
+    if (next.respawned) {
+      // Appear at the respawn point instead of sliding there from where the kitty fell
+      previousKitty.current = kitty.current;
+      dropFish();
     }
 
-    // Apply gravity
-    kitty.current.vy += GRAVITY;
-
-    // Update position
-    kitty.current.x += kitty.current.vx;
-    kitty.current.y += kitty.current.vy;
-
-    // Platform collisions
-    platforms.current.forEach(platform => {
-      if (checkCollision(kitty.current, platform)) {
-        if (kitty.current.vy > 0 && kitty.current.y < platform.y) {
-          kitty.current.y = platform.y - kitty.current.height;
-          kitty.current.vy = 0;
-        }
-      }
-    });
-
-    // Boundary check
-    if (kitty.current.x < 0) kitty.current.x = 0;
-    if (kitty.current.x + kitty.current.width > CANVAS_WIDTH) {
-      kitty.current.x = CANVAS_WIDTH - kitty.current.width;
-    }
-    if (kitty.current.y > CANVAS_HEIGHT) {
-      // Reset to ground level when falling
-      kitty.current.x = 400; // Center of screen
-      kitty.current.y = 1120; // Ground level
-      kitty.current.vx = 0;
-      kitty.current.vy = 0;
-    }
+    // Follow the local kitty, or where the spectated player is drawn
+    const spectatedBuffer = spectatedPlayer && remoteStates.current.get(spectatedPlayer.user_id);
+    const cameraTarget = (spectatedBuffer && remoteKittyAt(spectatedBuffer, Date.now(), 0)) ?? kitty.current;
+    previousCamera.current = camera.current;
+    camera.current = followTarget(camera.current, cameraTarget, { width: WORLD_WIDTH, height: WORLD_HEIGHT });
 
-    // Update position in database
-    updatePlayerPosition(kitty.current.x, kitty.current.y);
+    sendPlayerState();
+    saveSnapshot();
 
     // Fish collection (only if not carrying one)
     fishes.current.forEach((fish, index) => {
@@ -739,19 +1019,27 @@ export const MultiplayerGame = ({ user, roomId, onLeaveRoom }: MultiplayerGamePr
     if (carriedFish !== null && checkCollision(kitty.current, scratchingPost.current)) {
       deliverFish();
     }
+  }, [gameStarted, roundState.phase, sendPlayerState, saveSnapshot, collectFish, dropFish, deliverFish, carriedFish, spectatedPlayer, WORLD_WIDTH, WORLD_HEIGHT]);
+
+  // Draws the world, interpolating the local kitty between the last two ticks
+  const renderGame = useCallback((alpha: number) => {
+    if (!canvasRef.current || !gameStarted) return;
+
+    const canvas = canvasRef.current;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    const drawnCamera = interpolateCamera(previousCamera.current, camera.current, alpha);
+    drawParallaxBackground(ctx, drawnCamera, { width: WORLD_WIDTH, height: WORLD_HEIGHT });
+
+    const drawnKitty = interpolateKitty(previousKitty.current, kitty.current, alpha);
+
+    ctx.save();
+    applyCamera(ctx, drawnCamera);
 
     // Draw platforms
-    platforms.current.forEach(platform => {
-      const gradient = ctx.createLinearGradient(0, platform.y, 0, platform.y + platform.height);
-      gradient.addColorStop(0, '#d97706');
-      gradient.addColorStop(1, '#92400e');
-      ctx.fillStyle = gradient;
-      ctx.fillRect(platform.x, platform.y, platform.width, platform.height);
-      
-      ctx.strokeStyle = '#451a03';
-      ctx.lineWidth = 2;
-      ctx.strokeRect(platform.x, platform.y, platform.width, platform.height);
-    });
+    platforms.current.forEach(platform => drawPlatform(ctx, platform));
+    drawEntities(ctx, interpolateEntities(previousEntities.current, entities.current, alpha), drawnKitty.animationFrame);
 
     // Draw scratching post
     const post = scratchingPost.current;
@@ -781,80 +1069,41 @@ export const MultiplayerGame = ({ user, roomId, onLeaveRoom }: MultiplayerGamePr
     
     ctx.restore();
 
-    // Draw fishes
+    // Draw fishes; carried ones are drawn over their carrier
     fishes.current.forEach((fish, index) => {
-      if (!fish.collected && fish.carriedBy !== user.id) {
-        const floatY = Math.sin((kitty.current.animationFrame + index * 30) * 0.05) * 3;
-        
-        ctx.save();
-        ctx.shadowColor = '#f97316';
-        ctx.shadowBlur = 10;
-        
-        const fishGradient = ctx.createRadialGradient(
-          fish.x + fish.width/2, fish.y + fish.height/2 + floatY, 0,
-          fish.x + fish.width/2, fish.y + fish.height/2 + floatY, fish.width
-        );
-        fishGradient.addColorStop(0, '#fb923c');
-        fishGradient.addColorStop(1, '#ea580c');
-        ctx.fillStyle = fishGradient;
-        ctx.fillRect(fish.x, fish.y + floatY, fish.width, fish.height);
-        
-        ctx.font = '20px Arial';
-        ctx.textAlign = 'center';
-        ctx.fillText('🐟', fish.x + fish.width/2, fish.y + 15 + floatY);
-        
-        ctx.restore();
+      if (!fish.collected && fish.carriedBy === null) {
+        drawFish(ctx, fish, drawnKitty.animationFrame, index);
       }
     });
 
     // Draw all players
+    const now = Date.now();
     players.forEach(player => {
-      let yOffset = 0;
-      let scaleX = 1;
-      let scaleY = 1;
-      
-      // Current player (kitty position) vs other players (database position)
-      const x = player.user_id === user.id ? kitty.current.x : player.position_x;
-      const y = player.user_id === user.id ? kitty.current.y : player.position_y;
-      
-      // Animation for current player
-      if (player.user_id === user.id) {
-        switch (kitty.current.animationState) {
-          case 'idle':
-            yOffset = Math.sin(kitty.current.animationFrame * 0.05) * 1;
-            scaleX = 1 + Math.sin(kitty.current.animationFrame * 0.03) * 0.02;
-            break;
-          case 'walk':
-            yOffset = Math.sin(kitty.current.animationFrame * 0.3) * 2;
-            scaleX = 1 + Math.sin(kitty.current.animationFrame * 0.4) * 0.05;
-            break;
-          case 'jump':
-            scaleY = 1.1;
-            scaleX = 0.9;
-            break;
-        }
+      // Current player (simulated kitty) vs other players (interpolated from their broadcast states)
+      const isCurrentPlayer = player.user_id === user.id;
+      const buffer = isCurrentPlayer ? null : remoteStates.current.get(player.user_id);
+      const drawn = isCurrentPlayer ? drawnKitty : buffer && remoteKittyAt(buffer, now, drawnKitty.animationFrame);
+      // Nothing received from this player yet
+      if (!drawn) return;
+
+      const { x, y } = drawn;
+      const isCarrying = isCurrentPlayer ? carriedFish !== null : latestSnapshot(buffer).carriedFish !== null;
+      // Dropped out of the room's presence; faded until they are back or swept offline
+      const isReconnecting = !isCurrentPlayer && presentIds !== null && !presentIds.has(player.user_id);
+      const label = isReconnecting ? `${player.player_name} (reconectando…)` : player.player_name;
+
+      ctx.save();
+      if (isReconnecting) {
+        ctx.globalAlpha = 0.4;
       }
-      
-      // Draw player kitty
-      if (imageLoaded && kittyImageRef.current) {
-        ctx.save();
-        ctx.translate(x + 20, y + 20 + yOffset);
-        ctx.scale(scaleX, scaleY);
-        
-        // Different colors for different players
-        if (player.user_id !== user.id) {
-          ctx.filter = `hue-rotate(${player.user_id.slice(-2).charCodeAt(0) * 10}deg)`;
-        }
-        
-        const kittySize = 48;
-        ctx.drawImage(kittyImageRef.current, -kittySize/2, -kittySize/2, kittySize, kittySize);
-        ctx.restore();
-      } else {
-        ctx.font = '28px Arial';
-        ctx.textAlign = 'center';
-        ctx.fillStyle = player.user_id === user.id ? '#ec4899' : '#8b5cf6';
-        ctx.fillText('🐱', x + 20, y + 25 + yOffset);
+
+      // Draw player kitty, in a different color for each other player
+      ctx.save();
+      if (!isCurrentPlayer) {
+        ctx.filter = `hue-rotate(${player.user_id.slice(-2).charCodeAt(0) * 10}deg)`;
       }
+      drawKitty(ctx, drawn, imageLoaded ? kittyImageRef.current : null);
+      ctx.restore();
       
       // Draw player name
       ctx.font = '12px Arial';
@@ -862,30 +1111,31 @@ export const MultiplayerGame = ({ user, roomId, onLeaveRoom }: MultiplayerGamePr
       ctx.fillStyle = '#000';
       ctx.strokeStyle = '#fff';
       ctx.lineWidth = 2;
-      ctx.strokeText(player.player_name, x + 20, y - 5);
-      ctx.fillText(player.player_name, x + 20, y - 5);
+      ctx.strokeText(label, x + 20, y - 5);
+      ctx.fillText(label, x + 20, y - 5);
       
       // Draw fish count
       ctx.fillText(`🐟 ${player.fish_collected}`, x + 20, y + 65);
       
-      // Draw carried fish for current player
-      if (player.user_id === user.id && carriedFish !== null) {
+      // Draw carried fish
+      if (isCarrying) {
         ctx.font = '16px Arial';
         ctx.fillText('🐟', x + 20, y - 15);
         
         // Floating animation for carried fish
-        const floatOffset = Math.sin(kitty.current.animationFrame * 0.1) * 2;
+        const floatOffset = Math.sin(drawnKitty.animationFrame * 0.1) * 2;
         ctx.save();
         ctx.shadowColor = '#f97316';
         ctx.shadowBlur = 8;
         ctx.fillText('🐟', x + 20, y - 20 + floatOffset);
         ctx.restore();
       }
+      ctx.restore();
     });
 
-    kitty.current.animationFrame += 1;
-    animationRef.current = requestAnimationFrame(gameLoop);
-  }, [gameStarted, players, user.id, imageLoaded, updatePlayerPosition, collectFish, deliverFish, carriedFish]);
+    ctx.restore();
+    drawHeldKeys(ctx, drawnKitty.keys, 12, 20);
+  }, [gameStarted, players, presentIds, user.id, imageLoaded, carriedFish, WORLD_WIDTH, WORLD_HEIGHT]);
 
   // Setup and cleanup
   useEffect(() => {
@@ -894,21 +1144,41 @@ export const MultiplayerGame = ({ user, roomId, onLeaveRoom }: MultiplayerGamePr
     window.addEventListener('keydown', handleKeyDown);
     window.addEventListener('keyup', handleKeyUp);
     
-    animationRef.current = requestAnimationFrame(gameLoop);
+    stopLoopRef.current = startFixedStepLoop({ update: updateGame, render: renderGame });
 
     return () => {
       window.removeEventListener('keydown', handleKeyDown);
       window.removeEventListener('keyup', handleKeyUp);
-      if (animationRef.current) {
-        cancelAnimationFrame(animationRef.current);
-      }
+      stopLoopRef.current?.();
     };
-  }, [gameStarted, gameLoop, handleKeyDown, handleKeyUp]);
+  }, [gameStarted, updateGame, renderGame, handleKeyDown, handleKeyUp]);
 
   if (!room) {
     return <div>Carregando...</div>;
   }
 
+  // Who hosts the room, and for the host a menu to hand it over
+  const otherPlayers = players.filter(player => player.user_id !== user.id);
+  const hostControls = (
+    <div className="flex items-center justify-center gap-2">
+      <span>👑 Anfitrião: {hostPlayer?.player_name ?? '...'}</span>
+      {isHost && otherPlayers.length > 0 && (
+        <Select value="" onValueChange={handOverHost}>
+          <SelectTrigger className="h-7 w-auto text-xs">
+            <SelectValue placeholder="Passar anfitrião" />
+          </SelectTrigger>
+          <SelectContent>
+            {otherPlayers.map(player => (
+              <SelectItem key={player.user_id} value={player.user_id}>
+                {player.player_name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+    </div>
+  );
+
   return (
     <div className="min-h-screen bg-gradient-background">
       {/* Mobile Layout */}
@@ -920,11 +1190,19 @@ export const MultiplayerGame = ({ user, roomId, onLeaveRoom }: MultiplayerGamePr
               <h1 className="text-sm font-bold bg-gradient-primary bg-clip-text text-transparent">
                 🎮 {room.name} • Código: {room.code}
               </h1>
+              <div className="text-xs text-muted-foreground">
+                {hostControls}
+              </div>
               {gameStarted && (
                 <div className="flex justify-center gap-3 text-xs text-muted-foreground">
-                  <span className="text-destructive">⏰ {timeLeft}s</span>
-                  <span className="text-primary">🎯 Rodada {currentRound}</span>
+                  <span className="text-destructive">{phaseClock}</span>
+                  <span className="text-primary">🎯 Rodada {roundState.round}</span>
                   <span className="text-accent">🐟 1 peixe</span>
+                  {players.length > 1 && (
+                    <button onClick={cycleSpectate} className="text-primary underline">
+                      👁️ {spectatedPlayer ? spectatedPlayer.player_name : 'Você'}
+                    </button>
+                  )}
                 </div>
               )}
             </div>
@@ -932,12 +1210,26 @@ export const MultiplayerGame = ({ user, roomId, onLeaveRoom }: MultiplayerGamePr
 
           {/* Game Area - Full Screen Mobile */}
           <div className="flex-1 relative overflow-hidden">
-            {room.status === 'waiting' && (
+            {reconnecting && (
+              <div className="absolute top-2 left-1/2 -translate-x-1/2 z-30 px-3 py-1 rounded-full bg-destructive/90 text-destructive-foreground text-xs shadow-lg">
+                🔌 Reconectando…
+              </div>
+            )}
+
+            {inLobby && (
               <div className="absolute inset-0 z-20 bg-background/95 backdrop-blur flex flex-col items-center justify-center">
-                <p className="mb-4 text-center">Aguardando início do jogo...</p>
-                <Button onClick={startGame} className="bg-gradient-primary hover:opacity-90">
-                  🚀 Iniciar Jogo
-                </Button>
+                {roundState.phase === 'results' ? (
+                  <p className="mb-4 text-center">🏁 Fim de jogo! Voltando à sala em {timeLeft}s...</p>
+                ) : isHost ? (
+                  <>
+                    <p className="mb-4 text-center">Aguardando início do jogo...</p>
+                    <Button onClick={startGame} className="bg-gradient-primary hover:opacity-90">
+                      🚀 Iniciar Jogo
+                    </Button>
+                  </>
+                ) : (
+                  <p className="mb-4 text-center">Aguardando o anfitrião iniciar o jogo...</p>
+                )}
               </div>
             )}
             
@@ -1035,6 +1327,7 @@ export const MultiplayerGame = ({ user, roomId, onLeaveRoom }: MultiplayerGamePr
             roomId={roomId} 
             user={user} 
             players={players} 
+            roundPhase={roundState.phase}
             isOpen={showChatOverlay}
             onClose={() => setShowChatOverlay(false)}
           />
@@ -1052,26 +1345,48 @@ export const MultiplayerGame = ({ user, roomId, onLeaveRoom }: MultiplayerGamePr
                 <span>Jogadores: {players.length}/5</span>
                 <span>Status: {room.status === 'waiting' ? 'Aguardando' : room.status === 'playing' ? 'Em jogo' : 'Finalizado'}</span>
               </div>
+              <div className="mt-2 text-sm text-muted-foreground">
+                {hostControls}
+              </div>
             </div>
 
             <div className="grid lg:grid-cols-5 gap-4">
               {/* Game Area */}
               <div className="lg:col-span-3">
                 <Card className="p-4 game-ui-card">
-                  {room.status === 'waiting' && (
+                  {reconnecting && (
+                    <div className="mb-4 text-center text-sm font-semibold text-destructive">
+                      🔌 Reconectando… o jogo continua assim que a conexão voltar
+                    </div>
+                  )}
+
+                  {inLobby && (
                     <div className="text-center mb-4">
-                      <p className="mb-4">Aguardando início do jogo...</p>
-                      <Button onClick={startGame} className="bg-gradient-primary hover:opacity-90">
-                        🚀 Iniciar Jogo
-                      </Button>
+                      {roundState.phase === 'results' ? (
+                        <p className="mb-4">🏁 Fim de jogo! Voltando à sala em {timeLeft}s...</p>
+                      ) : isHost ? (
+                        <>
+                          <p className="mb-4">Aguardando início do jogo...</p>
+                          <Button onClick={startGame} className="bg-gradient-primary hover:opacity-90">
+                            🚀 Iniciar Jogo
+                          </Button>
+                        </>
+                      ) : (
+                        <p className="mb-4">Aguardando o anfitrião iniciar o jogo...</p>
+                      )}
                     </div>
                   )}
                   
                   {gameStarted && (
                     <div className="flex justify-center gap-6 mb-4 text-lg font-semibold">
-                      <span className="text-destructive">⏰ {timeLeft}s</span>
-                      <span className="text-primary">🎯 Rodada {currentRound}</span>
+                      <span className="text-destructive">{phaseClock}</span>
+                      <span className="text-primary">🎯 Rodada {roundState.round}</span>
                       <span className="text-accent">🐟 1 peixe</span>
+                      {players.length > 1 && (
+                        <Button size="sm" variant="outline" onClick={cycleSpectate}>
+                          👁️ {spectatedPlayer ? `Seguindo ${spectatedPlayer.player_name}` : 'Seguir outro jogador'}
+                        </Button>
+                      )}
                     </div>
                   )}
 
@@ -1109,7 +1424,7 @@ export const MultiplayerGame = ({ user, roomId, onLeaveRoom }: MultiplayerGamePr
 
               {/* Ranking Sidebar */}
               <div className="lg:col-span-1">
-                <RankingBoard roomId={roomId} players={players} />
+                <RankingBoard roomId={roomId} players={players} roundPhase={roundState.phase} />
               </div>
 
               {/* Chat Bottom Section */}
@@ -6,6 +6,8 @@ import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { sweepStaleRooms } from '@/game/presence';
 
 interface Room {
   id: string;
@@ -15,9 +17,20 @@ interface Room {
   current_level: number;
   status: string;
   created_by: string;
+  level_id: string | null;
+  levels?: { title: string } | null;
   player_count?: number;
 }
 
+interface CommunityLevelOption {
+  id: string;
+  title: string;
+  plays: number;
+}
+
+// Select value for the official random rotation
+const OFFICIAL_LEVELS = 'official';
+
 interface MultiplayerLobbyProps {
   user?: any;
   onJoinRoom: (roomId: string) => void;
@@ -30,11 +43,18 @@ export const MultiplayerLobby = ({ user, onJoinRoom, onBackToProfile }: Multipla
   const [roomCode, setRoomCode] = useState('');
   const [isCreating, setIsCreating] = useState(false);
   const [isJoining, setIsJoining] = useState(false);
+  const [communityLevels, setCommunityLevels] = useState<CommunityLevelOption[]>([]);
+  const [selectedLevel, setSelectedLevel] = useState(OFFICIAL_LEVELS);
   const { toast } = useToast();
 
   // Load available rooms
   useEffect(() => {
-    loadRooms();
+    // Signed-in players close rooms whose players are all gone before listing them
+    const swept = user
+      ? sweepStaleRooms().catch(error => console.error('Error sweeping rooms:', error))
+      : Promise.resolve();
+    swept.finally(loadRooms);
+    loadCommunityLevels();
     
     // Subscribe to room updates
     const roomsChannel = supabase
@@ -59,7 +79,7 @@ export const MultiplayerLobby = ({ user, onJoinRoom, onBackToProfile }: Multipla
     try {
       const { data: roomsData, error } = await supabase
         .from('rooms')
-        .select('*')
+        .select('*, levels(title)')
         .in('status', ['waiting', 'playing'])
         .order('created_at', { ascending: false });
 
@@ -95,6 +115,23 @@ export const MultiplayerLobby = ({ user, onJoinRoom, onBackToProfile }: Multipla
     }
   };
 
+  const loadCommunityLevels = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('levels')
+        .select('id, title, plays')
+        .eq('published', true)
+        .eq('mode', 'multiplayer')
+        .order('plays', { ascending: false })
+        .limit(50);
+
+      if (error) throw error;
+      setCommunityLevels(data || []);
+    } catch (error) {
+      console.error('Error loading community levels:', error);
+    }
+  };
+
   const createRoom = async () => {
     if (!user) {
       toast({
@@ -133,7 +170,8 @@ export const MultiplayerLobby = ({ user, onJoinRoom, onBackToProfile }: Multipla
           code: codeData,
           created_by: user.id,
           max_players: 5,
-          status: 'waiting'
+          status: 'waiting',
+          level_id: selectedLevel === OFFICIAL_LEVELS ? null : selectedLevel
         })
         .select()
         .single();
@@ -309,7 +347,8 @@ export const MultiplayerLobby = ({ user, onJoinRoom, onBackToProfile }: Multipla
           code: codeData,
           created_by: user.id,
           max_players: 5,
-          status: 'waiting'
+          status: 'waiting',
+          level_id: fullRoom.level_id
         })
         .select()
         .single();
@@ -471,6 +510,19 @@ export const MultiplayerLobby = ({ user, onJoinRoom, onBackToProfile }: Multipla
                 onChange={(e) => setRoomName(e.target.value)}
                 maxLength={50}
               />
+              <Select value={selectedLevel} onValueChange={setSelectedLevel}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={OFFICIAL_LEVELS}>🎲 Níveis oficiais (aleatório)</SelectItem>
+                  {communityLevels.map(level => (
+                    <SelectItem key={level.id} value={level.id}>
+                      🌍 {level.title} • ▶️ {level.plays}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
               <Button
                 onClick={createRoom}
                 disabled={isCreating}
@@ -528,6 +580,11 @@ export const MultiplayerLobby = ({ user, onJoinRoom, onBackToProfile }: Multipla
                         <Badge variant="outline" className="text-xs">
                           Nível {room.current_level + 1}
                         </Badge>
+                        {room.levels && (
+                          <Badge variant="outline" className="text-xs">
+                            🌍 {room.levels.title}
+                          </Badge>
+                        )}
                         {room.status !== 'waiting' && (
                           <Badge variant={room.status === 'playing' ? 'default' : 'secondary'} className="text-xs">
                             {room.status === 'playing' ? 'Em jogo' : 'Finalizada'}
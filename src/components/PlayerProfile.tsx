@@ -1,174 +1,239 @@
-import { useState, useEffect } from 'react';
-import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
 import { Badge } from '@/components/ui/badge';
-import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
+import kittyImage from '@/assets/kitty.png';
+import { formatTicks } from '@/game/loop';
+import { BIO_MAX_LENGTH, fetchProfileStats, updateProfile, type ProfileStats } from '@/game/profiles';
+import { fetchRatingHistory, formatRatingDelta, type RatingChange } from '@/game/rating';
 
 interface PlayerProfileProps {
-  isOpen: boolean;
-  onClose: () => void;
-  playerId: string;
-  playerName: string;
-  roomId: string;
+  nickname: string;
 }
 
-interface PlayerStats {
-  fish_collected: number;
-  is_online: boolean;
-  position_x: number;
-  position_y: number;
-  joined_at: string;
-}
+const formatDate = (timestamp: string) => new Date(timestamp).toLocaleDateString('pt-BR');
 
-export const PlayerProfile = ({ isOpen, onClose, playerId, playerName, roomId }: PlayerProfileProps) => {
-  const [playerStats, setPlayerStats] = useState<PlayerStats | null>(null);
-  const [fishMessages, setFishMessages] = useState<any[]>([]);
+export const PlayerProfile = ({ nickname }: PlayerProfileProps) => {
+  const [profile, setProfile] = useState<ProfileStats | null>(null);
+  const [ratingHistory, setRatingHistory] = useState<RatingChange[]>([]);
+  const [viewerId, setViewerId] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
+  const [avatarUrl, setAvatarUrl] = useState('');
+  const [bio, setBio] = useState('');
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  const isOwnProfile = !!profile && profile.user_id === viewerId;
 
   useEffect(() => {
-    if (isOpen && playerId) {
-      loadPlayerData();
-    }
-  }, [isOpen, playerId, roomId]);
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      setViewerId(session?.user.id ?? null);
+    });
+  }, []);
 
-  const loadPlayerData = async () => {
+  const loadProfile = useCallback(async () => {
     setLoading(true);
     try {
-      // Load player stats
-      const { data: playerData, error: playerError } = await supabase
-        .from('room_players')
-        .select('*')
-        .eq('room_id', roomId)
-        .eq('user_id', playerId)
-        .single();
-
-      if (playerError) throw playerError;
-      setPlayerStats(playerData);
-
-      // Load fish collection messages for this player
-      const { data: messagesData, error: messagesError } = await supabase
-        .from('chat_messages')
-        .select('*')
-        .eq('room_id', roomId)
-        .eq('user_id', playerId)
-        .eq('message_type', 'game')
-        .like('message', '%coletou%')
-        .order('created_at', { ascending: false })
-        .limit(10);
-
-      if (messagesError) throw messagesError;
-      setFishMessages(messagesData || []);
-
+      const stats = await fetchProfileStats(nickname);
+      setProfile(stats);
+      setAvatarUrl(stats?.avatar_url ?? '');
+      setBio(stats?.bio ?? '');
+      setRatingHistory(stats ? await fetchRatingHistory(stats.user_id) : []);
     } catch (error) {
-      console.error('Error loading player data:', error);
+      console.error('Error loading profile:', error);
+      toast({
+        title: "Erro",
+        description: "Falha ao carregar o perfil",
+        variant: "destructive",
+      });
     } finally {
       setLoading(false);
     }
-  };
+  }, [nickname, toast]);
 
-  const formatTime = (timestamp: string) => {
-    return new Date(timestamp).toLocaleTimeString('pt-BR', {
-      hour: '2-digit',
-      minute: '2-digit',
-      second: '2-digit'
-    });
-  };
+  useEffect(() => {
+    loadProfile();
+  }, [loadProfile]);
 
-  const formatDate = (timestamp: string) => {
-    return new Date(timestamp).toLocaleDateString('pt-BR');
+  const saveProfile = async () => {
+    if (!profile) return;
+    setSaving(true);
+    try {
+      const changes = { avatar_url: avatarUrl.trim() || null, bio: bio.trim() || null };
+      await updateProfile(profile.user_id, changes);
+      setProfile({ ...profile, ...changes });
+      toast({
+        title: "Perfil atualizado!",
+        description: "Suas alterações foram salvas.",
+      });
+    } catch (error) {
+      console.error('Error updating profile:', error);
+      toast({
+        title: "Erro",
+        description: "Falha ao salvar o perfil",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
   };
 
-  const getFirstCollections = () => {
-    return fishMessages.filter(msg => msg.message.includes('primeiro')).length;
-  };
+  const stats = profile && [
+    { icon: '🎮', label: 'Jogos', value: profile.games_played },
+    { icon: '⭐', label: 'Melhor pontuação', value: profile.best_score },
+    { icon: '🐟', label: 'Peixes coletados', value: profile.total_fish },
+    {
+      icon: '⏱️',
+      label: 'Melhor speedrun',
+      value: profile.best_run_ticks !== null ? `${formatTicks(profile.best_run_ticks)} (#${profile.speedrun_rank})` : '—',
+    },
+    { icon: '🌐', label: 'Rodadas online', value: profile.multiplayer_rounds },
+    { icon: '🏆', label: 'Vitórias online', value: profile.multiplayer_wins },
+  ];
 
   return (
-    <Dialog open={isOpen} onOpenChange={onClose}>
-      <DialogContent className="max-w-md">
-        <DialogHeader>
-          <DialogTitle className="flex items-center gap-2">
-            👤 Perfil do Jogador
-          </DialogTitle>
-        </DialogHeader>
-
+    <div className="min-h-screen bg-gradient-background p-4">
+      <div className="max-w-3xl mx-auto space-y-6">
         {loading ? (
-          <div className="text-center py-8">
+          <div className="text-center py-16">
             <div className="animate-spin w-8 h-8 border-2 border-primary border-t-transparent rounded-full mx-auto mb-2" />
             <p className="text-muted-foreground">Carregando perfil...</p>
           </div>
-        ) : playerStats ? (
-          <div className="space-y-4">
+        ) : !profile ? (
+          <Card className="game-ui-card text-center p-8">
+            <p className="text-4xl mb-2">🔍</p>
+            <p className="text-muted-foreground">Jogador "{nickname}" não encontrado.</p>
+          </Card>
+        ) : (
+          <>
             {/* Player Info */}
-            <Card className="p-4">
-              <div className="flex items-center justify-between mb-3">
-                <h3 className="font-bold text-primary text-lg">{playerName}</h3>
-                <div className="flex items-center gap-2">
-                  <div className={`w-3 h-3 rounded-full ${playerStats.is_online ? 'bg-green-500' : 'bg-gray-400'}`} />
-                  <span className="text-sm text-muted-foreground">
-                    {playerStats.is_online ? 'Online' : 'Offline'}
-                  </span>
-                </div>
-              </div>
-              
-              <div className="grid grid-cols-2 gap-3">
-                <div className="text-center">
-                  <Badge variant="default" className="bg-gradient-primary">
-                    🐟 {playerStats.fish_collected}
-                  </Badge>
-                  <p className="text-xs text-muted-foreground mt-1">Peixes Coletados</p>
+            <Card className="game-ui-card">
+              <CardHeader className="text-center">
+                <div className="w-24 h-24 mx-auto mb-4 rounded-full bg-gradient-primary p-1">
+                  <div className="w-full h-full rounded-full bg-background flex items-center justify-center overflow-hidden">
+                    <img
+                      src={profile.avatar_url || kittyImage}
+                      alt={profile.nickname}
+                      className={profile.avatar_url ? 'w-full h-full object-cover' : 'w-14 h-14 object-contain'}
+                    />
+                  </div>
                 </div>
-                
-                <div className="text-center">
-                  <Badge variant="secondary">
-                    🏆 {getFirstCollections()}
-                  </Badge>
-                  <p className="text-xs text-muted-foreground mt-1">Primeiro a Coletar</p>
+                <CardTitle className="text-2xl text-primary">
+                  {profile.nickname}
+                </CardTitle>
+                <CardDescription>
+                  Jogando desde {formatDate(profile.created_at)}
+                </CardDescription>
+                {profile.bio && (
+                  <p className="text-sm pt-2 whitespace-pre-line">{profile.bio}</p>
+                )}
+              </CardHeader>
+              <CardContent>
+                <div className="grid grid-cols-2 sm:grid-cols-3 gap-4">
+                  {stats.map(stat => (
+                    <div key={stat.label} className="text-center p-3 rounded-lg bg-muted/20">
+                      <p className="text-xl font-bold">{stat.icon} {stat.value}</p>
+                      <p className="text-xs text-muted-foreground mt-1">{stat.label}</p>
+                    </div>
+                  ))}
                 </div>
-              </div>
-
-              <div className="mt-3 pt-3 border-t border-border/50">
-                <p className="text-xs text-muted-foreground">
-                  <span className="font-medium">Entrou em:</span> {formatDate(playerStats.joined_at)} às {formatTime(playerStats.joined_at)}
-                </p>
-              </div>
+              </CardContent>
             </Card>
 
-            {/* Recent Collections */}
-            {fishMessages.length > 0 && (
-              <Card className="p-4">
-                <h4 className="font-semibold text-sm mb-3 text-primary">📋 Últimas Coletas</h4>
-                <div className="space-y-2 max-h-32 overflow-y-auto">
-                  {fishMessages.slice(0, 5).map((message, index) => (
-                    <div key={message.id} className="flex justify-between items-center text-xs">
-                      <div className="flex items-center gap-2">
-                        {message.message.includes('primeiro') ? '🏆' : '🐟'}
-                        <span className={message.message.includes('primeiro') ? 'font-medium text-primary' : 'text-muted-foreground'}>
-                          {message.message.includes('primeiro') ? 'Primeiro!' : 'Coletou'}
+            {/* Rating */}
+            <Card className="game-ui-card">
+              <CardHeader className="flex flex-row items-center justify-between space-y-0">
+                <CardTitle className="flex items-center gap-2">
+                  📈 Rating
+                </CardTitle>
+                <Badge variant="default" className="bg-gradient-primary text-base">
+                  {profile.rating}
+                </Badge>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {ratingHistory.length > 0 ? (
+                  <>
+                    <p className="text-xs text-muted-foreground">
+                      {profile.rated_matches} partidas ranqueadas
+                    </p>
+                    {ratingHistory.map(change => (
+                      <div key={change.id} className="flex justify-between items-center text-sm">
+                        <span>
+                          {change.placement}º lugar • 🐟 {change.fish_delivered}
+                        </span>
+                        <span className={change.rating_after >= change.rating_before ? 'text-green-500 font-medium' : 'text-destructive font-medium'}>
+                          {formatRatingDelta(change)}
+                        </span>
+                        <span className="text-muted-foreground">
+                          {formatDate(change.created_at)}
                         </span>
                       </div>
-                      <span className="text-muted-foreground">
-                        {formatTime(message.created_at)}
-                      </span>
-                    </div>
-                  ))}
-                </div>
-              </Card>
-            )}
+                    ))}
+                  </>
+                ) : (
+                  <p className="text-sm text-muted-foreground">
+                    Nenhuma partida ranqueada ainda
+                  </p>
+                )}
+              </CardContent>
+            </Card>
 
-            {fishMessages.length === 0 && (
-              <Card className="p-4 text-center">
-                <p className="text-muted-foreground text-sm">
-                  🔍 Nenhuma coleta registrada ainda
-                </p>
+            {/* Own profile editing */}
+            {isOwnProfile && (
+              <Card className="game-ui-card">
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    ✏️ Editar Perfil
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="avatar-url">Avatar (URL da imagem)</Label>
+                    <Input
+                      id="avatar-url"
+                      type="url"
+                      value={avatarUrl}
+                      onChange={(e) => setAvatarUrl(e.target.value)}
+                      placeholder="https://..."
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="bio">Bio</Label>
+                    <Textarea
+                      id="bio"
+                      value={bio}
+                      onChange={(e) => setBio(e.target.value)}
+                      maxLength={BIO_MAX_LENGTH}
+                      placeholder="Conte um pouco sobre você"
+                    />
+                    <p className="text-xs text-muted-foreground text-right">
+                      {bio.length}/{BIO_MAX_LENGTH}
+                    </p>
+                  </div>
+                  <Button onClick={saveProfile} disabled={saving} className="bg-gradient-primary hover:opacity-90">
+                    {saving ? 'Salvando...' : '💾 Salvar'}
+                  </Button>
+                </CardContent>
               </Card>
             )}
-          </div>
-        ) : (
-          <div className="text-center py-8">
-            <p className="text-muted-foreground">Não foi possível carregar o perfil do jogador.</p>
-          </div>
+          </>
         )}
-      </DialogContent>
-    </Dialog>
+
+        <div className="flex justify-center gap-2">
+          <Button asChild variant="outline">
+            <Link to="/">← Voltar ao Jogo</Link>
+          </Button>
+          <Button asChild variant="secondary">
+            <Link to="/leaderboard">🏆 Ranking Global</Link>
+          </Button>
+        </div>
+      </div>
+    </div>
   );
-};
\ No newline at end of file
+};
@@ -3,6 +3,8 @@ import { Card } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { supabase } from '@/integrations/supabase/client';
+import { DEFAULT_RATING, fetchRatings, type PlayerRating } from '@/game/rating';
+import type { RoundPhase } from '@/game/rounds';
 
 interface Player {
   id: string;
@@ -15,15 +17,27 @@ interface Player {
 interface RankingBoardProps {
   roomId: string;
   players: Player[];
+  roundPhase: RoundPhase;
 }
 
-export const RankingBoard = ({ roomId, players }: RankingBoardProps) => {
+export const RankingBoard = ({ roomId, players, roundPhase }: RankingBoardProps) => {
   const [fishMessages, setFishMessages] = useState<any[]>([]);
+  const [ratings, setRatings] = useState<Map<string, PlayerRating>>(new Map());
+  // Stable across the players refreshes that only change fish counts or presence
+  const playerIds = players.map(player => player.user_id).sort().join(',');
+  // The host's move into results rates the match, so the ratings are fetched again then
+  const matchRated = roundPhase === 'results';
 
   useEffect(() => {
     loadFishMessages();
   }, [roomId]);
 
+  useEffect(() => {
+    fetchRatings(playerIds ? playerIds.split(',') : [])
+      .then(setRatings)
+      .catch(error => console.error('Error loading ratings:', error));
+  }, [playerIds, matchRated]);
+
   const loadFishMessages = async () => {
     try {
       const { data, error } = await supabase
@@ -96,6 +110,9 @@ export const RankingBoard = ({ roomId, players }: RankingBoardProps) => {
                   <span className={`${index === 0 ? 'font-bold text-primary' : 'font-medium'}`}>
                     {player.player_name}
                   </span>
+                  <span className="text-xs text-muted-foreground">
+                    📈 {ratings.get(player.user_id)?.rating ?? DEFAULT_RATING}
+                  </span>
                 </div>
               </div>
               
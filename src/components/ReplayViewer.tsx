@@ -0,0 +1,270 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { Link } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Slider } from '@/components/ui/slider';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import kittyImage from '@/assets/kitty.png';
+import { applyCamera, centerCamera, followTarget, getViewport, interpolateCamera, type Camera } from '@/game/camera';
+import { drawEntities, drawHeldKeys, interpolateEntities } from '@/game/entities';
+import { formatTicks, interpolateKitty, startFixedStepLoop } from '@/game/loop';
+import { resolveLevel } from '@/game/levels/community';
+import { createReplayPlayback, type PlaybackFrame, type ReplayPlayback } from '@/game/playback';
+import { drawFish, drawKitty, drawParallaxBackground, drawPlatform, drawScratcher } from '@/game/render';
+import { parseReplay } from '@/game/replay';
+
+interface ReplayViewerProps {
+  replayId: string;
+}
+
+const SPEEDS = [0.25, 0.5, 1, 2, 4];
+
+export const ReplayViewer = ({ replayId }: ReplayViewerProps) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const kittyImageRef = useRef<HTMLImageElement | null>(null);
+  const playback = useRef<ReplayPlayback | null>(null);
+  // Global tick being shown; fractional speeds advance it every few loop ticks
+  const tick = useRef(0);
+  const speedCarry = useRef(0);
+  const frame = useRef<PlaybackFrame | null>(null);
+  const camera = useRef<Camera>({ x: 0, y: 0, width: 800, height: 600 });
+  const previousCamera = useRef<Camera>(camera.current);
+
+  const [loading, setLoading] = useState(true);
+  const [failed, setFailed] = useState(false);
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+  const [position, setPosition] = useState(0);
+  const [totalTicks, setTotalTicks] = useState(0);
+  const [segment, setSegment] = useState(0);
+  const [imageLoaded, setImageLoaded] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    const img = new Image();
+    img.src = kittyImage;
+    img.onload = () => {
+      kittyImageRef.current = img;
+      setImageLoaded(true);
+    };
+  }, []);
+
+  // Jumps to a tick and snaps the camera onto the kitty there
+  const seek = useCallback((target: number) => {
+    if (!playback.current) return;
+
+    const next = playback.current.frameAt(target);
+    tick.current = Math.min(Math.max(Math.round(target), 0), playback.current.totalTicks);
+    frame.current = next;
+    camera.current = centerCamera(getViewport(next.level.canvas, next.level.mode), next.state.engine.kitty, next.level.canvas);
+    previousCamera.current = camera.current;
+    setPosition(tick.current);
+    setSegment(next.segment);
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadReplay = async () => {
+      try {
+        setLoading(true);
+        const { data, error } = await supabase
+          .from('replays')
+          .select('*')
+          .eq('id', replayId)
+          .single();
+
+        if (error) throw error;
+
+        const replay = parseReplay(data.data);
+        const levels = await Promise.all(replay.segments.map(segment => resolveLevel(segment.levelId)));
+        if (cancelled) return;
+
+        playback.current = createReplayPlayback(replay, levels);
+        setTotalTicks(playback.current.totalTicks);
+        seek(0);
+        setPlaying(true);
+      } catch (error) {
+        console.error('Error loading replay:', error);
+        if (cancelled) return;
+        setFailed(true);
+        toast({
+          title: "Erro",
+          description: "Falha ao carregar o replay",
+          variant: "destructive",
+        });
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    loadReplay();
+    return () => {
+      cancelled = true;
+    };
+  }, [replayId, seek, toast]);
+
+  // One loop tick advances the replay by `speed` simulation ticks
+  const update = useCallback(() => {
+    const current = playback.current;
+    if (!playing || !current) return;
+
+    speedCarry.current += speed;
+    while (speedCarry.current >= 1) {
+      speedCarry.current -= 1;
+      if (tick.current >= current.totalTicks) {
+        setPlaying(false);
+        break;
+      }
+
+      const previousSegment = frame.current?.segment;
+      tick.current += 1;
+      const next = current.frameAt(tick.current);
+      frame.current = next;
+
+      if (next.segment !== previousSegment || next.state.engine.respawned) {
+        seek(tick.current);
+      } else {
+        previousCamera.current = camera.current;
+        camera.current = followTarget(camera.current, next.state.engine.kitty, next.level.canvas);
+      }
+    }
+
+    setPosition(tick.current);
+  }, [playing, speed, seek]);
+
+  const render = useCallback((frameAlpha: number) => {
+    const current = frame.current;
+    if (!canvasRef.current || !current) return;
+    const ctx = canvasRef.current.getContext('2d');
+    if (!ctx) return;
+
+    // Interpolation only makes sense while ticks advance one at a time
+    const alpha = playing && speed <= 1 ? frameAlpha : 1;
+    const { state, previous, level } = current;
+
+    const drawnCamera = interpolateCamera(previousCamera.current, camera.current, alpha);
+    drawParallaxBackground(ctx, drawnCamera, level.canvas);
+
+    const drawnKitty = interpolateKitty(previous.engine.kitty, state.engine.kitty, alpha);
+
+    ctx.save();
+    applyCamera(ctx, drawnCamera);
+    state.engine.platforms.forEach(platform => drawPlatform(ctx, platform));
+    drawEntities(ctx, interpolateEntities(previous.engine.entities, state.engine.entities, alpha), drawnKitty.animationFrame);
+    drawScratcher(ctx, state.scratcher, state.atScratcher, drawnKitty.animationFrame);
+    state.fishes.forEach((fish, index) => {
+      if (!fish.collected) {
+        drawFish(ctx, fish, drawnKitty.animationFrame, index);
+      }
+    });
+    drawKitty(ctx, drawnKitty, imageLoaded ? kittyImageRef.current : null);
+    ctx.restore();
+    drawHeldKeys(ctx, drawnKitty.keys, 12, 20);
+  }, [playing, speed, imageLoaded]);
+
+  useEffect(() => {
+    if (loading || failed) return;
+    return startFixedStepLoop({ update, render });
+  }, [loading, failed, update, render]);
+
+  const togglePlaying = () => {
+    // Playing again from the end restarts the run
+    if (!playing && tick.current >= totalTicks) {
+      seek(0);
+    }
+    speedCarry.current = 0;
+    setPlaying(prev => !prev);
+  };
+
+  const current = frame.current;
+  const level = current?.level;
+  const viewport = level ? getViewport(level.canvas, level.mode) : { width: 800, height: 600 };
+
+  return (
+    <div className="flex flex-col items-center gap-6 p-6">
+      <div className="w-full max-w-4xl flex items-center justify-between">
+        <Button asChild variant="outline">
+          <Link to="/">← Voltar ao Jogo</Link>
+        </Button>
+        <h1 className="text-3xl font-bold bg-gradient-primary bg-clip-text text-transparent">
+          🎬 Replay
+        </h1>
+        <div className="w-32" />
+      </div>
+
+      {loading ? (
+        <div className="text-center py-8">
+          <div className="animate-spin w-8 h-8 border-2 border-primary border-t-transparent rounded-full mx-auto mb-2" />
+          <p className="text-muted-foreground">Carregando replay...</p>
+        </div>
+      ) : failed ? (
+        <p className="text-muted-foreground py-8">Replay não encontrado ou inválido.</p>
+      ) : (
+        <>
+          <div className="game-ui-card p-4 rounded-2xl">
+            <div className="flex gap-6 text-lg font-semibold flex-wrap justify-center items-center">
+              <div className="flex items-center gap-2 text-accent">
+                <span className="text-xl">🎯</span>
+                <span>{level?.name}</span>
+              </div>
+              <div className="flex items-center gap-2 text-primary">
+                <span className="text-2xl">⭐</span>
+                <span>{current?.state.score ?? 0}</span>
+              </div>
+              <div className="flex items-center gap-2 text-accent">
+                <span className="text-xl">🏆</span>
+                <span>{current?.state.fishCount ?? 0}</span>
+              </div>
+              <div className="flex items-center gap-2 text-muted-foreground">
+                <span className="text-xl">⏱️</span>
+                <span>{formatTicks(position)} / {formatTicks(totalTicks)}</span>
+              </div>
+            </div>
+          </div>
+
+          <Card className="p-2 shadow-lg game-ui-card">
+            <canvas
+              ref={canvasRef}
+              width={viewport.width}
+              height={viewport.height}
+              className="border-2 border-primary/30 rounded-lg shadow-inner"
+              style={{ background: 'var(--gradient-sky)' }}
+            />
+          </Card>
+
+          <div className="w-full max-w-3xl flex items-center gap-4">
+            <Button onClick={togglePlaying} className="bg-gradient-primary hover:opacity-90 w-28">
+              {playing ? '⏸️ Pausar' : '▶️ Assistir'}
+            </Button>
+            <Slider
+              value={[position]}
+              max={totalTicks}
+              step={1}
+              onValueChange={([value]) => seek(value)}
+              className="flex-1"
+            />
+            <Select value={String(speed)} onValueChange={value => setSpeed(Number(value))}>
+              <SelectTrigger className="w-24">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SPEEDS.map(option => (
+                  <SelectItem key={option} value={String(option)}>
+                    {option}x
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <p className="text-sm text-muted-foreground">
+            Trecho {segment + 1}/{playback.current?.segmentStarts.length ?? 1} • reinícios de nível contam como novos trechos
+          </p>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,132 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { formatTicks } from '@/game/loop';
+import { getLevels } from '@/game/levels/loader';
+import { fetchLevelLeaderboard, fetchSpeedrunLeaderboard } from '@/game/speedrun';
+
+interface SpeedrunLeaderboardProps {
+  userId?: string;
+}
+
+// Same shape for both boards once the time column is picked
+interface LeaderboardRow {
+  rank: number;
+  userId: string;
+  playerName: string;
+  ticks: number;
+}
+
+// The full campaign, or a level id
+const CAMPAIGN = 'campaign';
+
+export const SpeedrunLeaderboard = ({ userId }: SpeedrunLeaderboardProps) => {
+  const [board, setBoard] = useState(CAMPAIGN);
+  const [rows, setRows] = useState<LeaderboardRow[]>([]);
+  const [playerRow, setPlayerRow] = useState<LeaderboardRow | null>(null);
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadLeaderboard = async () => {
+      try {
+        setLoading(true);
+        const leaderboard = board === CAMPAIGN
+          ? await fetchSpeedrunLeaderboard(userId).then(({ top, player }) => ({
+            top: top.map(entry => ({ ...entry, ticks: entry.run_ticks })),
+            player: player && { ...player, ticks: player.run_ticks },
+          }))
+          : await fetchLevelLeaderboard(board, userId);
+
+        if (cancelled) return;
+        const toRow = (entry: typeof leaderboard.top[number]): LeaderboardRow => ({
+          rank: entry.rank,
+          userId: entry.user_id,
+          playerName: entry.player_name || 'Jogador',
+          ticks: entry.ticks,
+        });
+        setRows(leaderboard.top.map(toRow));
+        setPlayerRow(leaderboard.player && toRow(leaderboard.player));
+      } catch (error) {
+        console.error('Error loading leaderboard:', error);
+        if (cancelled) return;
+        setRows([]);
+        setPlayerRow(null);
+        toast({
+          title: "Erro",
+          description: "Falha ao carregar o ranking",
+          variant: "destructive",
+        });
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    loadLeaderboard();
+    return () => {
+      cancelled = true;
+    };
+  }, [board, userId, toast]);
+
+  const renderRow = (row: LeaderboardRow) => (
+    <div
+      key={row.userId}
+      className={`flex items-center justify-between px-3 py-2 rounded-lg ${row.userId === userId ? 'bg-primary/10 border border-primary/30' : 'bg-muted/20'}`}
+    >
+      <span className="w-10 font-bold text-primary">#{row.rank}</span>
+      <span className="flex-1 truncate">{row.playerName}</span>
+      <span className="font-mono">{formatTicks(row.ticks)}</span>
+    </div>
+  );
+
+  return (
+    <Card className="game-ui-card col-span-full">
+      <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0">
+        <CardTitle className="flex items-center gap-2">
+          ⏱️ Speedrun
+        </CardTitle>
+        <Select value={board} onValueChange={setBoard}>
+          <SelectTrigger className="w-56">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={CAMPAIGN}>🏁 Campanha completa</SelectItem>
+            {getLevels('solo').map((level, index) => (
+              <SelectItem key={level.id} value={level.id}>
+                Nível {index + 1}: {level.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {loading ? (
+          <p className="text-center text-muted-foreground py-4">Carregando ranking...</p>
+        ) : rows.length === 0 ? (
+          <p className="text-center text-muted-foreground py-4">Nenhum tempo registrado ainda.</p>
+        ) : (
+          <>
+            {rows.map(renderRow)}
+            {playerRow && !rows.some(row => row.userId === playerRow.userId) && (
+              <>
+                <p className="text-center text-muted-foreground">⋯</p>
+                {renderRow(playerRow)}
+              </>
+            )}
+          </>
+        )}
+        {!loading && userId && !playerRow && (
+          <p className="text-sm text-center text-muted-foreground">
+            Você ainda não tem tempo neste ranking.
+          </p>
+        )}
+        <p className="text-xs text-center text-muted-foreground">
+          🎬 Só entram corridas verificadas pelo replay
+        </p>
+      </CardContent>
+    </Card>
+  );
+};
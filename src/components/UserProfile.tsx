@@ -1,52 +1,99 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback, type ReactNode } from 'react';
+import { Link } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { supabase } from '@/integrations/supabase/client';
 import kittyImage from '@/assets/kitty.png';
+import { getLevels } from '@/game/levels/loader';
+import { formatTicks } from '@/game/loop';
+import { clearRun, loadRun, type RunSnapshot } from '@/game/runs';
+import { fetchRunStats, fetchUserStats, type RunStats, type UserStats } from '@/game/stats';
+import { fetchProfile, profilePath, type Profile } from '@/game/profiles';
+import { SpeedrunLeaderboard } from './SpeedrunLeaderboard';
+import { MatchHistory } from './MatchHistory';
 
 interface UserProfileProps {
   user: any;
   onStartGame: () => void;
+  onResumeGame: (run: RunSnapshot) => void;
   onStartMultiplayer: () => void;
+  // Changes whenever a finished game updated the stats, to reload them
+  statsVersion?: number;
 }
 
-interface UserStats {
-  totalGamesPlayed: number;
-  totalFishCollected: number;
-  bestScore: number;
-  multiplayerWins: number;
+type StatStatus = 'loading' | 'error' | 'ready';
+
+interface StatCardProps {
+  status: StatStatus;
+  label: string;
+  badgeClassName?: string;
+  badgeVariant?: 'default' | 'secondary' | 'outline';
+  onRetry: () => void;
+  children: ReactNode;
 }
 
-export const UserProfile = ({ user, onStartGame, onStartMultiplayer }: UserProfileProps) => {
-  const [userStats, setUserStats] = useState<UserStats>({
-    totalGamesPlayed: 0,
-    totalFishCollected: 0,
-    bestScore: 0,
-    multiplayerWins: 0
-  });
-  const [loading, setLoading] = useState(true);
+const StatCard = ({ status, label, badgeClassName, badgeVariant = 'default', onRetry, children }: StatCardProps) => (
+  <div className="text-center p-4 rounded-lg bg-muted/20 border border-border/30">
+    {status === 'loading' ? (
+      <div className="animate-spin w-5 h-5 border-2 border-primary border-t-transparent rounded-full mx-auto mb-3" />
+    ) : status === 'error' ? (
+      <button onClick={onRetry} className="text-xs text-destructive underline mb-2">
+        ⚠️ Erro - tentar de novo
+      </button>
+    ) : (
+      <Badge variant={badgeVariant} className={`mb-2 ${badgeClassName ?? ''}`}>
+        {children}
+      </Badge>
+    )}
+    <p className="text-sm text-muted-foreground">{label}</p>
+  </div>
+);
 
-  useEffect(() => {
-    loadUserStats();
-  }, [user]);
+export const UserProfile = ({ user, onStartGame, onResumeGame, onStartMultiplayer, statsVersion }: UserProfileProps) => {
+  const [userStats, setUserStats] = useState<UserStats | null>(null);
+  const [userStatsStatus, setUserStatsStatus] = useState<StatStatus>('loading');
+  const [runStats, setRunStats] = useState<RunStats | null>(null);
+  const [runStatsStatus, setRunStatsStatus] = useState<StatStatus>('loading');
+  const [savedRun, setSavedRun] = useState<RunSnapshot | null>(() => loadRun(user?.id));
+  const [profile, setProfile] = useState<Profile | null>(null);
 
-  const loadUserStats = async () => {
+  const loadUserStats = useCallback(async () => {
+    if (!user) return;
     try {
-      // This is a placeholder for future implementation
-      // When we have user stats tables, we'll fetch real data here
-      setUserStats({
-        totalGamesPlayed: Math.floor(Math.random() * 50),
-        totalFishCollected: Math.floor(Math.random() * 200),
-        bestScore: Math.floor(Math.random() * 100),
-        multiplayerWins: Math.floor(Math.random() * 20)
-      });
+      setUserStatsStatus('loading');
+      setUserStats(await fetchUserStats(user.id));
+      setUserStatsStatus('ready');
     } catch (error) {
       console.error('Error loading user stats:', error);
-    } finally {
-      setLoading(false);
+      setUserStatsStatus('error');
     }
-  };
+  }, [user]);
+
+  const loadRunStats = useCallback(async () => {
+    if (!user) return;
+    try {
+      setRunStatsStatus('loading');
+      setRunStats(await fetchRunStats(user.id));
+      setRunStatsStatus('ready');
+    } catch (error) {
+      console.error('Error loading run stats:', error);
+      setRunStatsStatus('error');
+    }
+  }, [user]);
+
+  useEffect(() => {
+    loadUserStats();
+    loadRunStats();
+  }, [loadUserStats, loadRunStats, statsVersion]);
+
+  useEffect(() => {
+    if (!user) return;
+    fetchProfile(user.id)
+      .then(setProfile)
+      .catch(error => console.error('Error loading profile:', error));
+  }, [user]);
 
   const handleSignOut = async () => {
     try {
@@ -56,8 +103,13 @@ export const UserProfile = ({ user, onStartGame, onStartMultiplayer }: UserProfi
     }
   };
 
+  const discardRun = () => {
+    clearRun(user?.id);
+    setSavedRun(null);
+  };
+
   const getUserDisplayName = () => {
-    return user?.user_metadata?.display_name || user?.email?.split('@')[0] || 'Jogador';
+    return profile?.nickname || user?.user_metadata?.nickname || user?.email?.split('@')[0] || 'Jogador';
   };
 
   return (
@@ -73,143 +125,191 @@ export const UserProfile = ({ user, onStartGame, onStartMultiplayer }: UserProfi
           </p>
         </div>
 
-        <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6">
-          {/* Profile Card */}
-          <Card className="game-ui-card col-span-full lg:col-span-1">
-            <CardHeader className="text-center">
-              <div className="w-20 h-20 mx-auto mb-4 rounded-full bg-gradient-primary p-1">
-                <div className="w-full h-full rounded-full bg-background flex items-center justify-center">
-                  <img 
-                    src={kittyImage} 
-                    alt="Profile" 
-                    className="w-12 h-12 object-contain"
-                  />
-                </div>
-              </div>
-              <CardTitle className="text-xl text-primary">
-                {getUserDisplayName()}
-              </CardTitle>
-              <CardDescription>
-                {user?.email}
-              </CardDescription>
-            </CardHeader>
-            <CardContent className="space-y-3">
-              <Button 
-                onClick={handleSignOut}
-                variant="outline"
-                className="w-full"
-              >
-                🚪 Sair
-              </Button>
-            </CardContent>
-          </Card>
-
-          {/* Game Stats */}
-          <Card className="game-ui-card col-span-full lg:col-span-2">
-            <CardHeader>
-              <CardTitle className="flex items-center gap-2">
-                📊 Suas Estatísticas
-              </CardTitle>
-            </CardHeader>
-            <CardContent>
-              {loading ? (
-                <div className="text-center py-8">
-                  <div className="animate-spin w-8 h-8 border-2 border-primary border-t-transparent rounded-full mx-auto mb-2" />
-                  <p className="text-muted-foreground">Carregando estatísticas...</p>
-                </div>
-              ) : (
-                <div className="grid grid-cols-2 gap-4">
-                  <div className="text-center p-4 rounded-lg bg-muted/20 border border-border/30">
-                    <Badge variant="default" className="bg-gradient-primary mb-2">
-                      🎮 {userStats.totalGamesPlayed}
-                    </Badge>
-                    <p className="text-sm text-muted-foreground">Jogos Jogados</p>
+        <Tabs defaultValue="home">
+          <TabsList className="mb-6">
+            <TabsTrigger value="home">🏠 Início</TabsTrigger>
+            <TabsTrigger value="history">📜 Histórico</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="home">
+            <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6">
+              {/* Profile Card */}
+              <Card className="game-ui-card col-span-full lg:col-span-1">
+                <CardHeader className="text-center">
+                  <div className="w-20 h-20 mx-auto mb-4 rounded-full bg-gradient-primary p-1">
+                    <div className="w-full h-full rounded-full bg-background flex items-center justify-center overflow-hidden">
+                      <img 
+                        src={profile?.avatar_url || kittyImage} 
+                        alt="Profile" 
+                        className={profile?.avatar_url ? 'w-full h-full object-cover' : 'w-12 h-12 object-contain'}
+                      />
+                    </div>
+                  </div>
+                  <CardTitle className="text-xl text-primary">
+                    {getUserDisplayName()}
+                  </CardTitle>
+                  <CardDescription>
+                    {user?.email}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {profile && (
+                    <Button asChild variant="secondary" className="w-full">
+                      <Link to={profilePath(profile.nickname)}>👤 Meu Perfil Público</Link>
+                    </Button>
+                  )}
+                  <Button asChild variant="secondary" className="w-full">
+                    <Link to="/levels">🌍 Níveis da Comunidade</Link>
+                  </Button>
+                  <Button asChild variant="secondary" className="w-full">
+                    <Link to="/editor">🛠️ Editor de Níveis</Link>
+                  </Button>
+                  <Button asChild variant="secondary" className="w-full">
+                    <Link to="/leaderboard">🏆 Ranking Global</Link>
+                  </Button>
+                  <Button 
+                    onClick={handleSignOut}
+                    variant="outline"
+                    className="w-full"
+                  >
+                    🚪 Sair
+                  </Button>
+                </CardContent>
+              </Card>
+
+              {/* Game Stats */}
+              <Card className="game-ui-card col-span-full lg:col-span-2">
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    📊 Suas Estatísticas
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+                    <StatCard status={userStatsStatus} label="Jogos Jogados" badgeClassName="bg-gradient-primary" onRetry={loadUserStats}>
+                      🎮 {userStats?.games_played ?? 0}
+                    </StatCard>
+                    <StatCard status={userStatsStatus} label="Peixes Coletados" badgeVariant="secondary" onRetry={loadUserStats}>
+                      🐟 {userStats?.total_fish ?? 0}
+                    </StatCard>
+                    <StatCard status={userStatsStatus} label="Melhor Pontuação" badgeVariant="outline" onRetry={loadUserStats}>
+                      🏆 {userStats?.best_score ?? 0}
+                    </StatCard>
+                    <StatCard status={runStatsStatus} label="Campanhas Completas" badgeVariant="secondary" onRetry={loadRunStats}>
+                      🏁 {runStats?.completedRuns ?? 0}
+                    </StatCard>
+                    <StatCard status={runStatsStatus} label="Melhor Tempo" badgeVariant="outline" onRetry={loadRunStats}>
+                      ⏱️ {runStats?.bestRunTicks ? formatTicks(runStats.bestRunTicks) : '--'}
+                    </StatCard>
+                    <StatCard status={userStatsStatus} label="Vitórias Multiplayer" badgeClassName="bg-gradient-accent" onRetry={loadUserStats}>
+                      👥 {userStats?.multiplayer_wins ?? 0}
+                    </StatCard>
+                    <StatCard status={userStatsStatus} label="Rodadas Online" badgeVariant="secondary" onRetry={loadUserStats}>
+                      🔄 {userStats?.multiplayer_rounds ?? 0}
+                    </StatCard>
+                    <StatCard status={userStatsStatus} label="Peixes Entregues Online" badgeVariant="outline" onRetry={loadUserStats}>
+                      🪚 {userStats?.multiplayer_fish_delivered ?? 0}
+                    </StatCard>
+                  </div>
+                </CardContent>
+              </Card>
+
+              {/* Interrupted solo run */}
+              {savedRun && (
+                <Card className="game-ui-card col-span-full border-primary/40">
+                  <CardContent className="flex items-center justify-between gap-4 flex-wrap pt-6">
+                    <div>
+                      <p className="font-bold text-primary">⏯️ Partida em andamento</p>
+                      <p className="text-sm text-muted-foreground">
+                        {savedRun.levelId
+                          ? 'Nível da comunidade'
+                          : `Nível ${savedRun.levelIndex + 1}: ${getLevels('solo')[savedRun.levelIndex]?.name ?? '?'}`}
+                        {' '}• ⭐ {savedRun.score} • 🏆 {savedRun.fishCount} • ⏰ {savedRun.timeLeft}s
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        Salva em {new Date(savedRun.savedAt).toLocaleString('pt-BR')}
+                      </p>
+                    </div>
+                    <div className="flex gap-2">
+                      <Button onClick={() => onResumeGame(savedRun)} className="bg-gradient-primary hover:opacity-90">
+                        ▶️ Continuar
+                      </Button>
+                      <Button onClick={discardRun} variant="outline">
+                        🗑️ Descartar
+                      </Button>
+                    </div>
+                  </CardContent>
+                </Card>
+              )}
+
+              {/* Single Player Game */}
+              <Card className="game-ui-card hover-scale cursor-pointer transition-transform" onClick={onStartGame}>
+                <CardHeader className="text-center">
+                  <div className="text-4xl mb-2">🎯</div>
+                  <CardTitle className="text-primary">Jogo Solo</CardTitle>
+                  <CardDescription>
+                    Jogue sozinho e colete peixes!
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <Button className="w-full bg-gradient-primary hover:opacity-90" size="lg">
+                    ▶️ Iniciar Jogo Solo
+                  </Button>
+                </CardContent>
+              </Card>
+
+              {/* Multiplayer Game */}
+              <Card className="game-ui-card hover-scale cursor-pointer transition-transform" onClick={onStartMultiplayer}>
+                <CardHeader className="text-center">
+                  <div className="text-4xl mb-2">👥</div>
+                  <CardTitle className="text-primary">Multiplayer</CardTitle>
+                  <CardDescription>
+                    Jogue com até 5 jogadores online!
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <Button className="w-full bg-gradient-accent hover:opacity-90" size="lg">
+                    🌐 Jogar Online
+                  </Button>
+                </CardContent>
+              </Card>
+
+              {/* How to Play */}
+              <Card className="game-ui-card">
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    ❓ Como Jogar
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-3 text-sm">
+                  <div className="flex items-start gap-2">
+                    <span>🎮</span>
+                    <p>Use <kbd className="px-1 py-0.5 bg-muted rounded text-xs">WASD</kbd> ou setas para mover</p>
                   </div>
-                  
-                  <div className="text-center p-4 rounded-lg bg-muted/20 border border-border/30">
-                    <Badge variant="secondary" className="mb-2">
-                      🐟 {userStats.totalFishCollected}
-                    </Badge>
-                    <p className="text-sm text-muted-foreground">Peixes Coletados</p>
+                  <div className="flex items-start gap-2">
+                    <span>🐟</span>
+                    <p>Colete peixes para ganhar pontos</p>
                   </div>
-                  
-                  <div className="text-center p-4 rounded-lg bg-muted/20 border border-border/30">
-                    <Badge variant="outline" className="mb-2">
-                      🏆 {userStats.bestScore}
-                    </Badge>
-                    <p className="text-sm text-muted-foreground">Melhor Pontuação</p>
+                  <div className="flex items-start gap-2">
+                    <span>⚡</span>
+                    <p>Pule em plataformas para alcançar novos peixes</p>
                   </div>
-                  
-                  <div className="text-center p-4 rounded-lg bg-muted/20 border border-border/30">
-                    <Badge variant="default" className="bg-gradient-accent mb-2">
-                      👥 {userStats.multiplayerWins}
-                    </Badge>
-                    <p className="text-sm text-muted-foreground">Vitórias Multiplayer</p>
+                  <div className="flex items-start gap-2">
+                    <span>👥</span>
+                    <p>No multiplayer, trabalhe em equipe!</p>
                   </div>
-                </div>
-              )}
-            </CardContent>
-          </Card>
-
-          {/* Single Player Game */}
-          <Card className="game-ui-card hover-scale cursor-pointer transition-transform" onClick={onStartGame}>
-            <CardHeader className="text-center">
-              <div className="text-4xl mb-2">🎯</div>
-              <CardTitle className="text-primary">Jogo Solo</CardTitle>
-              <CardDescription>
-                Jogue sozinho e colete peixes!
-              </CardDescription>
-            </CardHeader>
-            <CardContent>
-              <Button className="w-full bg-gradient-primary hover:opacity-90" size="lg">
-                ▶️ Iniciar Jogo Solo
-              </Button>
-            </CardContent>
-          </Card>
-
-          {/* Multiplayer Game */}
-          <Card className="game-ui-card hover-scale cursor-pointer transition-transform" onClick={onStartMultiplayer}>
-            <CardHeader className="text-center">
-              <div className="text-4xl mb-2">👥</div>
-              <CardTitle className="text-primary">Multiplayer</CardTitle>
-              <CardDescription>
-                Jogue com até 5 jogadores online!
-              </CardDescription>
-            </CardHeader>
-            <CardContent>
-              <Button className="w-full bg-gradient-accent hover:opacity-90" size="lg">
-                🌐 Jogar Online
-              </Button>
-            </CardContent>
-          </Card>
-
-          {/* How to Play */}
-          <Card className="game-ui-card">
-            <CardHeader>
-              <CardTitle className="flex items-center gap-2">
-                ❓ Como Jogar
-              </CardTitle>
-            </CardHeader>
-            <CardContent className="space-y-3 text-sm">
-              <div className="flex items-start gap-2">
-                <span>🎮</span>
-                <p>Use <kbd className="px-1 py-0.5 bg-muted rounded text-xs">WASD</kbd> ou setas para mover</p>
-              </div>
-              <div className="flex items-start gap-2">
-                <span>🐟</span>
-                <p>Colete peixes para ganhar pontos</p>
-              </div>
-              <div className="flex items-start gap-2">
-                <span>⚡</span>
-                <p>Pule em plataformas para alcançar novos peixes</p>
-              </div>
-              <div className="flex items-start gap-2">
-                <span>👥</span>
-                <p>No multiplayer, trabalhe em equipe!</p>
-              </div>
-            </CardContent>
-          </Card>
-        </div>
+                </CardContent>
+              </Card>
+
+              {/* Speedrun leaderboards */}
+              <SpeedrunLeaderboard userId={user?.id} />
+            </div>
+          </TabsContent>
+
+          <TabsContent value="history">
+            <MatchHistory userId={user?.id} statsVersion={statsVersion} />
+          </TabsContent>
+        </Tabs>
       </div>
     </div>
   );
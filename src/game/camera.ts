@@ -0,0 +1,93 @@
+import { lerp } from './loop';
+import type { LevelMode } from './levels/schema';
+import type { Rect } from './types';
+
+// Viewport into a level world that can be larger than the canvas; x/y is the top-left corner in world space
+
+export type Camera = Rect;
+
+export interface CameraConfig {
+  // Box around the viewport centre the target moves in without scrolling, as fractions of the viewport
+  deadZone: { width: number; height: number };
+  // Fraction of the remaining distance covered each tick (1 snaps straight to the target)
+  smoothing: number;
+}
+
+export const DEFAULT_CAMERA_CONFIG: CameraConfig = {
+  deadZone: { width: 0.25, height: 0.35 },
+  smoothing: 0.12,
+};
+
+// Largest area shown on screen per mode; smaller worlds shrink the viewport to fit
+export const VIEWPORT_BY_MODE: Record<LevelMode, { width: number; height: number }> = {
+  solo: { width: 800, height: 600 },
+  multiplayer: { width: 800, height: 1200 },
+};
+
+type Size = { width: number; height: number };
+
+export const getViewport = (world: Size, mode: LevelMode): Size => ({
+  width: Math.min(world.width, VIEWPORT_BY_MODE[mode].width),
+  height: Math.min(world.height, VIEWPORT_BY_MODE[mode].height),
+});
+
+const clampToWorld = (camera: Camera, world: Size): Camera => ({
+  ...camera,
+  x: Math.min(Math.max(camera.x, 0), Math.max(world.width - camera.width, 0)),
+  y: Math.min(Math.max(camera.y, 0), Math.max(world.height - camera.height, 0)),
+});
+
+// Camera centred on the target, used when a level starts or the followed player changes
+export const centerCamera = (viewport: Size, target: Rect, world: Size): Camera => clampToWorld({
+  ...viewport,
+  x: target.x + target.width / 2 - viewport.width / 2,
+  y: target.y + target.height / 2 - viewport.height / 2,
+}, world);
+
+// Scrolls only once the target leaves the dead-zone, easing towards the new position
+export const followTarget = (
+  camera: Camera,
+  target: Rect,
+  world: Size,
+  config: CameraConfig = DEFAULT_CAMERA_CONFIG,
+  dt = 1
+): Camera => {
+  const zoneWidth = camera.width * config.deadZone.width;
+  const zoneHeight = camera.height * config.deadZone.height;
+  const zoneLeft = camera.x + (camera.width - zoneWidth) / 2;
+  const zoneTop = camera.y + (camera.height - zoneHeight) / 2;
+
+  let desiredX = camera.x;
+  if (target.x < zoneLeft) {
+    desiredX -= zoneLeft - target.x;
+  } else if (target.x + target.width > zoneLeft + zoneWidth) {
+    desiredX += target.x + target.width - (zoneLeft + zoneWidth);
+  }
+
+  let desiredY = camera.y;
+  if (target.y < zoneTop) {
+    desiredY -= zoneTop - target.y;
+  } else if (target.y + target.height > zoneTop + zoneHeight) {
+    desiredY += target.y + target.height - (zoneTop + zoneHeight);
+  }
+
+  const desired = clampToWorld({ ...camera, x: desiredX, y: desiredY }, world);
+  const t = 1 - Math.pow(1 - config.smoothing, dt);
+
+  return {
+    ...camera,
+    x: camera.x + (desired.x - camera.x) * t,
+    y: camera.y + (desired.y - camera.y) * t,
+  };
+};
+
+export const interpolateCamera = (previous: Camera, current: Camera, alpha: number): Camera => ({
+  ...current,
+  x: lerp(previous.x, current.x, alpha),
+  y: lerp(previous.y, current.y, alpha),
+});
+
+// Screen-space transform for drawing the world; rounded so tiles and sprites do not shimmer
+export const applyCamera = (ctx: CanvasRenderingContext2D, camera: Camera) => {
+  ctx.translate(-Math.round(camera.x), -Math.round(camera.y));
+};
@@ -0,0 +1,85 @@
+import type { Platform, Rect } from './types';
+
+// Tolerance for edges that are touching after a previous resolution
+const EPSILON = 0.01;
+
+// Collision detection
+export const checkCollision = (rect1: Rect, rect2: Rect): boolean => {
+  return rect1.x < rect2.x + rect2.width &&
+         rect1.x + rect1.width > rect2.x &&
+         rect1.y < rect2.y + rect2.height &&
+         rect1.y + rect1.height > rect2.y;
+};
+
+const overlapsVertically = (body: Rect, platform: Rect) =>
+  body.y < platform.y + platform.height && body.y + body.height > platform.y;
+
+const overlapsHorizontally = (body: Rect, platform: Rect) =>
+  body.x < platform.x + platform.width && body.x + body.width > platform.x;
+
+const isSolid = (platform: Platform) => (platform.kind ?? 'solid') === 'solid';
+
+export interface MoveResult<P extends Platform = Platform> {
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+  grounded: boolean;
+  // Platform landed on, when grounded
+  ground: P | null;
+}
+
+// Moves `body` by (dx, dy), resolving the X axis first and then the Y axis.
+// Each axis is swept from the old edge to the new one, so a fast fall cannot skip over
+// a thin platform. Solid platforms block from every side; one-way platforms only stop
+// a body that was above their top edge and is moving down.
+export const moveAndCollide = <P extends Platform>(
+  body: Rect & { vx: number; vy: number },
+  platforms: P[],
+  dx: number,
+  dy: number
+): MoveResult<P> => {
+  let { x, y, vx, vy } = body;
+  let grounded = false;
+  let ground: P | null = null;
+
+  // X axis: walls
+  if (dx !== 0) {
+    let nextX = x + dx;
+    platforms.forEach(platform => {
+      if (!isSolid(platform) || !overlapsVertically({ ...body, x, y }, platform)) return;
+
+      if (dx > 0 && x + body.width <= platform.x + EPSILON && nextX + body.width > platform.x) {
+        nextX = Math.min(nextX, platform.x - body.width);
+        vx = 0;
+      } else if (dx < 0 && x >= platform.x + platform.width - EPSILON && nextX < platform.x + platform.width) {
+        nextX = Math.max(nextX, platform.x + platform.width);
+        vx = 0;
+      }
+    });
+    x = nextX;
+  }
+
+  // Y axis: floors and ceilings
+  if (dy !== 0) {
+    let nextY = y + dy;
+    platforms.forEach(platform => {
+      if (!overlapsHorizontally({ ...body, x, y }, platform)) return;
+
+      if (dy > 0 && y + body.height <= platform.y + EPSILON && nextY + body.height > platform.y) {
+        if (platform.y - body.height <= nextY) {
+          ground = platform;
+        }
+        nextY = Math.min(nextY, platform.y - body.height);
+        vy = 0;
+        grounded = true;
+      } else if (dy < 0 && isSolid(platform) && y >= platform.y + platform.height - EPSILON && nextY < platform.y + platform.height) {
+        nextY = Math.max(nextY, platform.y + platform.height);
+        vy = 0;
+      }
+    });
+    y = nextY;
+  }
+
+  return { x, y, vx, vy, grounded, ground };
+};
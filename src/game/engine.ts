@@ -0,0 +1,119 @@
+import { moveAndCollide } from './collision';
+import { behaviorOf, getColliders, updateEntities } from './entities';
+import type { EngineInput, EngineState, Kitty, Platform, Point } from './types';
+
+export const KITTY_SIZE = 40;
+
+// Ticks of hazard immunity after a respawn (1.5 s), shown as a blinking kitty
+export const RESPAWN_INVULNERABILITY = 90;
+
+export const createKitty = (x: number, y: number): Kitty => ({
+  x,
+  y,
+  width: KITTY_SIZE,
+  height: KITTY_SIZE,
+  vx: 0,
+  vy: 0,
+  animationState: 'idle',
+  animationFrame: 0,
+  facingDirection: 'right',
+  grounded: false,
+  standingOn: null,
+  keys: [],
+  invulnerable: 0,
+});
+
+const respawn = (kitty: Kitty, point: Point): Kitty => ({
+  ...kitty,
+  x: point.x,
+  y: point.y,
+  vx: 0,
+  vy: 0,
+  grounded: false,
+  standingOn: null,
+  invulnerable: RESPAWN_INVULNERABILITY,
+});
+
+// Advances the simulation by `dt` ticks (1 tick = 1/60 s) and returns the next state.
+// The input state is never mutated, so callers can keep the previous state around.
+export const step = (state: EngineState, input: EngineInput, dt = 1): EngineState => {
+  const { physics, platforms, bounds } = state;
+  let { respawnPoint } = state;
+  let kitty: Kitty = { ...state.kitty };
+
+  // Entities move first, then carry a kitty that was standing on them
+  let entities = updateEntities(state.entities ?? [], dt);
+  const colliders: Platform[] = [...platforms, ...getColliders(entities)];
+
+  if (kitty.standingOn !== null && entities[kitty.standingOn]) {
+    const carrier = entities[kitty.standingOn];
+    const carry = behaviorOf(carrier).carry?.(carrier, dt);
+    if (carry) {
+      const others = colliders.filter(collider => !('entity' in collider) || collider.entity !== kitty.standingOn);
+      const carried = moveAndCollide(kitty, others, carry.x, 0);
+      kitty.x = carried.x;
+      kitty.y += carry.y;
+    }
+  }
+
+  // Horizontal movement and facing
+  if (input.left) {
+    kitty.vx = -physics.moveSpeed;
+    kitty.facingDirection = 'left';
+    kitty.animationState = 'walk';
+  } else if (input.right) {
+    kitty.vx = physics.moveSpeed;
+    kitty.facingDirection = 'right';
+    kitty.animationState = 'walk';
+  } else {
+    kitty.vx *= Math.pow(physics.friction, dt);
+    kitty.animationState = 'idle';
+  }
+
+  // Jump only when the last tick ended on a platform
+  if (input.jump && kitty.grounded) {
+    kitty.vy = physics.jumpForce;
+    kitty.animationState = 'jump';
+  }
+
+  kitty.vy += physics.gravity * dt;
+
+  // Platform collisions
+  const moved = moveAndCollide(kitty, colliders, kitty.vx * dt, kitty.vy * dt);
+  kitty.x = moved.x;
+  kitty.y = moved.y;
+  kitty.vx = moved.vx;
+  kitty.vy = moved.vy;
+  kitty.grounded = moved.grounded;
+  kitty.standingOn = moved.ground && 'entity' in moved.ground ? moved.ground.entity as number : null;
+
+  // Entity collision responses (springs, hazards, keys, doors, crumbling, checkpoints)
+  let hurt = false;
+  entities = entities.map((entity, index) => {
+    const interact = behaviorOf(entity).interact;
+    if (!interact) return entity;
+
+    const result = interact(entity, kitty, kitty.standingOn === index);
+    kitty = result.kitty;
+    hurt = hurt || !!result.respawn;
+    if (result.checkpoint) respawnPoint = result.checkpoint;
+    return result.entity;
+  });
+
+  // Boundary check
+  if (kitty.x < 0) kitty.x = 0;
+  if (kitty.x + kitty.width > bounds.width) {
+    kitty.x = bounds.width - kitty.width;
+  }
+  // Hazards are ignored for a moment after a respawn; falling out of the world never is
+  const respawned = kitty.y > bounds.height || (hurt && kitty.invulnerable <= 0);
+  if (respawned) {
+    kitty = respawn(kitty, respawnPoint);
+  } else if (kitty.invulnerable > 0) {
+    kitty.invulnerable = Math.max(kitty.invulnerable - dt, 0);
+  }
+
+  kitty.animationFrame += dt;
+
+  return { ...state, kitty, entities, respawnPoint, respawned };
+};
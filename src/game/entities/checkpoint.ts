@@ -0,0 +1,44 @@
+import { checkCollision } from '../collision';
+import type { Checkpoint, EntityBehavior } from './types';
+
+// Flag that becomes the respawn point the first time the kitty touches it
+export const checkpoint: EntityBehavior<Checkpoint> = {
+  create: (definition) => ({ ...definition, reached: false }),
+
+  interact: (entity, kitty) => {
+    if (entity.reached || !checkCollision(kitty, entity)) return { entity, kitty };
+
+    // Respawn standing on the flag's base, centred on the pole
+    return {
+      entity: { ...entity, reached: true },
+      kitty,
+      checkpoint: {
+        x: entity.x + entity.width / 2 - kitty.width / 2,
+        y: entity.y + entity.height - kitty.height,
+      },
+    };
+  },
+
+  draw: (ctx, entity, animationFrame) => {
+    const poleX = entity.x + entity.width / 2;
+    const flagHeight = Math.min(entity.height * 0.35, 20);
+    const wave = entity.reached ? Math.sin(animationFrame * 0.15) * 3 : 0;
+
+    ctx.save();
+    ctx.strokeStyle = '#475569';
+    ctx.lineWidth = 3;
+    ctx.beginPath();
+    ctx.moveTo(poleX, entity.y + entity.height);
+    ctx.lineTo(poleX, entity.y);
+    ctx.stroke();
+
+    ctx.fillStyle = entity.reached ? '#22c55e' : '#9ca3af';
+    ctx.beginPath();
+    ctx.moveTo(poleX, entity.y);
+    ctx.lineTo(poleX + entity.width / 2 + 8, entity.y + flagHeight / 2 + wave);
+    ctx.lineTo(poleX, entity.y + flagHeight);
+    ctx.closePath();
+    ctx.fill();
+    ctx.restore();
+  },
+};
@@ -0,0 +1,41 @@
+import type { Conveyor, EntityBehavior } from './types';
+
+// Solid belt that drags whatever stands on it along at `speed`
+export const conveyor: EntityBehavior<Conveyor> = {
+  create: (definition) => ({ ...definition }),
+
+  collider: (entity) => ({ ...entity, kind: 'solid' }),
+
+  carry: (entity, dt) => ({ x: entity.speed * dt, y: 0 }),
+
+  draw: (ctx, entity, animationFrame) => {
+    ctx.save();
+    ctx.fillStyle = '#374151';
+    ctx.fillRect(entity.x, entity.y, entity.width, entity.height);
+
+    // Chevrons scrolling in the belt direction
+    ctx.beginPath();
+    ctx.rect(entity.x, entity.y, entity.width, entity.height);
+    ctx.clip();
+    ctx.strokeStyle = '#fbbf24';
+    ctx.lineWidth = 2;
+    const spacing = 20;
+    const direction = Math.sign(entity.speed) || 1;
+    const offset = ((animationFrame * entity.speed) % spacing + spacing) % spacing;
+    const midY = entity.y + entity.height / 2;
+    for (let x = entity.x - spacing + offset; x < entity.x + entity.width + spacing; x += spacing) {
+      ctx.beginPath();
+      ctx.moveTo(x - 4 * direction, entity.y + 3);
+      ctx.lineTo(x + 2 * direction, midY);
+      ctx.lineTo(x - 4 * direction, entity.y + entity.height - 3);
+      ctx.stroke();
+    }
+    ctx.restore();
+
+    ctx.save();
+    ctx.strokeStyle = '#111827';
+    ctx.lineWidth = 2;
+    ctx.strokeRect(entity.x, entity.y, entity.width, entity.height);
+    ctx.restore();
+  },
+};
@@ -0,0 +1,59 @@
+import { drawPlatform } from '../render';
+import type { CrumblingPlatform, EntityBehavior } from './types';
+
+const DEFAULT_DELAY = 30;
+const DEFAULT_RESPAWN = 180;
+
+// Shakes for `delay` ticks once stood on, falls away, then comes back after `respawn` ticks
+export const crumblingPlatform: EntityBehavior<CrumblingPlatform> = {
+  create: (definition) => ({ ...definition, phase: 'intact', timer: 0 }),
+
+  update: (platform, dt) => {
+    if (platform.phase === 'intact') return platform;
+
+    const timer = platform.timer - dt;
+    if (timer > 0) return { ...platform, timer };
+
+    return platform.phase === 'shaking'
+      ? { ...platform, phase: 'fallen', timer: platform.respawn ?? DEFAULT_RESPAWN }
+      : { ...platform, phase: 'intact', timer: 0 };
+  },
+
+  collider: (platform) => platform.phase === 'fallen' ? null : platform,
+
+  interact: (platform, kitty, standing) => ({
+    entity: standing && platform.phase === 'intact'
+      ? { ...platform, phase: 'shaking', timer: platform.delay ?? DEFAULT_DELAY }
+      : platform,
+    kitty,
+  }),
+
+  draw: (ctx, platform, animationFrame) => {
+    if (platform.phase === 'fallen') {
+      // Outline where the platform will come back
+      ctx.save();
+      ctx.strokeStyle = 'rgba(146, 64, 14, 0.35)';
+      ctx.setLineDash([3, 5]);
+      ctx.strokeRect(platform.x, platform.y, platform.width, platform.height);
+      ctx.restore();
+      return;
+    }
+
+    const shake = platform.phase === 'shaking' ? Math.sin(animationFrame * 1.5) * 2 : 0;
+    ctx.save();
+    ctx.globalAlpha = platform.phase === 'shaking' ? 0.8 : 1;
+    drawPlatform(ctx, { ...platform, x: platform.x + shake });
+
+    // Cracks
+    ctx.strokeStyle = '#451a03';
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    for (let crackX = platform.x + 15; crackX < platform.x + platform.width - 5; crackX += 30) {
+      ctx.moveTo(crackX + shake, platform.y);
+      ctx.lineTo(crackX + 5 + shake, platform.y + platform.height / 2);
+      ctx.lineTo(crackX - 3 + shake, platform.y + platform.height);
+    }
+    ctx.stroke();
+    ctx.restore();
+  },
+};
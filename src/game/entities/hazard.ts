@@ -0,0 +1,57 @@
+import { checkCollision } from '../collision';
+import type { EntityBehavior, Hazard } from './types';
+
+// Spikes and water send the kitty back to the respawn point on touch
+export const hazard: EntityBehavior<Hazard> = {
+  create: (definition) => ({ ...definition }),
+
+  interact: (entity, kitty) => ({
+    entity,
+    kitty,
+    respawn: checkCollision(kitty, entity),
+  }),
+
+  draw: (ctx, entity, animationFrame) => {
+    ctx.save();
+
+    if (entity.variant === 'water') {
+      const gradient = ctx.createLinearGradient(0, entity.y, 0, entity.y + entity.height);
+      gradient.addColorStop(0, 'rgba(56, 189, 248, 0.85)');
+      gradient.addColorStop(1, 'rgba(3, 105, 161, 0.9)');
+      ctx.fillStyle = gradient;
+      ctx.fillRect(entity.x, entity.y, entity.width, entity.height);
+
+      // Waves
+      ctx.strokeStyle = 'rgba(255, 255, 255, 0.7)';
+      ctx.lineWidth = 2;
+      ctx.beginPath();
+      for (let x = 0; x <= entity.width; x += 4) {
+        const waveY = entity.y + 3 + Math.sin((x + animationFrame * 2) * 0.08) * 2;
+        if (x === 0) {
+          ctx.moveTo(entity.x + x, waveY);
+        } else {
+          ctx.lineTo(entity.x + x, waveY);
+        }
+      }
+      ctx.stroke();
+    } else {
+      // Row of spikes filling the rectangle
+      const spikeWidth = Math.min(entity.height, 16);
+      ctx.fillStyle = '#94a3b8';
+      ctx.strokeStyle = '#334155';
+      ctx.lineWidth = 1;
+      for (let x = entity.x; x < entity.x + entity.width - 1; x += spikeWidth) {
+        const width = Math.min(spikeWidth, entity.x + entity.width - x);
+        ctx.beginPath();
+        ctx.moveTo(x, entity.y + entity.height);
+        ctx.lineTo(x + width / 2, entity.y);
+        ctx.lineTo(x + width, entity.y + entity.height);
+        ctx.closePath();
+        ctx.fill();
+        ctx.stroke();
+      }
+    }
+
+    ctx.restore();
+  },
+};
@@ -0,0 +1,57 @@
+import { lerp } from '../loop';
+import type { Platform } from '../types';
+import { conveyor } from './conveyor';
+import { crumblingPlatform } from './crumblingPlatform';
+import { checkpoint } from './checkpoint';
+import { hazard } from './hazard';
+import { door, key } from './keys';
+import { movingPlatform } from './movingPlatform';
+import { spring } from './spring';
+import type { Entity, EntityBehavior, EntityDefinition, EntityOfType, EntityType } from './types';
+
+const BEHAVIORS: { [T in EntityType]: EntityBehavior<EntityOfType<T>> } = {
+  'moving-platform': movingPlatform,
+  'crumbling-platform': crumblingPlatform,
+  spring,
+  hazard,
+  conveyor,
+  key,
+  door,
+  checkpoint,
+};
+
+export const behaviorOf = <E extends Entity>(entity: E) =>
+  BEHAVIORS[entity.type] as unknown as EntityBehavior<E>;
+
+export const createEntities = (definitions: EntityDefinition[] = []): Entity[] =>
+  definitions.map(definition =>
+    (BEHAVIORS[definition.type] as unknown as EntityBehavior<Entity>).create(definition));
+
+export const updateEntities = (entities: Entity[], dt: number): Entity[] =>
+  entities.map(entity => behaviorOf(entity).update?.(entity, dt) ?? entity);
+
+// Entity rectangles the kitty collides with this tick, tagged with the entity index
+export interface EntityCollider extends Platform {
+  entity: number;
+}
+
+export const getColliders = (entities: Entity[]): EntityCollider[] =>
+  entities.flatMap((entity, index) => {
+    const collider = behaviorOf(entity).collider?.(entity);
+    return collider ? [{ ...collider, entity: index }] : [];
+  });
+
+// Positions between two simulation ticks, so moving platforms line up with the interpolated kitty
+export const interpolateEntities = (previous: Entity[], current: Entity[], alpha: number): Entity[] =>
+  current.map((entity, index) => {
+    const before = previous[index];
+    if (!before || (before.x === entity.x && before.y === entity.y)) return entity;
+    return { ...entity, x: lerp(before.x, entity.x, alpha), y: lerp(before.y, entity.y, alpha) };
+  });
+
+export const drawEntities = (ctx: CanvasRenderingContext2D, entities: Entity[], animationFrame: number) => {
+  entities.forEach(entity => behaviorOf(entity).draw(ctx, entity, animationFrame));
+};
+
+export type * from './types';
+export { KEY_COLORS, drawHeldKeys } from './keys';
@@ -0,0 +1,104 @@
+import { checkCollision } from '../collision';
+import type { Rect } from '../types';
+import type { Door, EntityBehavior, Key, KeyColor } from './types';
+
+export const KEY_COLORS: Record<KeyColor, string> = {
+  red: '#ef4444',
+  blue: '#3b82f6',
+  green: '#22c55e',
+  yellow: '#eab308',
+};
+
+// How far from a door the kitty can be and still unlock it, since walls stop it just short
+const DOOR_REACH = 2;
+
+const inflate = (rect: Rect, amount: number): Rect => ({
+  x: rect.x - amount,
+  y: rect.y - amount,
+  width: rect.width + amount * 2,
+  height: rect.height + amount * 2,
+});
+
+// Picked up on touch; the colour stays on the kitty for the rest of the level
+export const key: EntityBehavior<Key> = {
+  create: (definition) => ({ ...definition, collected: false }),
+
+  interact: (entity, kitty) => {
+    if (entity.collected || !checkCollision(kitty, entity)) return { entity, kitty };
+
+    return {
+      entity: { ...entity, collected: true },
+      kitty: kitty.keys.includes(entity.color) ? kitty : { ...kitty, keys: [...kitty.keys, entity.color] },
+    };
+  },
+
+  draw: (ctx, entity, animationFrame) => {
+    if (entity.collected) return;
+
+    const floatY = Math.sin(animationFrame * 0.08) * 3;
+    ctx.save();
+    ctx.shadowColor = KEY_COLORS[entity.color];
+    ctx.shadowBlur = 12;
+    ctx.fillStyle = KEY_COLORS[entity.color];
+    ctx.beginPath();
+    ctx.arc(entity.x + entity.width / 2, entity.y + entity.height / 2 + floatY, Math.min(entity.width, entity.height) / 2, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.shadowBlur = 0;
+    ctx.font = `${Math.round(entity.height * 0.7)}px Arial`;
+    ctx.textAlign = 'center';
+    ctx.fillText('🔑', entity.x + entity.width / 2, entity.y + entity.height * 0.75 + floatY);
+    ctx.restore();
+  },
+};
+
+// Solid until the kitty reaches it carrying a key of the same colour
+export const door: EntityBehavior<Door> = {
+  create: (definition) => ({ ...definition, open: false }),
+
+  collider: (entity) => entity.open ? null : { ...entity, kind: 'solid' },
+
+  interact: (entity, kitty) => {
+    if (entity.open || !kitty.keys.includes(entity.color) || !checkCollision(kitty, inflate(entity, DOOR_REACH))) {
+      return { entity, kitty };
+    }
+    return { entity: { ...entity, open: true }, kitty };
+  },
+
+  draw: (ctx, entity) => {
+    ctx.save();
+    if (entity.open) {
+      ctx.strokeStyle = KEY_COLORS[entity.color];
+      ctx.globalAlpha = 0.4;
+      ctx.setLineDash([4, 4]);
+      ctx.lineWidth = 2;
+      ctx.strokeRect(entity.x, entity.y, entity.width, entity.height);
+    } else {
+      ctx.fillStyle = KEY_COLORS[entity.color];
+      ctx.fillRect(entity.x, entity.y, entity.width, entity.height);
+      ctx.strokeStyle = '#1f2937';
+      ctx.lineWidth = 2;
+      ctx.strokeRect(entity.x, entity.y, entity.width, entity.height);
+      ctx.font = '18px Arial';
+      ctx.textAlign = 'center';
+      ctx.fillText('🔒', entity.x + entity.width / 2, entity.y + entity.height / 2 + 6);
+    }
+    ctx.restore();
+  },
+};
+
+// Keys the kitty is carrying, drawn in screen space as a row of coloured dots
+export const drawHeldKeys = (ctx: CanvasRenderingContext2D, keys: KeyColor[], x: number, y: number) => {
+  ctx.save();
+  keys.forEach((color, index) => {
+    ctx.fillStyle = KEY_COLORS[color];
+    ctx.beginPath();
+    ctx.arc(x + index * 22 + 8, y, 8, 0, Math.PI * 2);
+    ctx.fill();
+  });
+  if (keys.length > 0) {
+    ctx.font = '12px Arial';
+    ctx.textAlign = 'left';
+    ctx.fillText('🔑', x + keys.length * 22 + 2, y + 4);
+  }
+  ctx.restore();
+};
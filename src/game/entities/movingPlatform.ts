@@ -0,0 +1,79 @@
+import { drawPlatform } from '../render';
+import type { Point } from '../types';
+import type { EntityBehavior, MovingPlatform } from './types';
+
+const routeOf = (platform: MovingPlatform): Point[] => [platform.origin, ...platform.path];
+
+// Travels the route at a constant speed and turns around at both ends (ping-pong)
+export const movingPlatform: EntityBehavior<MovingPlatform> = {
+  create: (definition) => ({
+    ...definition,
+    origin: { x: definition.x, y: definition.y },
+    target: 1,
+    direction: 1,
+    dx: 0,
+    dy: 0,
+  }),
+
+  update: (platform, dt) => {
+    const route = routeOf(platform);
+    let { x, y, target, direction } = platform;
+    let remaining = platform.speed * dt;
+
+    // A fast platform can pass several waypoints in one tick
+    for (let hops = 0; remaining > 0 && hops < route.length * 2; hops++) {
+      const point = route[target];
+      const distance = Math.hypot(point.x - x, point.y - y);
+
+      if (distance > remaining) {
+        x += (point.x - x) / distance * remaining;
+        y += (point.y - y) / distance * remaining;
+        break;
+      }
+
+      x = point.x;
+      y = point.y;
+      remaining -= distance;
+      if (target + direction < 0 || target + direction >= route.length) {
+        direction = direction === 1 ? -1 : 1;
+      }
+      target += direction;
+    }
+
+    return { ...platform, x, y, target, direction, dx: x - platform.x, dy: y - platform.y };
+  },
+
+  collider: (platform) => platform,
+
+  carry: (platform) => ({ x: platform.dx, y: platform.dy }),
+
+  draw: (ctx, platform) => {
+    // Faint track so players can read where the platform goes
+    const route = routeOf(platform);
+    ctx.save();
+    ctx.strokeStyle = 'rgba(69, 26, 3, 0.3)';
+    ctx.lineWidth = 2;
+    ctx.setLineDash([4, 6]);
+    ctx.beginPath();
+    route.forEach((point, index) => {
+      const cx = point.x + platform.width / 2;
+      const cy = point.y + platform.height / 2;
+      if (index === 0) {
+        ctx.moveTo(cx, cy);
+      } else {
+        ctx.lineTo(cx, cy);
+      }
+    });
+    ctx.stroke();
+    ctx.restore();
+
+    drawPlatform(ctx, platform);
+
+    // Gear marks moving platforms apart from static ones
+    ctx.save();
+    ctx.font = '14px Arial';
+    ctx.textAlign = 'center';
+    ctx.fillText('⚙️', platform.x + platform.width / 2, platform.y + platform.height - 4);
+    ctx.restore();
+  },
+};
@@ -0,0 +1,58 @@
+import type { EntityBehavior, Spring } from './types';
+
+const DEFAULT_FORCE = -18;
+const BOUNCE_TICKS = 12;
+
+// Lands like a one-way platform and launches the kitty upwards
+export const spring: EntityBehavior<Spring> = {
+  create: (definition) => ({ ...definition, compressed: 0 }),
+
+  update: (entity, dt) => entity.compressed > 0
+    ? { ...entity, compressed: Math.max(entity.compressed - dt, 0) }
+    : entity,
+
+  collider: (entity) => ({ ...entity, kind: 'oneway' }),
+
+  interact: (entity, kitty, standing) => {
+    if (!standing) return { entity, kitty };
+
+    return {
+      entity: { ...entity, compressed: BOUNCE_TICKS },
+      kitty: {
+        ...kitty,
+        vy: entity.force ?? DEFAULT_FORCE,
+        grounded: false,
+        standingOn: null,
+        animationState: 'jump',
+      },
+    };
+  },
+
+  draw: (ctx, entity) => {
+    // Coil squashes right after a bounce
+    const squash = entity.compressed / BOUNCE_TICKS;
+    const padHeight = 6;
+    const coilTop = entity.y + padHeight + entity.height * 0.3 * squash;
+
+    ctx.save();
+    ctx.strokeStyle = '#64748b';
+    ctx.lineWidth = 3;
+    ctx.beginPath();
+    const turns = 4;
+    const coilHeight = entity.y + entity.height - coilTop;
+    for (let turn = 0; turn <= turns * 2; turn++) {
+      const x = turn % 2 === 0 ? entity.x + 4 : entity.x + entity.width - 4;
+      const y = coilTop + coilHeight * turn / (turns * 2);
+      if (turn === 0) {
+        ctx.moveTo(x, y);
+      } else {
+        ctx.lineTo(x, y);
+      }
+    }
+    ctx.stroke();
+
+    ctx.fillStyle = '#ef4444';
+    ctx.fillRect(entity.x, coilTop - padHeight, entity.width, padHeight);
+    ctx.restore();
+  },
+};
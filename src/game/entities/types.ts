@@ -0,0 +1,134 @@
+import type { Kitty, Platform, PlatformKind, Point, Rect } from '../types';
+
+// Level data for each entity type, as stored in the `entities` array of a level
+
+export type KeyColor = 'red' | 'blue' | 'green' | 'yellow';
+
+export interface MovingPlatformDefinition extends Rect {
+  type: 'moving-platform';
+  kind?: PlatformKind;
+  // Waypoints visited after the starting position (x, y), then travelled back in reverse
+  path: Point[];
+  // Pixels per tick
+  speed: number;
+}
+
+export interface CrumblingPlatformDefinition extends Rect {
+  type: 'crumbling-platform';
+  kind?: PlatformKind;
+  // Ticks between the kitty landing and the platform falling
+  delay?: number;
+  // Ticks the platform stays gone before it comes back
+  respawn?: number;
+}
+
+export interface SpringDefinition extends Rect {
+  type: 'spring';
+  // Vertical velocity given to a kitty that lands on it (negative is up)
+  force?: number;
+}
+
+export interface HazardDefinition extends Rect {
+  type: 'hazard';
+  variant: 'spikes' | 'water';
+}
+
+export interface ConveyorDefinition extends Rect {
+  type: 'conveyor';
+  // Pixels per tick the kitty is carried; negative moves left
+  speed: number;
+}
+
+export interface KeyDefinition extends Rect {
+  type: 'key';
+  color: KeyColor;
+}
+
+export interface DoorDefinition extends Rect {
+  type: 'door';
+  color: KeyColor;
+}
+
+export interface CheckpointDefinition extends Rect {
+  type: 'checkpoint';
+}
+
+export type EntityDefinition =
+  | MovingPlatformDefinition
+  | CrumblingPlatformDefinition
+  | SpringDefinition
+  | HazardDefinition
+  | ConveyorDefinition
+  | KeyDefinition
+  | DoorDefinition
+  | CheckpointDefinition;
+
+export type EntityType = EntityDefinition['type'];
+
+// Runtime state: the definition plus whatever the entity tracks while the level runs.
+// Entities are replaced, never mutated, like the rest of the engine state.
+
+export interface MovingPlatform extends MovingPlatformDefinition {
+  // Starting position from the level data; x/y is the current position
+  origin: Point;
+  // Index into the route [origin, ...path] the platform is heading to
+  target: number;
+  direction: 1 | -1;
+  // Displacement during the last tick, used to carry a kitty standing on it
+  dx: number;
+  dy: number;
+}
+
+export interface CrumblingPlatform extends CrumblingPlatformDefinition {
+  phase: 'intact' | 'shaking' | 'fallen';
+  timer: number;
+}
+
+export interface Spring extends SpringDefinition {
+  // Ticks left of the bounce animation
+  compressed: number;
+}
+
+export type Hazard = HazardDefinition;
+
+export type Conveyor = ConveyorDefinition;
+
+export interface Key extends KeyDefinition {
+  collected: boolean;
+}
+
+export interface Door extends DoorDefinition {
+  open: boolean;
+}
+
+export interface Checkpoint extends CheckpointDefinition {
+  reached: boolean;
+}
+
+export type Entity = MovingPlatform | CrumblingPlatform | Spring | Hazard | Conveyor | Key | Door | Checkpoint;
+
+export type EntityOfType<T extends EntityType> = Extract<Entity, { type: T }>;
+
+// What an entity does to a kitty that touched or stood on it during a tick
+export interface InteractionResult<E extends Entity> {
+  entity: E;
+  kitty: Kitty;
+  // Send the kitty back to the respawn point
+  respawn?: boolean;
+  // New respawn point for the rest of the level
+  checkpoint?: Point;
+}
+
+// Per-type behaviour; every hook except `create` and `draw` is optional
+export interface EntityBehavior<E extends Entity> {
+  create: (definition: EntityDefinition & { type: E['type'] }) => E;
+  // Time-based update, before the kitty moves
+  update?: (entity: E, dt: number) => E;
+  // Rectangle the kitty collides with, or null when it can be walked through right now
+  collider?: (entity: E) => Platform | null;
+  // Displacement applied to a kitty standing on the entity at the start of a tick
+  carry?: (entity: E, dt: number) => Point;
+  // Collision response after the kitty moved; `standing` is true when it landed on this entity
+  interact?: (entity: E, kitty: Kitty, standing: boolean) => InteractionResult<E>;
+  draw: (ctx: CanvasRenderingContext2D, entity: E, animationFrame: number) => void;
+}
@@ -0,0 +1,106 @@
+import { z } from 'zod';
+import { createKitty } from './engine';
+import { TICKS_PER_SECOND } from './loop';
+import type { Kitty } from './types';
+
+// A finished level as the kitty's position on every tick, raced against as a translucent "ghost".
+// Splits mark when each fish was picked up and each delivery made, so a new run can be compared
+// with the ghost at the same moments.
+
+export const GHOST_FORMAT_VERSION = 1;
+
+export type GhostSplitType = 'fish' | 'delivery';
+
+const count = z.number().int().nonnegative();
+
+const ghostSplitSchema = z.object({
+  type: z.enum(['fish', 'delivery']),
+  // Ticks since the level started
+  tick: count,
+});
+
+const ghostRunSchema = z.object({
+  version: z.literal(GHOST_FORMAT_VERSION),
+  levelId: z.string().min(1),
+  // Ticks from the level start until the scratcher took the last fish
+  ticks: count,
+  // [x, y, facing] per tick, rounded; facing is 1 for right and 0 for left
+  positions: z.array(z.number().int()).refine(positions => positions.length % 3 === 0, 'must hold (x, y, facing) triples'),
+  splits: z.array(ghostSplitSchema),
+});
+
+export type GhostSplit = z.infer<typeof ghostSplitSchema>;
+export type GhostRun = z.infer<typeof ghostRunSchema>;
+
+export const parseGhost = (data: unknown): GhostRun => {
+  const result = ghostRunSchema.safeParse(data);
+  if (!result.success) {
+    throw new Error(`Invalid ghost: ${result.error.issues.map(issue => issue.message).join(', ')}`);
+  }
+  return result.data as GhostRun;
+};
+
+export interface GhostRecorder {
+  record: (kitty: Kitty) => void;
+  split: (type: GhostSplitType) => void;
+  // Ticks recorded so far
+  ticks: () => number;
+  finish: () => GhostRun;
+}
+
+export const createGhostRecorder = (levelId: string): GhostRecorder => {
+  const positions: number[] = [];
+  const splits: GhostSplit[] = [];
+
+  return {
+    record: (kitty) => {
+      positions.push(Math.round(kitty.x), Math.round(kitty.y), kitty.facingDirection === 'right' ? 1 : 0);
+    },
+
+    // Called after `record` for the tick the split happened on
+    split: (type) => {
+      splits.push({ type, tick: positions.length / 3 });
+    },
+
+    ticks: () => positions.length / 3,
+
+    finish: () => ({
+      version: GHOST_FORMAT_VERSION,
+      levelId,
+      ticks: positions.length / 3,
+      positions: [...positions],
+      splits: [...splits],
+    }),
+  };
+};
+
+// The ghost kitty after `tick` ticks; it waits at the scratcher once its run is over
+export const ghostKittyAt = (ghost: GhostRun, tick: number): Kitty | null => {
+  const frames = ghost.positions.length / 3;
+  if (frames === 0) return null;
+
+  const index = Math.min(Math.max(tick, 1), frames) - 1;
+  const previous = Math.max(index - 1, 0);
+  const x = ghost.positions[index * 3];
+  const y = ghost.positions[index * 3 + 1];
+  const moving = x !== ghost.positions[previous * 3];
+  const airborne = y !== ghost.positions[previous * 3 + 1];
+
+  return {
+    ...createKitty(x, y),
+    facingDirection: ghost.positions[index * 3 + 2] === 1 ? 'right' : 'left',
+    animationState: airborne ? 'jump' : moving ? 'walk' : 'idle',
+    animationFrame: tick,
+  };
+};
+
+// Ticks ahead (negative) or behind (positive) the ghost at the `occurrence`-th split of a type,
+// or null when the ghost never got that far
+export const splitDelta = (ghost: GhostRun, type: GhostSplitType, occurrence: number, tick: number): number | null => {
+  const split = ghost.splits.filter(candidate => candidate.type === type)[occurrence];
+  return split ? tick - split.tick : null;
+};
+
+// "-0.42s" when ahead of the ghost, "+1.05s" when behind
+export const formatSplitDelta = (ticks: number) =>
+  `${ticks > 0 ? '+' : ticks < 0 ? '-' : '±'}${(Math.abs(ticks) / TICKS_PER_SECOND).toFixed(2)}s`;
@@ -0,0 +1,77 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import { parseGhost, type GhostRun } from './ghost';
+
+// Ghosts shared through the `level_ghosts` table, one per player and level
+
+export interface GhostPlayer {
+  userId: string;
+  playerName: string;
+}
+
+// One player's ghosts for the given levels, by level id; ghosts in an unreadable format are skipped
+export const fetchGhosts = async (userId: string, levelIds: string[]) => {
+  const { data, error } = await supabase
+    .from('level_ghosts')
+    .select('level_id, data')
+    .eq('user_id', userId)
+    .in('level_id', levelIds);
+
+  if (error) throw error;
+
+  const ghosts: Record<string, GhostRun> = {};
+  data.forEach(row => {
+    try {
+      ghosts[row.level_id] = parseGhost(row.data);
+    } catch (parseError) {
+      console.error('Error parsing ghost:', parseError);
+    }
+  });
+  return ghosts;
+};
+
+// Players with a ghost on any of the levels, fastest first
+export const fetchGhostPlayers = async (levelIds: string[]): Promise<GhostPlayer[]> => {
+  const { data, error } = await supabase
+    .from('level_ghosts')
+    .select('user_id, player_name, ticks')
+    .in('level_id', levelIds)
+    .order('ticks', { ascending: true })
+    .limit(100);
+
+  if (error) throw error;
+
+  const players = new Map<string, GhostPlayer>();
+  data.forEach(row => {
+    if (!players.has(row.user_id)) {
+      players.set(row.user_id, { userId: row.user_id, playerName: row.player_name });
+    }
+  });
+  return [...players.values()];
+};
+
+// Keeps the run as the player's ghost unless the saved one is at least as fast; resolves to whether it was kept
+export const savePersonalBest = async (userId: string, playerName: string, run: GhostRun) => {
+  const { data: existing, error } = await supabase
+    .from('level_ghosts')
+    .select('ticks')
+    .eq('user_id', userId)
+    .eq('level_id', run.levelId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (existing && existing.ticks <= run.ticks) return false;
+
+  const { error: saveError } = await supabase
+    .from('level_ghosts')
+    .upsert({
+      user_id: userId,
+      player_name: playerName,
+      level_id: run.levelId,
+      ticks: run.ticks,
+      data: run as unknown as Json,
+    }, { onConflict: 'user_id,level_id' });
+
+  if (saveError) throw saveError;
+  return true;
+};
@@ -0,0 +1,79 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+// The signed-in player's past games, and the series the profile charts are drawn from
+
+export type MatchHistoryEntry = Tables<'match_history'>;
+
+export const HISTORY_PAGE_SIZE = 10;
+// Solo games plotted in the progress charts
+const PROGRESS_GAMES = 50;
+
+export interface MatchHistoryPage {
+  entries: MatchHistoryEntry[];
+  total: number;
+}
+
+// `page` starts at 0; the view already limits rows to the signed-in player
+export const fetchMatchHistory = async (page: number): Promise<MatchHistoryPage> => {
+  const from = page * HISTORY_PAGE_SIZE;
+  const { data, count, error } = await supabase
+    .from('match_history')
+    .select('*', { count: 'exact' })
+    .order('created_at', { ascending: false })
+    .range(from, from + HISTORY_PAGE_SIZE - 1);
+
+  if (error) throw error;
+  return { entries: data, total: count ?? 0 };
+};
+
+export interface GameProgressPoint {
+  playedAt: string;
+  score: number;
+  fish: number;
+}
+
+export interface LevelTimePoint {
+  levelId: string;
+  averageTicks: number;
+  finishes: number;
+}
+
+export interface Progress {
+  // Oldest first
+  games: GameProgressPoint[];
+  levelTimes: LevelTimePoint[];
+}
+
+export const fetchProgress = async (userId: string): Promise<Progress> => {
+  const { data: games, error } = await supabase
+    .from('games')
+    .select('created_at, score, fish_collected')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(PROGRESS_GAMES);
+
+  if (error) throw error;
+
+  const { data: splits, error: splitsError } = await supabase
+    .from('level_splits')
+    .select('level_id, ticks')
+    .eq('user_id', userId);
+
+  if (splitsError) throw splitsError;
+
+  const totals = new Map<string, { ticks: number; finishes: number }>();
+  splits.forEach(split => {
+    const total = totals.get(split.level_id) ?? { ticks: 0, finishes: 0 };
+    totals.set(split.level_id, { ticks: total.ticks + split.ticks, finishes: total.finishes + 1 });
+  });
+
+  return {
+    games: games
+      .map(game => ({ playedAt: game.created_at, score: game.score, fish: game.fish_collected }))
+      .reverse(),
+    levelTimes: [...totals.entries()]
+      .map(([levelId, total]) => ({ levelId, averageTicks: total.ticks / total.finishes, finishes: total.finishes }))
+      .sort((a, b) => a.levelId.localeCompare(b.levelId)),
+  };
+};
@@ -0,0 +1,30 @@
+import { supabase } from '@/integrations/supabase/client';
+
+// The room host runs the round state machine (see rounds.ts). It starts as the room creator, can hand
+// the room over, and moves to the longest-connected player when it drops out of the room's presence.
+
+// How long the host may be missing from presence before the room moves on; a page reload or a brief
+// network drop reconnects well within it
+export const HOST_GRACE_MS = 5000;
+
+// Only the host may call it; the new host must be online in the room
+export const transferHost = async (roomId: string, newHostId: string) => {
+  const { error } = await supabase.rpc('transfer_room_host', {
+    room_id: roomId,
+    new_host_id: newHostId,
+  });
+
+  if (error) throw error;
+};
+
+// Any player may report the host gone, the host itself included when leaving; reports from others only
+// count once the host also stopped sending heartbeats. Returns the host afterwards.
+export const migrateHost = async (roomId: string, absentHostId: string): Promise<string> => {
+  const { data, error } = await supabase.rpc('migrate_room_host', {
+    room_id: roomId,
+    absent_host_id: absentHostId,
+  });
+
+  if (error) throw error;
+  return data;
+};
@@ -0,0 +1,10 @@
+import type { EngineInput } from './types';
+
+// Keys that should not scroll the page while the game has focus
+export const GAME_KEYS = ['arrowup', 'arrowdown', 'arrowleft', 'arrowright', ' ', 'w', 'a', 's', 'd'];
+
+export const readInput = (keys: Set<string>): EngineInput => ({
+  left: keys.has('a') || keys.has('arrowleft'),
+  right: keys.has('d') || keys.has('arrowright'),
+  jump: keys.has('w') || keys.has(' ') || keys.has('arrowup'),
+});
@@ -0,0 +1,92 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+// Global rankings across all players: current ones from the `global_leaderboard` snapshot, refreshed
+// every few minutes, and the frozen final standings of past seasons from `season_standings`
+
+// Ratings are a current value, ranked in the all-time period only
+export type LeaderboardMetric = 'best_score' | 'total_fish' | 'multiplayer_wins' | 'rating';
+// `season` is the season running now
+export type LeaderboardPeriod = 'all' | 'week' | 'month' | 'season';
+
+export type Season = Tables<'seasons'>;
+
+export interface LeaderboardBoard {
+  metric: LeaderboardMetric;
+  period: LeaderboardPeriod;
+  // An archived season; overrides `period`
+  seasonId?: string;
+}
+
+export interface LeaderboardEntry {
+  userId: string;
+  playerName: string;
+  value: number;
+  // Shared by tied players
+  rank: number;
+  // 1-based place in the list, unique within a board
+  position: number;
+}
+
+export interface LeaderboardPage {
+  entries: LeaderboardEntry[];
+  total: number;
+}
+
+export const LEADERBOARD_PAGE_SIZE = 20;
+
+// Both sources have the same columns
+const toEntry = (row: Pick<Tables<'season_standings'>, 'user_id' | 'player_name' | 'value' | 'rank' | 'position'>): LeaderboardEntry => ({
+  userId: row.user_id,
+  playerName: row.player_name || 'Jogador',
+  value: row.value,
+  rank: row.rank,
+  position: row.position,
+});
+
+const boardQuery = (board: LeaderboardBoard, count?: 'exact') => board.seasonId
+  ? supabase
+    .from('season_standings')
+    .select('user_id, player_name, value, rank, position', { count })
+    .eq('season_id', board.seasonId)
+    .eq('metric', board.metric)
+  : supabase
+    .from('global_leaderboard')
+    .select('user_id, player_name, value, rank, position', { count })
+    .eq('period', board.period)
+    .eq('metric', board.metric);
+
+// `page` starts at 0
+export const fetchLeaderboardPage = async (board: LeaderboardBoard, page: number): Promise<LeaderboardPage> => {
+  const from = page * LEADERBOARD_PAGE_SIZE;
+  const { data, count, error } = await boardQuery(board, 'exact')
+    .order('position', { ascending: true })
+    .range(from, from + LEADERBOARD_PAGE_SIZE - 1);
+
+  if (error) throw error;
+  return { entries: data.map(toEntry), total: count ?? 0 };
+};
+
+// The player's place on a board; null when they have no result in it
+export const fetchPlayerStanding = async (board: LeaderboardBoard, userId: string): Promise<LeaderboardEntry | null> => {
+  const { data, error } = await boardQuery(board)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data && toEntry(data);
+};
+
+export const pageOfPosition = (position: number) => Math.floor((position - 1) / LEADERBOARD_PAGE_SIZE);
+
+// Newest first, the running season included
+export const fetchSeasons = async (): Promise<Season[]> => {
+  const { data, error } = await supabase
+    .from('seasons')
+    .select('*')
+    .lte('starts_at', new Date().toISOString())
+    .order('starts_at', { ascending: false });
+
+  if (error) throw error;
+  return data;
+};
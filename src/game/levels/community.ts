@@ -0,0 +1,39 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Json, Tables } from '@/integrations/supabase/types';
+import { getLevel, parseLevel } from './loader';
+import type { LevelDefinition } from './schema';
+
+// Player-made levels shared through the `levels` table; `data` holds the JSON level format
+
+export type CommunityLevel = Tables<'levels'>;
+
+// The row id and title win over whatever the uploaded JSON says
+export const toLevelDefinition = (row: CommunityLevel): LevelDefinition => ({
+  ...parseLevel(row.data, `community level ${row.id}`),
+  id: row.id,
+  name: row.title,
+});
+
+export const toLevelData = (level: LevelDefinition) => level as unknown as Json;
+
+export const fetchCommunityLevel = async (id: string) => {
+  const { data, error } = await supabase
+    .from('levels')
+    .select('*')
+    .eq('id', id)
+    .single();
+
+  if (error) throw error;
+  return toLevelDefinition(data);
+};
+
+// Bundled levels by their id, anything else from the `levels` table; replays store either kind
+export const resolveLevel = async (id: string) => getLevel(id) ?? fetchCommunityLevel(id);
+
+// Play counts are bumped by a SECURITY DEFINER function; failing to count a play never blocks the game
+export const recordLevelPlay = async (id: string) => {
+  const { error } = await supabase.rpc('record_level_play', { level_id: id });
+  if (error) {
+    console.error('Error recording level play:', error);
+  }
+};
@@ -0,0 +1,162 @@
+import { VIEWPORT_BY_MODE } from '../camera';
+import { KITTY_SIZE } from '../engine';
+import type { EntityDefinition, EntityType } from '../entities/types';
+import type { Point, Rect } from '../types';
+import { LEVEL_FORMAT_VERSION, type LevelDefinition, type LevelMode } from './schema';
+
+// Pure helpers behind the level editor; every update returns a new LevelDefinition
+
+export type EditorObjectType = 'platform' | 'fish' | 'scratcher' | 'spawn' | 'entity';
+
+export interface EditorSelection {
+  type: EditorObjectType;
+  index: number;
+}
+
+// New levels start as a single screen; widen or heighten the world to make the camera scroll
+export const CANVAS_PRESETS: Record<LevelMode, { width: number; height: number }> = VIEWPORT_BY_MODE;
+
+export const MIN_OBJECT_SIZE = 10;
+
+export const snap = (value: number, grid: number) => grid > 0 ? Math.round(value / grid) * grid : Math.round(value);
+
+export const createEmptyLevel = (mode: LevelMode): LevelDefinition => {
+  const canvas = CANVAS_PRESETS[mode];
+  return {
+    version: LEVEL_FORMAT_VERSION,
+    id: `${mode === 'solo' ? 'solo' : 'mp'}-novo`,
+    name: 'Novo nível',
+    mode,
+    canvas,
+    platforms: [{ x: 0, y: canvas.height - 20, width: canvas.width, height: 20 }],
+    fishes: [{ x: canvas.width / 2, y: canvas.height - 100, width: 25, height: 20 }],
+    scratcher: { x: canvas.width - 100, y: canvas.height - 70, width: 60, height: 50 },
+    spawnPoints: [{ x: 50, y: canvas.height - 20 - KITTY_SIZE }],
+    timeLimit: mode === 'solo' ? 90 : 60,
+  };
+};
+
+// Defaults for an entity placed with the editor tool; (x, y) is its top-left corner
+export const createEntityDefinition = (type: EntityType, x: number, y: number): EntityDefinition => {
+  switch (type) {
+    case 'moving-platform':
+      return { type, x, y, width: 100, height: 20, path: [{ x: x + 150, y }], speed: 1.5 };
+    case 'crumbling-platform':
+      return { type, x, y, width: 80, height: 20 };
+    case 'spring':
+      return { type, x, y, width: 30, height: 15 };
+    case 'hazard':
+      return { type, x, y, width: 60, height: 20, variant: 'spikes' };
+    case 'conveyor':
+      return { type, x, y, width: 120, height: 20, speed: 2 };
+    case 'key':
+      return { type, x, y, width: 20, height: 20, color: 'red' };
+    case 'door':
+      return { type, x, y, width: 20, height: 80, color: 'red' };
+    case 'checkpoint':
+      return { type, x, y, width: 30, height: 60 };
+  }
+};
+
+// Spawn points are drawn and dragged as a kitty-sized box
+const spawnRect = (spawn: Point): Rect => ({ ...spawn, width: KITTY_SIZE, height: KITTY_SIZE });
+
+export const getObjectRect = (level: LevelDefinition, selection: EditorSelection): Rect | undefined => {
+  switch (selection.type) {
+    case 'platform':
+      return level.platforms[selection.index];
+    case 'fish':
+      return level.fishes[selection.index];
+    case 'scratcher':
+      return level.scratcher;
+    case 'spawn': {
+      const spawn = level.spawnPoints[selection.index];
+      return spawn && spawnRect(spawn);
+    }
+    case 'entity':
+      return level.entities?.[selection.index];
+  }
+};
+
+export const isResizable = (selection: EditorSelection) => selection.type !== 'spawn';
+
+export const updateObject = (level: LevelDefinition, selection: EditorSelection, rect: Rect): LevelDefinition => {
+  const replaceAt = <T>(items: T[], value: T) =>
+    items.map((item, index) => index === selection.index ? value : item);
+
+  switch (selection.type) {
+    case 'platform':
+      return { ...level, platforms: replaceAt(level.platforms, { ...level.platforms[selection.index], ...rect }) };
+    case 'fish':
+      return { ...level, fishes: replaceAt(level.fishes, rect) };
+    case 'scratcher':
+      return { ...level, scratcher: rect };
+    case 'spawn':
+      return { ...level, spawnPoints: replaceAt(level.spawnPoints, { x: rect.x, y: rect.y }) };
+    case 'entity': {
+      const entity = level.entities[selection.index];
+      // Moving platforms carry their waypoints along when dragged
+      const moved: EntityDefinition = entity.type === 'moving-platform'
+        ? { ...entity, ...rect, path: entity.path.map(point => ({ x: point.x + rect.x - entity.x, y: point.y + rect.y - entity.y })) }
+        : { ...entity, ...rect };
+      return { ...level, entities: replaceAt(level.entities, moved) };
+    }
+  }
+};
+
+// Replaces an entity's type-specific properties, keeping its rectangle
+export const updateEntity = (level: LevelDefinition, index: number, entity: EntityDefinition): LevelDefinition => ({
+  ...level,
+  entities: (level.entities ?? []).map((item, itemIndex) => itemIndex === index ? entity : item),
+});
+
+// The scratcher is mandatory and a level keeps at least one spawn point
+export const canRemove = (level: LevelDefinition, selection: EditorSelection) =>
+  selection.type === 'platform' || selection.type === 'fish' || selection.type === 'entity' ||
+  (selection.type === 'spawn' && level.spawnPoints.length > 1);
+
+export const removeObject = (level: LevelDefinition, selection: EditorSelection): LevelDefinition => {
+  const without = <T>(items: T[]) => items.filter((_, index) => index !== selection.index);
+
+  switch (selection.type) {
+    case 'platform':
+      return { ...level, platforms: without(level.platforms) };
+    case 'fish':
+      return { ...level, fishes: without(level.fishes) };
+    case 'entity':
+      return { ...level, entities: without(level.entities ?? []) };
+    case 'spawn':
+      return canRemove(level, selection) ? { ...level, spawnPoints: without(level.spawnPoints) } : level;
+    default:
+      return level;
+  }
+};
+
+const contains = (rect: Rect, point: Point) =>
+  point.x >= rect.x && point.x <= rect.x + rect.width &&
+  point.y >= rect.y && point.y <= rect.y + rect.height;
+
+// Topmost object under the point, in the same order the editor draws them (last drawn wins)
+export const hitTest = (level: LevelDefinition, point: Point): EditorSelection | null => {
+  for (let index = level.spawnPoints.length - 1; index >= 0; index--) {
+    if (contains(spawnRect(level.spawnPoints[index]), point)) return { type: 'spawn', index };
+  }
+  for (let index = level.fishes.length - 1; index >= 0; index--) {
+    if (contains(level.fishes[index], point)) return { type: 'fish', index };
+  }
+  if (contains(level.scratcher, point)) return { type: 'scratcher', index: 0 };
+  const entities = level.entities ?? [];
+  for (let index = entities.length - 1; index >= 0; index--) {
+    if (contains(entities[index], point)) return { type: 'entity', index };
+  }
+  for (let index = level.platforms.length - 1; index >= 0; index--) {
+    if (contains(level.platforms[index], point)) return { type: 'platform', index };
+  }
+  return null;
+};
+
+export const RESIZE_HANDLE_SIZE = 10;
+
+export const isOnResizeHandle = (rect: Rect, point: Point) =>
+  Math.abs(point.x - (rect.x + rect.width)) <= RESIZE_HANDLE_SIZE &&
+  Math.abs(point.y - (rect.y + rect.height)) <= RESIZE_HANDLE_SIZE;
@@ -0,0 +1,17 @@
+import type { LevelDefinition, LevelMode } from './schema';
+import { parseLevel } from './parse';
+
+export { LevelValidationError, parseLevel, validateLevel } from './parse';
+
+// Levels shipped with the game, ordered by file name inside each mode folder
+const bundledFiles = import.meta.glob<unknown>('./data/*/*.json', { eager: true, import: 'default' });
+
+const bundledLevels = Object.keys(bundledFiles)
+  .sort()
+  .map(path => parseLevel(bundledFiles[path], path));
+
+export const getLevels = (mode: LevelMode): LevelDefinition[] =>
+  bundledLevels.filter(level => level.mode === mode);
+
+export const getLevel = (id: string): LevelDefinition | undefined =>
+  bundledLevels.find(level => level.id === id);
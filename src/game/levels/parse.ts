@@ -0,0 +1,32 @@
+import type { ZodIssue } from 'zod';
+import { levelSchema, type LevelDefinition } from './schema';
+
+// Level JSON validation without the bundled levels, so it also runs outside Vite
+
+export class LevelValidationError extends Error {
+  constructor(public readonly source: string, public readonly issues: string[]) {
+    super(`Invalid level ${source}:\n${issues.map(issue => `  - ${issue}`).join('\n')}`);
+    this.name = 'LevelValidationError';
+  }
+}
+
+// "platforms[2].width: Expected number, received string"
+const formatIssue = (issue: ZodIssue) => {
+  const path = issue.path.reduce<string>((acc, part) =>
+    typeof part === 'number' ? `${acc}[${part}]` : acc ? `${acc}.${part}` : String(part), '');
+  return path ? `${path}: ${issue.message}` : issue.message;
+};
+
+// Returns a readable list of problems, empty when the level is valid
+export const validateLevel = (data: unknown): string[] => {
+  const result = levelSchema.safeParse(data);
+  return result.success ? [] : result.error.issues.map(formatIssue);
+};
+
+export const parseLevel = (data: unknown, source = 'level'): LevelDefinition => {
+  const result = levelSchema.safeParse(data);
+  if (!result.success) {
+    throw new LevelValidationError(source, result.error.issues.map(formatIssue));
+  }
+  return result.data as LevelDefinition;
+};
@@ -0,0 +1,146 @@
+import { z } from 'zod';
+import type { EntityDefinition } from '../entities/types';
+import type { Platform, Point, Rect } from '../types';
+
+export const LEVEL_FORMAT_VERSION = 1;
+
+const finite = z.number().finite();
+const size = z.number().finite().positive();
+
+const pointSchema = z.object({
+  x: finite,
+  y: finite,
+});
+
+const rectSchema = z.object({
+  x: finite,
+  y: finite,
+  width: size,
+  height: size,
+});
+
+const platformSchema = rectSchema.extend({
+  kind: z.enum(['solid', 'oneway']).optional(),
+});
+
+const keyColorSchema = z.enum(['red', 'blue', 'green', 'yellow']);
+
+const entitySchema = z.discriminatedUnion('type', [
+  platformSchema.extend({
+    type: z.literal('moving-platform'),
+    path: z.array(pointSchema).min(1, 'a moving platform needs at least one waypoint'),
+    speed: size,
+  }),
+  platformSchema.extend({
+    type: z.literal('crumbling-platform'),
+    delay: z.number().int().positive().optional(),
+    respawn: z.number().int().positive().optional(),
+  }),
+  rectSchema.extend({
+    type: z.literal('spring'),
+    force: z.number().finite().negative().optional(),
+  }),
+  rectSchema.extend({
+    type: z.literal('hazard'),
+    variant: z.enum(['spikes', 'water']),
+  }),
+  rectSchema.extend({
+    type: z.literal('conveyor'),
+    speed: finite,
+  }),
+  rectSchema.extend({
+    type: z.literal('key'),
+    color: keyColorSchema,
+  }),
+  rectSchema.extend({
+    type: z.literal('door'),
+    color: keyColorSchema,
+  }),
+  rectSchema.extend({
+    type: z.literal('checkpoint'),
+  }),
+]);
+
+export type LevelMode = 'solo' | 'multiplayer';
+
+export interface LevelDefinition {
+  version: typeof LEVEL_FORMAT_VERSION;
+  id: string;
+  name: string;
+  mode: LevelMode;
+  canvas: { width: number; height: number };
+  platforms: Platform[];
+  fishes: Rect[];
+  scratcher: Rect;
+  spawnPoints: Point[];
+  // Moving platforms, hazards, springs, conveyors, keys and doors
+  entities?: EntityDefinition[];
+  // Seconds put on the clock when the level starts (solo adds it to the time left over)
+  timeLimit: number;
+  // Target completion time in seconds, for display only
+  parTime?: number;
+}
+
+// Parsed data is typed as LevelDefinition by the loader: the inferred zod type marks
+// every key optional when strictNullChecks is off
+export const levelSchema = z.object({
+  version: z.literal(LEVEL_FORMAT_VERSION),
+  id: z.string().min(1),
+  name: z.string().min(1),
+  mode: z.enum(['solo', 'multiplayer']),
+  canvas: z.object({
+    width: size,
+    height: size,
+  }),
+  platforms: z.array(platformSchema),
+  fishes: z.array(rectSchema).min(1, 'a level needs at least one fish'),
+  scratcher: rectSchema,
+  spawnPoints: z.array(pointSchema).min(1, 'a level needs at least one spawn point'),
+  entities: z.array(entitySchema).optional(),
+  timeLimit: z.number().int().positive(),
+  parTime: z.number().int().positive().optional(),
+}).superRefine((data, ctx) => {
+  const level = data as LevelDefinition;
+  const { width, height } = level.canvas;
+  const outside = (rect: { x: number; y: number; width?: number; height?: number }) =>
+    rect.x < 0 || rect.y < 0 ||
+    rect.x + (rect.width ?? 0) > width ||
+    rect.y + (rect.height ?? 0) > height;
+
+  level.platforms.forEach((platform, index) => {
+    if (outside(platform)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['platforms', index], message: 'is outside the canvas' });
+    }
+  });
+  level.fishes.forEach((fish, index) => {
+    if (outside(fish)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['fishes', index], message: 'is outside the canvas' });
+    }
+  });
+  level.spawnPoints.forEach((spawn, index) => {
+    if (outside(spawn)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['spawnPoints', index], message: 'is outside the canvas' });
+    }
+  });
+  (level.entities ?? []).forEach((entity, index) => {
+    if (outside(entity)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['entities', index], message: 'is outside the canvas' });
+    }
+    if (entity.type === 'moving-platform') {
+      entity.path.forEach((point, pointIndex) => {
+        if (outside({ ...point, width: entity.width, height: entity.height })) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['entities', index, 'path', pointIndex], message: 'is outside the canvas' });
+        }
+      });
+    }
+    if (entity.type === 'door' && !level.entities.some(other => other.type === 'key' && other.color === entity.color)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['entities', index], message: `has no ${entity.color} key` });
+    }
+  });
+  if (outside(level.scratcher)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['scratcher'], message: 'is outside the canvas' });
+  }
+  if (level.parTime !== undefined && level.parTime > level.timeLimit) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['parTime'], message: 'must not exceed timeLimit' });
+  }
+});
@@ -0,0 +1,57 @@
+import type { Kitty } from './types';
+
+export const TICKS_PER_SECOND = 60;
+export const TICK_MS = 1000 / TICKS_PER_SECOND;
+
+// Longest frame we try to catch up on; anything longer (tab switch, debugger pause)
+// is dropped instead of being simulated as a burst of ticks
+const MAX_FRAME_MS = 250;
+
+interface FixedStepLoopOptions {
+  update: () => void;
+  render: (alpha: number) => void;
+}
+
+// Runs `update` at a fixed 60 Hz regardless of the display refresh rate and calls
+// `render` once per animation frame with the fraction of a tick left in the accumulator.
+// Returns a function that stops the loop.
+export const startFixedStepLoop = ({ update, render }: FixedStepLoopOptions): (() => void) => {
+  let frameId = 0;
+  let lastTime: number | null = null;
+  let accumulator = 0;
+
+  const frame = (now: number) => {
+    if (lastTime !== null) {
+      accumulator += Math.min(now - lastTime, MAX_FRAME_MS);
+    }
+    lastTime = now;
+
+    while (accumulator >= TICK_MS) {
+      update();
+      accumulator -= TICK_MS;
+    }
+
+    render(accumulator / TICK_MS);
+    frameId = requestAnimationFrame(frame);
+  };
+
+  frameId = requestAnimationFrame(frame);
+  return () => cancelAnimationFrame(frameId);
+};
+
+export const lerp = (from: number, to: number, alpha: number) => from + (to - from) * alpha;
+
+// Position of the kitty between two simulation ticks, for drawing only
+export const interpolateKitty = (previous: Kitty, current: Kitty, alpha: number): Kitty => ({
+  ...current,
+  x: lerp(previous.x, current.x, alpha),
+  y: lerp(previous.y, current.y, alpha),
+});
+
+// Tick count as a run clock, "1:05.25"
+export const formatTicks = (ticks: number) => {
+  const totalSeconds = ticks / TICKS_PER_SECOND;
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = (totalSeconds - minutes * 60).toFixed(2).padStart(5, '0');
+  return `${minutes}:${seconds}`;
+};
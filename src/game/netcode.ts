@@ -0,0 +1,128 @@
+import { z } from 'zod';
+import { createKitty } from './engine';
+import { TICK_MS, lerp } from './loop';
+import type { Kitty } from './types';
+
+// Live multiplayer state sent between the players of a room over a Realtime broadcast channel. It
+// changes every tick, so it never touches the database; only durable facts such as the fish delivered
+// and who is in the room are written to `room_players`.
+
+export const PLAYER_STATE_EVENT = 'player-state';
+
+// States sent per second by each player; the simulation itself runs at 60 ticks per second
+export const PLAYER_STATE_RATE = 20;
+
+// Remote kitties are drawn this far in the past, so there is usually a newer state to move towards
+// even when a couple of states arrive late
+const INTERPOLATION_DELAY_MS = 2.5 * (1000 / PLAYER_STATE_RATE);
+// Once states stop arriving, kitties keep moving with their last velocity for at most this long
+const MAX_EXTRAPOLATION_MS = 250;
+// A second of states is plenty to interpolate through
+const BUFFER_SIZE = PLAYER_STATE_RATE;
+// Farther apart than this, two states are a respawn and the kitty jumps instead of sliding
+const TELEPORT_DISTANCE = 200;
+
+export const roomStateChannel = (roomId: string) => `room-state-${roomId}`;
+
+// Each player sends its states on a private channel of its own that only it may send on (see the
+// realtime.messages policies), so the channel, not the payload, says whose kitty a state moves
+export const playerStateChannel = (roomId: string, userId: string) => `player-state:${roomId}:${userId}`;
+
+const coordinate = z.number().finite();
+
+const playerStateSchema = z.object({
+  userId: z.string().min(1),
+  x: coordinate,
+  y: coordinate,
+  vx: coordinate,
+  vy: coordinate,
+  facing: z.enum(['left', 'right']),
+  animationState: z.enum(['idle', 'walk', 'jump']),
+  // Index of the level fish the player carries
+  carriedFish: z.number().int().nonnegative().nullable(),
+  // Sender's clock in milliseconds, to order states that arrive out of order
+  sentAt: z.number(),
+});
+
+export type PlayerState = z.infer<typeof playerStateSchema>;
+
+export const toPlayerState = (userId: string, kitty: Kitty, carriedFish: number | null): PlayerState => ({
+  userId,
+  x: kitty.x,
+  y: kitty.y,
+  vx: kitty.vx,
+  vy: kitty.vy,
+  facing: kitty.facingDirection,
+  animationState: kitty.animationState,
+  carriedFish,
+  sentAt: Date.now(),
+});
+
+// Payloads come straight from other clients; malformed ones, and ones claiming to be from someone
+// other than the channel's player, are dropped
+export const parsePlayerState = (data: unknown, senderId: string): PlayerState | null => {
+  const result = playerStateSchema.safeParse(data);
+  return result.success && result.data.userId === senderId ? result.data as PlayerState : null;
+};
+
+// States received from one player, oldest first
+export interface SnapshotBuffer {
+  snapshots: PlayerState[];
+  // Smallest receive time minus send time seen: the sender's clock skew plus the fastest delivery.
+  // Scheduling by it turns latency into a fixed delay, leaving only the jitter to absorb.
+  clockOffset: number;
+}
+
+export const createSnapshotBuffer = (): SnapshotBuffer => ({ snapshots: [], clockOffset: Infinity });
+
+export const addSnapshot = (buffer: SnapshotBuffer, state: PlayerState, receivedAt: number): SnapshotBuffer => {
+  if (buffer.snapshots.some(snapshot => snapshot.sentAt === state.sentAt)) return buffer;
+
+  const snapshots = [...buffer.snapshots, state]
+    .sort((a, b) => a.sentAt - b.sentAt)
+    .slice(-BUFFER_SIZE);
+  return { snapshots, clockOffset: Math.min(buffer.clockOffset, receivedAt - state.sentAt) };
+};
+
+export const latestSnapshot = (buffer: SnapshotBuffer): PlayerState | null =>
+  buffer.snapshots[buffer.snapshots.length - 1] ?? null;
+
+const kittyFromState = (state: PlayerState, x: number, y: number, animationFrame: number): Kitty => ({
+  ...createKitty(x, y),
+  vx: state.vx,
+  vy: state.vy,
+  facingDirection: state.facing,
+  animationState: state.animationState,
+  animationFrame,
+});
+
+// Where to draw a remote kitty at local time `now`: between the two states around the delayed
+// render time, or moved on from the newest state when none is newer yet. Null before any state arrived.
+export const remoteKittyAt = (buffer: SnapshotBuffer, now: number, animationFrame: number): Kitty | null => {
+  const { snapshots } = buffer;
+  if (snapshots.length === 0) return null;
+
+  const renderTime = now - buffer.clockOffset - INTERPOLATION_DELAY_MS;
+  const nextIndex = snapshots.findIndex(snapshot => snapshot.sentAt > renderTime);
+
+  // Older than everything buffered
+  if (nextIndex === 0) {
+    return kittyFromState(snapshots[0], snapshots[0].x, snapshots[0].y, animationFrame);
+  }
+
+  // Newer than everything buffered; velocities are in pixels per tick
+  if (nextIndex === -1) {
+    const last = snapshots[snapshots.length - 1];
+    const ticks = Math.min(renderTime - last.sentAt, MAX_EXTRAPOLATION_MS) / TICK_MS;
+    return kittyFromState(last, last.x + last.vx * ticks, last.y + last.vy * ticks, animationFrame);
+  }
+
+  const from = snapshots[nextIndex - 1];
+  const to = snapshots[nextIndex];
+  if (Math.hypot(to.x - from.x, to.y - from.y) > TELEPORT_DISTANCE) {
+    return kittyFromState(from, from.x, from.y, animationFrame);
+  }
+
+  const alpha = (renderTime - from.sentAt) / (to.sentAt - from.sentAt);
+  return kittyFromState(from, lerp(from.x, to.x, alpha), lerp(from.y, to.y, alpha), animationFrame);
+};
@@ -0,0 +1,23 @@
+import type { PhysicsProfile } from './types';
+import type { LevelMode } from './levels/schema';
+
+// Solo levels fit an 800x600 canvas
+export const SOLO_PHYSICS: PhysicsProfile = {
+  gravity: 0.5,
+  jumpForce: -12,
+  moveSpeed: 5,
+  friction: 0.8,
+};
+
+// Multiplayer levels are 800x1200 towers, so the kitty falls and jumps harder
+export const MULTIPLAYER_PHYSICS: PhysicsProfile = {
+  gravity: 0.8,
+  jumpForce: -15,
+  moveSpeed: 6,
+  friction: 0.8,
+};
+
+export const PHYSICS_BY_MODE: Record<LevelMode, PhysicsProfile> = {
+  solo: SOLO_PHYSICS,
+  multiplayer: MULTIPLAYER_PHYSICS,
+};
@@ -0,0 +1,86 @@
+import type { LevelDefinition } from './levels/schema';
+import { decodeInput, expandInputs, type Replay } from './replay';
+import { createSoloLevel, stepSoloLevel, type SoloLevelState } from './solo';
+
+// Random access into a recorded run by re-simulating it. States are kept every KEYFRAME_INTERVAL ticks,
+// so seeking backwards never replays more than a few seconds of inputs.
+
+const KEYFRAME_INTERVAL = 300;
+
+export interface PlaybackFrame {
+  // Index into replay.segments
+  segment: number;
+  level: LevelDefinition;
+  // State after the tick, and the one before it for interpolation
+  state: SoloLevelState;
+  previous: SoloLevelState;
+}
+
+export interface ReplayPlayback {
+  totalTicks: number;
+  // Global tick at which each segment starts
+  segmentStarts: number[];
+  frameAt: (tick: number) => PlaybackFrame;
+}
+
+interface PlaybackSegment {
+  level: LevelDefinition;
+  inputs: number[];
+  keyframes: SoloLevelState[];
+}
+
+// `levels[i]` is the level played in `replay.segments[i]`
+export const createReplayPlayback = (replay: Replay, levels: LevelDefinition[]): ReplayPlayback => {
+  const segments: PlaybackSegment[] = replay.segments.map((segment, index) => ({
+    level: levels[index],
+    inputs: expandInputs(segment),
+    keyframes: [createSoloLevel(levels[index], { score: segment.score, fishCount: segment.fishCount })],
+  }));
+
+  const segmentStarts: number[] = [];
+  let totalTicks = 0;
+  segments.forEach(segment => {
+    segmentStarts.push(totalTicks);
+    totalTicks += segment.inputs.length;
+  });
+
+  // Last state computed, so playing forward costs one step per tick
+  let cursor: { segment: number; tick: number; state: SoloLevelState } | null = null;
+
+  // State after `tick` ticks of a segment
+  const stateAt = (segmentIndex: number, tick: number): SoloLevelState => {
+    const segment = segments[segmentIndex];
+    let from = Math.min(Math.floor(tick / KEYFRAME_INTERVAL), segment.keyframes.length - 1) * KEYFRAME_INTERVAL;
+    let state = segment.keyframes[from / KEYFRAME_INTERVAL];
+
+    if (cursor && cursor.segment === segmentIndex && cursor.tick <= tick && cursor.tick > from) {
+      from = cursor.tick;
+      state = cursor.state;
+    }
+
+    for (let current = from; current < tick; current++) {
+      state = stepSoloLevel(state, decodeInput(segment.inputs[current])).state;
+      if ((current + 1) % KEYFRAME_INTERVAL === 0 && segment.keyframes.length === (current + 1) / KEYFRAME_INTERVAL) {
+        segment.keyframes.push(state);
+      }
+    }
+
+    cursor = { segment: segmentIndex, tick, state };
+    return state;
+  };
+
+  const frameAt = (globalTick: number): PlaybackFrame => {
+    const tick = Math.min(Math.max(Math.round(globalTick), 0), totalTicks);
+    let segment = segments.length - 1;
+    while (segment > 0 && segmentStarts[segment] > tick) segment--;
+    // A tick on a boundary shows the end of the previous segment only at the very end of the run
+    while (segment < segments.length - 1 && segmentStarts[segment + 1] <= tick) segment++;
+
+    const local = tick - segmentStarts[segment];
+    const previous = local > 0 ? stateAt(segment, local - 1) : segments[segment].keyframes[0];
+    const state = local > 0 ? stateAt(segment, local) : previous;
+    return { segment, level: segments[segment].level, state, previous };
+  };
+
+  return { totalTicks, segmentStarts, frameAt };
+};
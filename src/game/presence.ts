@@ -0,0 +1,26 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+// Who is in a multiplayer room. Realtime Presence says who is connected right now; a heartbeat keeps
+// the durable `room_players.is_online` flag, and the database sweeps players whose heartbeats stopped
+// offline, so closed tabs and lost networks do not keep a place in the room.
+
+// Well under the 30 seconds of silence after which the database sweeps a player offline
+export const HEARTBEAT_MS = 10000;
+
+type RoomPlayer = Tables<'room_players'>;
+
+// Also brings the player back online after a reconnect
+export const sendHeartbeat = async (roomId: string) => {
+  const { error } = await supabase.rpc('room_heartbeat', { room_id: roomId });
+  if (error) throw error;
+};
+
+export const sweepStaleRooms = async () => {
+  const { error } = await supabase.rpc('sweep_stale_rooms');
+  if (error) throw error;
+};
+
+// Heartbeats only move `last_seen_at`; nobody needs to reload the players for them
+export const isHeartbeatOnly = (previous: Partial<RoomPlayer>, next: Partial<RoomPlayer>) =>
+  Object.keys(next).every(key => key === 'last_seen_at' || previous[key as keyof RoomPlayer] === next[key as keyof RoomPlayer]);
@@ -0,0 +1,71 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+// Public player profiles: the `profiles` row created on signup and the global stats published with it
+
+export type Profile = Tables<'profiles'>;
+export type ProfileStats = Tables<'profile_stats'>;
+
+export const BIO_MAX_LENGTH = 280;
+
+// `ilike` without wildcards is a case-insensitive equality
+const escapeLike = (value: string) => value.replace(/[\\%_]/g, match => `\\${match}`);
+
+export const profilePath = (nickname: string) => `/u/${encodeURIComponent(nickname)}`;
+
+// Nicknames are unique regardless of case, so any casing finds the player
+export const fetchProfileStats = async (nickname: string): Promise<ProfileStats | null> => {
+  const { data, error } = await supabase
+    .from('profile_stats')
+    .select('*')
+    .ilike('nickname', escapeLike(nickname))
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
+
+// Accounts created moments ago may not have their profile yet
+export const fetchProfile = async (userId: string): Promise<Profile | null> => {
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('*')
+    .eq('id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
+
+// Nicknames keyed by user id
+export const fetchNicknames = async (userIds: string[]): Promise<Map<string, string>> => {
+  if (userIds.length === 0) return new Map();
+
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('id, nickname')
+    .in('id', userIds);
+
+  if (error) throw error;
+  return new Map(data.map(profile => [profile.id, profile.nickname]));
+};
+
+export const isNicknameTaken = async (nickname: string): Promise<boolean> => {
+  const { count, error } = await supabase
+    .from('profiles')
+    .select('id', { count: 'exact', head: true })
+    .ilike('nickname', escapeLike(nickname));
+
+  if (error) throw error;
+  return (count ?? 0) > 0;
+};
+
+// Only the avatar and bio can change after signup
+export const updateProfile = async (userId: string, changes: Pick<Profile, 'avatar_url' | 'bio'>) => {
+  const { error } = await supabase
+    .from('profiles')
+    .update(changes)
+    .eq('id', userId);
+
+  if (error) throw error;
+};
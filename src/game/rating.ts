@@ -0,0 +1,67 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+// Multiplayer skill ratings, computed by the database when the room host moves a match into its results
+
+export type PlayerRating = Tables<'player_ratings'>;
+export type RatingChange = Tables<'rating_history'>;
+
+// Rating of players who have not finished a rated match yet
+export const DEFAULT_RATING = 1200;
+
+// Keyed by user id; unrated players are missing
+export const fetchRatings = async (userIds: string[]): Promise<Map<string, PlayerRating>> => {
+  if (userIds.length === 0) return new Map();
+
+  const { data, error } = await supabase
+    .from('player_ratings')
+    .select('*')
+    .in('user_id', userIds);
+
+  if (error) throw error;
+  return new Map(data.map(rating => [rating.user_id, rating]));
+};
+
+// Newest first
+export const fetchRatingHistory = async (userId: string, limit = 5): Promise<RatingChange[]> => {
+  const { data, error } = await supabase
+    .from('rating_history')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+  return data;
+};
+
+// The player's change in one match; null when the match was not rated or they had no rounds in it
+export const fetchMatchRatingChange = async (matchId: string, userId: string): Promise<RatingChange | null> => {
+  const { data, error } = await supabase
+    .from('rating_history')
+    .select('*')
+    .eq('match_id', matchId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
+
+// The player's change in the match a room started at `startedAt`; null when it is not rated yet
+export const fetchRoomMatchRatingChange = async (roomId: string, startedAt: string, userId: string): Promise<RatingChange | null> => {
+  const { data: match, error } = await supabase
+    .from('multiplayer_matches')
+    .select('id')
+    .eq('room_id', roomId)
+    .eq('started_at', startedAt)
+    .maybeSingle();
+
+  if (error) throw error;
+  return match && fetchMatchRatingChange(match.id, userId);
+};
+
+export const formatRatingDelta = (change: RatingChange) => {
+  const delta = change.rating_after - change.rating_before;
+  return delta >= 0 ? `+${delta}` : `${delta}`;
+};
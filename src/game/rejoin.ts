@@ -0,0 +1,63 @@
+import { z } from 'zod';
+
+// The local player's place in the running multiplayer round, saved to localStorage so that coming back
+// after a reload or a dropped connection puts the kitty where it was, carried fish included, instead of
+// at the spawn point.
+
+const ROUND_SNAPSHOT_VERSION = 1;
+
+// Often enough to lose at most a second of movement
+export const ROUND_SNAPSHOT_INTERVAL_MS = 1000;
+
+const coordinate = z.number().finite();
+
+const roundSnapshotSchema = z.object({
+  version: z.literal(ROUND_SNAPSHOT_VERSION),
+  roomId: z.string().min(1),
+  // `round:seed` of the round it was saved in
+  roundKey: z.string().min(1),
+  x: coordinate,
+  y: coordinate,
+  facing: z.enum(['left', 'right']),
+  // Checkpoint reached so far
+  respawnX: coordinate,
+  respawnY: coordinate,
+  carriedFish: z.number().int().nonnegative().nullable(),
+  savedAt: z.number(),
+});
+
+export type RoundSnapshot = z.infer<typeof roundSnapshotSchema>;
+
+const storageKey = (userId: string) => `theoness:multiplayer-round:${userId}`;
+
+export const saveRoundSnapshot = (userId: string, snapshot: Omit<RoundSnapshot, 'version' | 'savedAt'>) => {
+  try {
+    const stored: RoundSnapshot = { ...snapshot, version: ROUND_SNAPSHOT_VERSION, savedAt: Date.now() } as RoundSnapshot;
+    localStorage.setItem(storageKey(userId), JSON.stringify(stored));
+  } catch (error) {
+    console.error('Error saving round snapshot:', error);
+  }
+};
+
+// Only a snapshot of this very round counts; anything else is treated as none
+export const loadRoundSnapshot = (userId: string, roomId: string, roundKey: string): RoundSnapshot | null => {
+  try {
+    const stored = localStorage.getItem(storageKey(userId));
+    if (!stored) return null;
+
+    const result = roundSnapshotSchema.safeParse(JSON.parse(stored));
+    if (!result.success || result.data.roomId !== roomId || result.data.roundKey !== roundKey) return null;
+    return result.data as RoundSnapshot;
+  } catch (error) {
+    console.error('Error loading round snapshot:', error);
+    return null;
+  }
+};
+
+export const clearRoundSnapshot = (userId: string) => {
+  try {
+    localStorage.removeItem(storageKey(userId));
+  } catch (error) {
+    console.error('Error clearing round snapshot:', error);
+  }
+};
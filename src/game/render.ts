@@ -0,0 +1,228 @@
+import type { Camera } from './camera';
+import type { Kitty, Platform, Rect } from './types';
+
+// Canvas drawing shared by solo, multiplayer and the level editor
+
+export const drawSky = (ctx: CanvasRenderingContext2D, width: number, height: number) => {
+  const bgGradient = ctx.createLinearGradient(0, 0, 0, height);
+  bgGradient.addColorStop(0, '#87CEEB'); // Sky blue
+  bgGradient.addColorStop(0.7, '#98FB98'); // Light green
+  bgGradient.addColorStop(1, '#90EE90'); // Green
+  ctx.fillStyle = bgGradient;
+  ctx.fillRect(0, 0, width, height);
+};
+
+// Background layers scroll at a fraction of the camera speed; 0 is fixed to the screen, 1 moves with the world
+const CLOUD_PARALLAX = 0.2;
+const HILL_PARALLAX = 0.5;
+const CLOUD_SPACING = 360;
+
+const drawCloud = (ctx: CanvasRenderingContext2D, x: number, y: number, scale: number) => {
+  ctx.beginPath();
+  ctx.ellipse(x, y, 40 * scale, 18 * scale, 0, 0, Math.PI * 2);
+  ctx.ellipse(x + 30 * scale, y - 10 * scale, 30 * scale, 20 * scale, 0, 0, Math.PI * 2);
+  ctx.ellipse(x - 28 * scale, y - 6 * scale, 24 * scale, 15 * scale, 0, 0, Math.PI * 2);
+  ctx.fill();
+};
+
+// Sky plus parallax clouds and hills for a camera looking into a world of the given size
+export const drawParallaxBackground = (
+  ctx: CanvasRenderingContext2D,
+  camera: Camera,
+  world: { width: number; height: number }
+) => {
+  drawSky(ctx, camera.width, camera.height);
+
+  // Distance from the bottom of the world, so hills rest on the ground when the camera is there
+  const bottomOffset = world.height - camera.height - camera.y;
+
+  // Clouds, spaced on a fixed world grid so they stay put while scrolling
+  ctx.save();
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.8)';
+  const cloudScroll = camera.x * CLOUD_PARALLAX;
+  const firstCloud = Math.floor(cloudScroll / CLOUD_SPACING) - 1;
+  const lastCloud = Math.ceil((cloudScroll + camera.width) / CLOUD_SPACING) + 1;
+  for (let index = firstCloud; index <= lastCloud; index++) {
+    // Cheap deterministic jitter per cloud
+    const jitter = Math.abs(Math.sin(index * 12.9898));
+    const x = index * CLOUD_SPACING + jitter * 120 - cloudScroll;
+    const y = 50 + jitter * 90 - camera.y * CLOUD_PARALLAX;
+    drawCloud(ctx, x, y, 0.7 + jitter * 0.5);
+  }
+  ctx.restore();
+
+  // Rolling hills
+  ctx.save();
+  ctx.fillStyle = 'rgba(34, 139, 34, 0.35)';
+  const hillBase = camera.height + bottomOffset * HILL_PARALLAX;
+  ctx.beginPath();
+  ctx.moveTo(0, hillBase);
+  for (let x = 0; x <= camera.width; x += 16) {
+    const worldX = x + camera.x * HILL_PARALLAX;
+    const height = 90 + Math.sin(worldX * 0.004) * 40 + Math.sin(worldX * 0.013) * 15;
+    ctx.lineTo(x, hillBase - height);
+  }
+  ctx.lineTo(camera.width, hillBase);
+  ctx.closePath();
+  ctx.fill();
+  ctx.restore();
+};
+
+export const drawPlatform = (ctx: CanvasRenderingContext2D, platform: Platform) => {
+  const gradient = ctx.createLinearGradient(0, platform.y, 0, platform.y + platform.height);
+  gradient.addColorStop(0, '#d97706');
+  gradient.addColorStop(1, '#92400e');
+  ctx.fillStyle = gradient;
+  ctx.fillRect(platform.x, platform.y, platform.width, platform.height);
+
+  // Add platform border, dashed for platforms you can jump through
+  ctx.save();
+  ctx.strokeStyle = '#451a03';
+  ctx.lineWidth = 2;
+  if (platform.kind === 'oneway') {
+    ctx.setLineDash([6, 4]);
+  }
+  ctx.strokeRect(platform.x, platform.y, platform.width, platform.height);
+  ctx.restore();
+};
+
+// Fish with floating animation; `phase` staggers fishes so they do not bob in sync
+export const drawFish = (ctx: CanvasRenderingContext2D, fish: Rect, animationFrame: number, phase = 0) => {
+  const floatY = Math.sin((animationFrame + phase * 30) * 0.05) * 3;
+
+  // Fish glow effect
+  ctx.save();
+  ctx.shadowColor = '#f97316';
+  ctx.shadowBlur = 10;
+
+  // Fish body
+  const fishGradient = ctx.createRadialGradient(
+    fish.x + fish.width/2, fish.y + fish.height/2 + floatY, 0,
+    fish.x + fish.width/2, fish.y + fish.height/2 + floatY, fish.width
+  );
+  fishGradient.addColorStop(0, '#fb923c');
+  fishGradient.addColorStop(1, '#ea580c');
+  ctx.fillStyle = fishGradient;
+  ctx.fillRect(fish.x, fish.y + floatY, fish.width, fish.height);
+
+  // Fish emoji with float effect
+  ctx.font = '20px Arial';
+  ctx.textAlign = 'center';
+  ctx.fillText('🐟', fish.x + fish.width/2, fish.y + 15 + floatY);
+
+  ctx.restore();
+};
+
+export const drawScratcher = (ctx: CanvasRenderingContext2D, scratcher: Rect, reached: boolean, animationFrame: number) => {
+  ctx.save();
+  const scratcherGradient = ctx.createLinearGradient(
+    scratcher.x, scratcher.y,
+    scratcher.x, scratcher.y + scratcher.height
+  );
+
+  if (reached) {
+    scratcherGradient.addColorStop(0, '#4ade80');
+    scratcherGradient.addColorStop(1, '#15803d');
+    ctx.shadowColor = '#22c55e';
+    ctx.shadowBlur = 20;
+  } else {
+    scratcherGradient.addColorStop(0, '#a855f7');
+    scratcherGradient.addColorStop(1, '#6b21a8');
+  }
+
+  ctx.fillStyle = scratcherGradient;
+  ctx.fillRect(scratcher.x, scratcher.y, scratcher.width, scratcher.height);
+
+  // Animated scratcher emoji
+  const scratcherScale = reached ? 1 + Math.sin(animationFrame * 0.2) * 0.1 : 1;
+  ctx.translate(scratcher.x + scratcher.width/2, scratcher.y + scratcher.height/2 + 5);
+  ctx.scale(scratcherScale, scratcherScale);
+  ctx.font = '24px Arial';
+  ctx.textAlign = 'center';
+  ctx.fillText('🪚', 0, 0);
+  ctx.restore();
+};
+
+// Kitty sprite (or emoji while the image loads) with idle/walk/jump squash and stretch
+export const drawKitty = (ctx: CanvasRenderingContext2D, kitty: Kitty, image: HTMLImageElement | null) => {
+  ctx.save();
+
+  // Blink while invulnerable after a respawn
+  if (kitty.invulnerable > 0) {
+    ctx.globalAlpha *= Math.floor(kitty.invulnerable / 6) % 2 === 0 ? 0.3 : 0.8;
+  }
+
+  // Apply facing direction
+  if (kitty.facingDirection === 'left') {
+    ctx.scale(-1, 1);
+    ctx.translate(-kitty.x * 2 - kitty.width, 0);
+  }
+
+  // Animation effects based on state
+  let yOffset = 0;
+  let scaleX = 1;
+  let scaleY = 1;
+
+  switch (kitty.animationState) {
+    case 'idle':
+      yOffset = Math.sin(kitty.animationFrame * 0.05) * 1;
+      scaleX = 1 + Math.sin(kitty.animationFrame * 0.03) * 0.02;
+      break;
+    case 'walk':
+      yOffset = Math.sin(kitty.animationFrame * 0.3) * 2;
+      scaleX = 1 + Math.sin(kitty.animationFrame * 0.4) * 0.05;
+      break;
+    case 'jump':
+      scaleY = 1.1;
+      scaleX = 0.9;
+      break;
+  }
+
+  if (image) {
+    ctx.save();
+    ctx.translate(kitty.x + kitty.width/2, kitty.y + kitty.height/2 + yOffset);
+    ctx.scale(scaleX, scaleY);
+    // Draw larger kitty (50% bigger)
+    const kittySize = kitty.width * 1.5;
+    ctx.drawImage(image, -kittySize/2, -kittySize/2, kittySize, kittySize);
+    ctx.restore();
+  } else {
+    // Fallback to emoji while image loads
+    ctx.font = '28px Arial';
+    ctx.textAlign = 'center';
+    ctx.fillStyle = '#ec4899';
+    ctx.fillText('🐱', kitty.x + kitty.width/2, kitty.y + 25 + yOffset);
+  }
+
+  // Add sparkle effect when moving
+  if (kitty.animationState === 'walk' && kitty.animationFrame % 10 === 0) {
+    ctx.font = '12px Arial';
+    ctx.fillText('✨', kitty.x + Math.random() * 40, kitty.y + Math.random() * 40);
+  }
+
+  ctx.restore();
+};
+
+// Recorded run raced against: a faded kitty with a 👻 marker, drawn under the player
+export const drawGhost = (ctx: CanvasRenderingContext2D, kitty: Kitty, image: HTMLImageElement | null) => {
+  ctx.save();
+  ctx.globalAlpha = 0.35;
+  drawKitty(ctx, kitty, image);
+  ctx.font = '14px Arial';
+  ctx.textAlign = 'center';
+  ctx.fillText('👻', kitty.x + kitty.width / 2, kitty.y - 8);
+  ctx.restore();
+};
+
+// Speedrun clock in screen space, right-aligned at (x, y)
+export const drawRunTimer = (ctx: CanvasRenderingContext2D, time: string, x: number, y: number) => {
+  ctx.save();
+  ctx.font = 'bold 18px monospace';
+  ctx.textAlign = 'right';
+  ctx.lineWidth = 3;
+  ctx.strokeStyle = 'rgba(0, 0, 0, 0.6)';
+  ctx.fillStyle = '#ffffff';
+  ctx.strokeText(time, x, y);
+  ctx.fillText(time, x, y);
+  ctx.restore();
+};
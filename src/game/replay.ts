@@ -0,0 +1,113 @@
+import { z } from 'zod';
+import type { SoloProgress } from './solo';
+import type { EngineInput } from './types';
+
+// Solo runs recorded as the input of every simulation tick. The simulation is deterministic, so feeding
+// the inputs back through `stepSoloLevel` from the level start reproduces the run exactly.
+
+export const REPLAY_FORMAT_VERSION = 1;
+
+// One tick of input packed into three bits
+const LEFT = 1;
+const RIGHT = 2;
+const JUMP = 4;
+
+export const encodeInput = (input: EngineInput) =>
+  (input.left ? LEFT : 0) | (input.right ? RIGHT : 0) | (input.jump ? JUMP : 0);
+
+export const decodeInput = (bits: number): EngineInput => ({
+  left: (bits & LEFT) !== 0,
+  right: (bits & RIGHT) !== 0,
+  jump: (bits & JUMP) !== 0,
+});
+
+const count = z.number().int().nonnegative();
+
+const replaySegmentSchema = z.object({
+  // LevelDefinition id: "solo-3" for the campaign, the `levels` row id for community levels
+  levelId: z.string().min(1),
+  // Progress carried into the level
+  score: count,
+  fishCount: count,
+  // Run-length encoded inputs: [bits, ticks, bits, ticks, ...]
+  inputs: z.array(count).refine(inputs => inputs.length % 2 === 0, 'must hold (bits, ticks) pairs'),
+});
+
+const replaySchema = z.object({
+  version: z.literal(REPLAY_FORMAT_VERSION),
+  // Seeds any randomness in the simulation so it replays the same way; recorded with every run
+  seed: z.number().int(),
+  // One segment per level played, including restarts of the same level
+  segments: z.array(replaySegmentSchema).min(1),
+});
+
+export type ReplaySegment = z.infer<typeof replaySegmentSchema>;
+export type Replay = z.infer<typeof replaySchema>;
+
+export const parseReplay = (data: unknown): Replay => {
+  const result = replaySchema.safeParse(data);
+  if (!result.success) {
+    throw new Error(`Invalid replay: ${result.error.issues.map(issue => issue.message).join(', ')}`);
+  }
+  return result.data as Replay;
+};
+
+export const segmentTicks = (segment: ReplaySegment) =>
+  segment.inputs.reduce((sum, value, index) => index % 2 === 1 ? sum + value : sum, 0);
+
+export const replayTicks = (replay: Replay) =>
+  replay.segments.reduce((sum, segment) => sum + segmentTicks(segment), 0);
+
+// Input bits of every tick of a segment, for random access while seeking
+export const expandInputs = (segment: ReplaySegment): number[] => {
+  const ticks: number[] = [];
+  for (let index = 0; index < segment.inputs.length; index += 2) {
+    for (let tick = 0; tick < segment.inputs[index + 1]; tick++) {
+      ticks.push(segment.inputs[index]);
+    }
+  }
+  return ticks;
+};
+
+export const createSeed = () => Math.floor(Math.random() * 0x7fffffff);
+
+export interface ReplayRecorder {
+  // Opens a new segment; called whenever a level is (re)loaded
+  startLevel: (levelId: string, progress: SoloProgress) => void;
+  record: (input: EngineInput) => void;
+  // Recorded run so far, or null before any tick was played
+  toReplay: () => Replay | null;
+}
+
+export const createReplayRecorder = (seed: number): ReplayRecorder => {
+  const segments: ReplaySegment[] = [];
+
+  return {
+    startLevel: (levelId, progress) => {
+      segments.push({ levelId, ...progress, inputs: [] });
+    },
+
+    record: (input) => {
+      const segment = segments[segments.length - 1];
+      if (!segment) return;
+
+      const bits = encodeInput(input);
+      const { inputs } = segment;
+      if (inputs.length > 0 && inputs[inputs.length - 2] === bits) {
+        inputs[inputs.length - 1] += 1;
+      } else {
+        inputs.push(bits, 1);
+      }
+    },
+
+    toReplay: () => {
+      const played = segments.filter(segment => segment.inputs.length > 0);
+      if (played.length === 0) return null;
+      return {
+        version: REPLAY_FORMAT_VERSION,
+        seed,
+        segments: played.map(segment => ({ ...segment, inputs: [...segment.inputs] })),
+      };
+    },
+  };
+};
@@ -0,0 +1,99 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+// Round state machine of a multiplayer room, owned by the host:
+// lobby -> countdown -> playing -> round_end -> countdown ... -> playing -> results -> lobby
+// The host moves it on through advance_room_round. Every player takes the states from the `rooms` row
+// only, never from other clients, so nobody but the host can move the round.
+
+export type RoundPhase = 'lobby' | 'countdown' | 'playing' | 'round_end' | 'results';
+
+// Phase lengths in seconds; playing lasts the level's time limit
+export const COUNTDOWN_SECONDS = 3;
+export const ROUND_END_SECONDS = 3;
+export const RESULTS_SECONDS = 5;
+
+// A transition the database refused is tried again after this long, doubling up to the maximum
+export const ADVANCE_RETRY_MS = 1000;
+export const ADVANCE_RETRY_MAX_MS = 16000;
+
+export interface RoundState {
+  // Bumped on every transition
+  version: number;
+  phase: RoundPhase;
+  // 1-based within a match; 0 in the lobby before the first match
+  round: number;
+  // LevelDefinition id played this round
+  levelId: string | null;
+  seed: number;
+  // Database time in milliseconds when the phase ends; null in the lobby
+  endsAt: number | null;
+}
+
+// Same as a new room's row
+export const INITIAL_ROUND: RoundState = { version: 0, phase: 'lobby', round: 0, levelId: null, seed: 0, endsAt: null };
+
+type RoomRound = Pick<Tables<'rooms'>, 'round_version' | 'round_phase' | 'round_number' | 'round_level_id' | 'round_seed' | 'round_ends_at'>;
+
+export const roundStateFromRoom = (room: RoomRound): RoundState => ({
+  version: room.round_version,
+  phase: room.round_phase as RoundPhase,
+  round: room.round_number,
+  levelId: room.round_level_id,
+  seed: room.round_seed,
+  endsAt: room.round_ends_at ? new Date(room.round_ends_at).getTime() : null,
+});
+
+// States arrive both through the rooms subscription and from the host's own transitions, possibly
+// out of order
+export const latestRound = (current: RoundState, next: RoundState) =>
+  next.version > current.version ? next : current;
+
+export const isActiveRound = (phase: RoundPhase) =>
+  phase === 'countdown' || phase === 'playing' || phase === 'round_end';
+
+// Whole seconds until the phase ends by the database clock, given this client's offset from it
+export const secondsLeft = (state: RoundState, clockOffset: number) =>
+  state.endsAt === null ? 0 : Math.max(0, Math.ceil((state.endsAt - Date.now() - clockOffset) / 1000));
+
+export interface RoundTransition {
+  phase: RoundPhase;
+  round: number;
+  levelId: string | null;
+  seed: number;
+  durationSeconds: number;
+}
+
+// Only the room host may call it; the deadline is set from the database clock
+export const advanceRound = async (roomId: string, transition: RoundTransition): Promise<RoundState> => {
+  const { data, error } = await supabase.rpc('advance_room_round', {
+    room_id: roomId,
+    phase: transition.phase,
+    round_number: transition.round,
+    level_id: transition.levelId,
+    seed: transition.seed,
+    duration_seconds: transition.durationSeconds,
+  });
+
+  if (error) throw error;
+  return roundStateFromRoom(data);
+};
+
+// Only the first delivery of a playing round wins it; true when it was this player's
+export const deliverRoundFish = async (roomId: string): Promise<boolean> => {
+  const { data, error } = await supabase.rpc('deliver_room_fish', { room_id: roomId });
+
+  if (error) throw error;
+  return data;
+};
+
+// Milliseconds to add to Date.now() to get the database time, assuming the request and the
+// response took equally long
+export const fetchServerClockOffset = async (): Promise<number> => {
+  const sentAt = Date.now();
+  const { data, error } = await supabase.rpc('server_time');
+  const receivedAt = Date.now();
+
+  if (error) throw error;
+  return new Date(data).getTime() - (sentAt + receivedAt) / 2;
+};
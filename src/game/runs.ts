@@ -0,0 +1,54 @@
+import { z } from 'zod';
+
+// In-progress solo runs, saved to localStorage so a refresh or a closed tab can pick up where it stopped.
+// A run resumes at the start of the level it was on, with the progress the player had when entering it.
+
+const RUN_FORMAT_VERSION = 1;
+
+const runSnapshotSchema = z.object({
+  version: z.literal(RUN_FORMAT_VERSION),
+  // Community level the run is playing; absent for the official campaign
+  levelId: z.string().optional(),
+  levelIndex: z.number().int().nonnegative(),
+  score: z.number().int().nonnegative(),
+  fishCount: z.number().int().nonnegative(),
+  timeLeft: z.number().int().positive(),
+  falls: z.number().int().nonnegative(),
+  savedAt: z.number(),
+});
+
+export type RunSnapshot = z.infer<typeof runSnapshotSchema>;
+
+// Demo players share one slot; signed-in players get one each
+const storageKey = (userId?: string) => `theoness:solo-run:${userId ?? 'demo'}`;
+
+export const saveRun = (userId: string | undefined, run: Omit<RunSnapshot, 'version' | 'savedAt'>) => {
+  try {
+    const snapshot: RunSnapshot = { ...run, version: RUN_FORMAT_VERSION, savedAt: Date.now() } as RunSnapshot;
+    localStorage.setItem(storageKey(userId), JSON.stringify(snapshot));
+  } catch (error) {
+    console.error('Error saving run:', error);
+  }
+};
+
+// Snapshots that are missing, unreadable or from an older format are treated as no run at all
+export const loadRun = (userId?: string): RunSnapshot | null => {
+  try {
+    const stored = localStorage.getItem(storageKey(userId));
+    if (!stored) return null;
+
+    const result = runSnapshotSchema.safeParse(JSON.parse(stored));
+    return result.success ? result.data as RunSnapshot : null;
+  } catch (error) {
+    console.error('Error loading run:', error);
+    return null;
+  }
+};
+
+export const clearRun = (userId?: string) => {
+  try {
+    localStorage.removeItem(storageKey(userId));
+  } catch (error) {
+    console.error('Error clearing run:', error);
+  }
+};
@@ -0,0 +1,103 @@
+import { checkCollision } from './collision';
+import { createEntities } from './entities';
+import { createKitty, step } from './engine';
+import type { LevelDefinition } from './levels/schema';
+import { PHYSICS_BY_MODE } from './physics';
+import type { EngineInput, EngineState, Rect } from './types';
+
+// Rules of a solo level on top of the engine: picking up fish, delivering them to the scratcher and scoring.
+// Pure like `step`, so the game and the replay viewer get the same run out of the same inputs.
+
+export const FISH_POINTS = 10;
+// Per fish delivered to the scratcher
+export const DELIVERY_POINTS = 20;
+
+export interface SoloFish extends Rect {
+  collected: boolean;
+}
+
+export interface SoloProgress {
+  score: number;
+  fishCount: number;
+}
+
+export interface SoloLevelState extends SoloProgress {
+  engine: EngineState;
+  fishes: SoloFish[];
+  scratcher: Rect;
+  // Fish picked up since the last delivery
+  carriedFish: number;
+  // Whether the kitty is touching the scratcher after the last tick
+  atScratcher: boolean;
+  // Every fish collected and the scratcher reached
+  completed: boolean;
+}
+
+export type SoloEvent =
+  | { type: 'fish'; carried: number }
+  | { type: 'delivery'; fish: number; points: number }
+  | { type: 'respawn' }
+  | { type: 'complete' };
+
+export const createSoloLevel = (level: LevelDefinition, progress: SoloProgress = { score: 0, fishCount: 0 }): SoloLevelState => {
+  const spawn = level.spawnPoints[0];
+  return {
+    engine: {
+      kitty: createKitty(spawn.x, spawn.y),
+      platforms: level.platforms,
+      entities: createEntities(level.entities),
+      bounds: level.canvas,
+      respawnPoint: spawn,
+      physics: PHYSICS_BY_MODE[level.mode],
+    },
+    fishes: level.fishes.map(fish => ({ ...fish, collected: false })),
+    scratcher: level.scratcher,
+    carriedFish: 0,
+    atScratcher: false,
+    completed: false,
+    ...progress,
+  };
+};
+
+// One fixed tick; the events let the UI show toasts without diffing states
+export const stepSoloLevel = (state: SoloLevelState, input: EngineInput): { state: SoloLevelState; events: SoloEvent[] } => {
+  if (state.completed) return { state, events: [] };
+
+  const events: SoloEvent[] = [];
+  const engine = step(state.engine, input);
+  const { kitty } = engine;
+  let { score, fishCount, carriedFish } = state;
+
+  if (engine.respawned) {
+    events.push({ type: 'respawn' });
+  }
+
+  const fishes = state.fishes.map(fish => {
+    if (fish.collected || !checkCollision(kitty, fish)) return fish;
+
+    score += FISH_POINTS;
+    fishCount += 1;
+    carriedFish += 1;
+    events.push({ type: 'fish', carried: carriedFish });
+    return { ...fish, collected: true };
+  });
+
+  // Carried fish are delivered as soon as the kitty touches the scratcher
+  const atScratcher = checkCollision(kitty, state.scratcher);
+  if (atScratcher && carriedFish > 0) {
+    const points = carriedFish * DELIVERY_POINTS;
+    score += points;
+    events.push({ type: 'delivery', fish: carriedFish, points });
+    carriedFish = 0;
+  }
+
+  const completed = atScratcher && fishes.every(fish => fish.collected);
+  if (completed) {
+    events.push({ type: 'complete' });
+  }
+
+  return {
+    state: { ...state, engine, fishes, score, fishCount, carriedFish, atScratcher, completed },
+    events,
+  };
+};
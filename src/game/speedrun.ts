@@ -0,0 +1,68 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+// Speedrun times in 60 Hz simulation ticks, with one split per completed level
+
+export interface LevelSplit {
+  levelId: string;
+  levelIndex: number;
+  // Ticks spent in the level, restarts included
+  ticks: number;
+  // Run time when the level was completed
+  runTicks: number;
+}
+
+export type LevelLeaderboardEntry = Tables<'level_leaderboard'>;
+export type SpeedrunLeaderboardEntry = Tables<'speedrun_leaderboard'>;
+
+export interface Leaderboard<Entry> {
+  top: Entry[];
+  // The player's own entry, also when it is outside the top
+  player: Entry | null;
+}
+
+const LEADERBOARD_SIZE = 10;
+
+// Fastest full campaigns
+export const fetchSpeedrunLeaderboard = async (userId?: string): Promise<Leaderboard<SpeedrunLeaderboardEntry>> => {
+  const { data: top, error } = await supabase
+    .from('speedrun_leaderboard')
+    .select('*')
+    .order('rank', { ascending: true })
+    .limit(LEADERBOARD_SIZE);
+
+  if (error) throw error;
+  if (!userId) return { top, player: null };
+
+  const { data: player, error: playerError } = await supabase
+    .from('speedrun_leaderboard')
+    .select('*')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (playerError) throw playerError;
+  return { top, player };
+};
+
+// Fastest finishes of one level
+export const fetchLevelLeaderboard = async (levelId: string, userId?: string): Promise<Leaderboard<LevelLeaderboardEntry>> => {
+  const { data: top, error } = await supabase
+    .from('level_leaderboard')
+    .select('*')
+    .eq('level_id', levelId)
+    .order('rank', { ascending: true })
+    .limit(LEADERBOARD_SIZE);
+
+  if (error) throw error;
+  if (!userId) return { top, player: null };
+
+  const { data: player, error: playerError } = await supabase
+    .from('level_leaderboard')
+    .select('*')
+    .eq('level_id', levelId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (playerError) throw playerError;
+  return { top, player };
+};
@@ -0,0 +1,49 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+// Player statistics: running totals kept in `user_stats` by the result RPCs, and figures derived from `games`
+
+export type UserStats = Tables<'user_stats'>;
+
+export interface RunStats {
+  // Full campaigns finished
+  completedRuns: number;
+  // Fastest full campaign, verified or not; null before the first one
+  bestRunTicks: number | null;
+}
+
+// Players have no row until their first counted game
+export const fetchUserStats = async (userId: string): Promise<UserStats | null> => {
+  const { data, error } = await supabase
+    .from('user_stats')
+    .select('*')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
+
+export const fetchRunStats = async (userId: string): Promise<RunStats> => {
+  const { count, error } = await supabase
+    .from('games')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId)
+    .eq('completed', true)
+    .is('level_id', null);
+
+  if (error) throw error;
+
+  const { data: fastest, error: fastestError } = await supabase
+    .from('games')
+    .select('run_ticks')
+    .eq('user_id', userId)
+    .eq('completed', true)
+    .is('level_id', null)
+    .not('run_ticks', 'is', null)
+    .order('run_ticks', { ascending: true })
+    .limit(1);
+
+  if (fastestError) throw fastestError;
+  return { completedRuns: count ?? 0, bestRunTicks: fastest[0]?.run_ticks ?? null };
+};
@@ -0,0 +1,69 @@
+import type { Entity, KeyColor } from './entities/types';
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface GameObject extends Rect {
+  vx: number;
+  vy: number;
+}
+
+// Solid platforms block from every side; one-way platforms can be jumped through from below
+export type PlatformKind = 'solid' | 'oneway';
+
+export interface Platform extends Rect {
+  kind?: PlatformKind;
+}
+
+export type AnimationState = 'idle' | 'walk' | 'jump';
+
+export type FacingDirection = 'left' | 'right';
+
+export interface Kitty extends GameObject {
+  animationState: AnimationState;
+  animationFrame: number;
+  facingDirection: FacingDirection;
+  grounded: boolean;
+  // Index into EngineState.entities of the entity the kitty stood on after the last tick
+  standingOn: number | null;
+  // Colours of the keys picked up in the current level
+  keys: KeyColor[];
+  // Ticks left during which hazards cannot hurt the kitty, set when it respawns
+  invulnerable: number;
+}
+
+// Tuning values for one game mode, expressed per 60 Hz tick
+export interface PhysicsProfile {
+  gravity: number;
+  jumpForce: number;
+  moveSpeed: number;
+  friction: number;
+}
+
+export interface EngineInput {
+  left: boolean;
+  right: boolean;
+  jump: boolean;
+}
+
+export interface EngineState {
+  kitty: Kitty;
+  platforms: Platform[];
+  // Moving, breakable and interactive level objects; omitted for levels that have none
+  entities?: Entity[];
+  bounds: { width: number; height: number };
+  // Level spawn, or the last checkpoint reached once the kitty touches one
+  respawnPoint: Point;
+  physics: PhysicsProfile;
+  // Set by `step` when the kitty fell or was hurt and went back to the respawn point
+  respawned?: boolean;
+}
@@ -0,0 +1,121 @@
+import type { LevelDefinition } from './levels/schema';
+import { TICKS_PER_SECOND } from './loop';
+import { decodeInput, replayTicks, type Replay } from './replay';
+import { createSoloLevel, stepSoloLevel, type SoloProgress } from './solo';
+import type { LevelSplit } from './speedrun';
+
+// Re-plays a recorded run under the rules of the game and checks it reproduces the submitted result.
+// Pure, so the headless verifier (scripts/verify-replays.ts) runs exactly what the browser ran.
+
+export interface ClaimedResult {
+  fishCount: number;
+  score: number;
+  // Run time in ticks
+  ticks: number;
+  completed: boolean;
+  // Level splits stored with the game, in level order
+  splits: LevelSplit[];
+}
+
+export interface VerificationResult {
+  verified: boolean;
+  // Why the replay does not reproduce the claim; null once verified
+  reason: string | null;
+}
+
+// `levels` is the sequence the run plays through: the campaign in order, or a single community level
+export const verifyReplay = (replay: Replay, levels: LevelDefinition[], claim: ClaimedResult): VerificationResult => {
+  const reject = (reason: string): VerificationResult => ({ verified: false, reason });
+  const lastSegment = replay.segments.length - 1;
+
+  // Run-length counts come from the client; bound the run by all the timers before simulating any of it
+  const ticks = replayTicks(replay);
+  const maxTicks = levels.reduce((sum, level) => sum + level.timeLimit * TICKS_PER_SECOND, 0);
+  if (ticks > maxTicks + TICKS_PER_SECOND) {
+    return reject(`run takes ${ticks} ticks but the levels allow ${maxTicks}`);
+  }
+
+  let levelIndex = 0;
+  // Progress when the current level was entered; restarts must go back to it
+  let levelStart: SoloProgress = { score: 0, fishCount: 0 };
+  let progress = levelStart;
+  // The countdown starts with the first level's timer and gains each next level's on arrival
+  let allowedTicks = levels[0].timeLimit * TICKS_PER_SECOND;
+  let completed = false;
+  let runTicks = 0;
+  // Run time when the current level was entered; splits count restarts in
+  let levelEnteredAt = 0;
+  const splits: LevelSplit[] = [];
+
+  for (let index = 0; index <= lastSegment; index++) {
+    const segment = replay.segments[index];
+    const level = levels[levelIndex];
+
+    if (!level || segment.levelId !== level.id) {
+      return reject(`segment ${index} plays ${segment.levelId} instead of ${level?.id ?? 'nothing'}`);
+    }
+    if (segment.score !== levelStart.score || segment.fishCount !== levelStart.fishCount) {
+      return reject(`segment ${index} starts from progress the run never had`);
+    }
+
+    let state = createSoloLevel(level, levelStart);
+    for (let run = 0; run < segment.inputs.length; run += 2) {
+      const input = decodeInput(segment.inputs[run]);
+      for (let tick = 0; tick < segment.inputs[run + 1]; tick++) {
+        // The game stops recording on the tick the level is completed
+        if (state.completed) {
+          return reject(`segment ${index} goes on after its level was completed`);
+        }
+        state = stepSoloLevel(state, input).state;
+        runTicks += 1;
+      }
+    }
+    progress = { score: state.score, fishCount: state.fishCount };
+
+    if (state.completed) {
+      splits.push({ levelId: level.id, levelIndex, ticks: runTicks - levelEnteredAt, runTicks });
+      levelEnteredAt = runTicks;
+      levelIndex += 1;
+      levelStart = progress;
+      if (levelIndex < levels.length) {
+        allowedTicks += levels[levelIndex].timeLimit * TICKS_PER_SECOND;
+      } else {
+        completed = true;
+        if (index !== lastSegment) {
+          return reject('the run goes on after the last level');
+        }
+      }
+    }
+  }
+
+  // The frame the countdown ran out in may have simulated a few more ticks
+  if (ticks > allowedTicks + TICKS_PER_SECOND) {
+    return reject(`run takes ${ticks} ticks but the timers allow ${allowedTicks}`);
+  }
+  if (ticks !== claim.ticks) {
+    return reject(`run takes ${ticks} ticks, ${claim.ticks} claimed`);
+  }
+  if (progress.fishCount !== claim.fishCount) {
+    return reject(`run collects ${progress.fishCount} fish, ${claim.fishCount} claimed`);
+  }
+  if (progress.score !== claim.score) {
+    return reject(`run scores ${progress.score}, ${claim.score} claimed`);
+  }
+  if (completed !== claim.completed) {
+    return reject(completed ? 'run was completed but submitted as lost' : 'run was not completed');
+  }
+
+  // Splits are stored by the client next to the game; they rank once the game is verified
+  const splitsMatch = claim.splits.length === splits.length && splits.every((split, index) => {
+    const claimed = claim.splits[index];
+    return claimed.levelId === split.levelId
+      && claimed.levelIndex === split.levelIndex
+      && claimed.ticks === split.ticks
+      && claimed.runTicks === split.runTicks;
+  });
+  if (!splitsMatch) {
+    return reject('level splits do not match the run');
+  }
+
+  return { verified: true, reason: null };
+};
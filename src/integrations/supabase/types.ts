@@ -54,38 +54,415 @@ export type Database = {
       }
       games: {
         Row: {
+          completed: boolean
           created_at: string
+          falls: number
           fish_collected: number
           id: string
+          level_id: string | null
+          player_name: string
+          run_ticks: number | null
           score: number
           time_taken: number
           user_id: string
+          verification_error: string | null
+          verified: boolean
+          verified_at: string | null
         }
         Insert: {
+          completed?: boolean
           created_at?: string
+          falls?: number
           fish_collected?: number
           id?: string
+          level_id?: string | null
+          player_name?: string
+          run_ticks?: number | null
           score?: number
           time_taken?: number
           user_id: string
+          verification_error?: string | null
+          verified?: boolean
+          verified_at?: string | null
         }
         Update: {
+          completed?: boolean
           created_at?: string
+          falls?: number
           fish_collected?: number
           id?: string
+          level_id?: string | null
+          player_name?: string
+          run_ticks?: number | null
           score?: number
           time_taken?: number
           user_id?: string
+          verification_error?: string | null
+          verified?: boolean
+          verified_at?: string | null
+        }
+        Relationships: []
+      }
+      level_ghosts: {
+        Row: {
+          created_at: string
+          data: Json
+          id: string
+          level_id: string
+          player_name: string
+          ticks: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          data: Json
+          id?: string
+          level_id: string
+          player_name: string
+          ticks: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          data?: Json
+          id?: string
+          level_id?: string
+          player_name?: string
+          ticks?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      level_likes: {
+        Row: {
+          created_at: string
+          level_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          level_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          level_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "level_likes_level_id_fkey"
+            columns: ["level_id"]
+            isOneToOne: false
+            referencedRelation: "levels"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      level_splits: {
+        Row: {
+          created_at: string
+          game_id: string
+          id: string
+          level_id: string
+          level_index: number
+          run_ticks: number
+          ticks: number
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          game_id: string
+          id?: string
+          level_id: string
+          level_index: number
+          run_ticks: number
+          ticks: number
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          game_id?: string
+          id?: string
+          level_id?: string
+          level_index?: number
+          run_ticks?: number
+          ticks?: number
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "level_splits_game_id_fkey"
+            columns: ["game_id"]
+            isOneToOne: false
+            referencedRelation: "games"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      levels: {
+        Row: {
+          created_at: string
+          data: Json
+          id: string
+          likes: number
+          mode: string
+          owner_id: string
+          plays: number
+          published: boolean
+          published_at: string | null
+          title: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          data: Json
+          id?: string
+          likes?: number
+          mode: string
+          owner_id: string
+          plays?: number
+          published?: boolean
+          published_at?: string | null
+          title: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          data?: Json
+          id?: string
+          likes?: number
+          mode?: string
+          owner_id?: string
+          plays?: number
+          published?: boolean
+          published_at?: string | null
+          title?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      multiplayer_matches: {
+        Row: {
+          created_at: string
+          id: string
+          players: number
+          room_id: string | null
+          started_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          players: number
+          room_id?: string | null
+          started_at: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          players?: number
+          room_id?: string | null
+          started_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "multiplayer_matches_room_id_fkey"
+            columns: ["room_id"]
+            isOneToOne: false
+            referencedRelation: "rooms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      multiplayer_rounds: {
+        Row: {
+          created_at: string
+          fish_delivered: number
+          id: string
+          player_name: string | null
+          room_id: string | null
+          room_name: string
+          round_number: number
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          fish_delivered?: number
+          id?: string
+          player_name?: string | null
+          room_id?: string | null
+          room_name: string
+          round_number: number
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          fish_delivered?: number
+          id?: string
+          player_name?: string | null
+          room_id?: string | null
+          room_name?: string
+          round_number?: number
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "multiplayer_rounds_room_id_fkey"
+            columns: ["room_id"]
+            isOneToOne: false
+            referencedRelation: "rooms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      player_ratings: {
+        Row: {
+          created_at: string
+          matches_played: number
+          player_name: string | null
+          rating: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          matches_played?: number
+          player_name?: string | null
+          rating?: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          matches_played?: number
+          player_name?: string | null
+          rating?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      profiles: {
+        Row: {
+          avatar_url: string | null
+          bio: string | null
+          created_at: string
+          id: string
+          nickname: string
+          updated_at: string
+        }
+        Insert: {
+          avatar_url?: string | null
+          bio?: string | null
+          created_at?: string
+          id: string
+          nickname: string
+          updated_at?: string
+        }
+        Update: {
+          avatar_url?: string | null
+          bio?: string | null
+          created_at?: string
+          id?: string
+          nickname?: string
+          updated_at?: string
         }
         Relationships: []
       }
+      rating_history: {
+        Row: {
+          created_at: string
+          fish_delivered: number
+          id: string
+          match_id: string
+          placement: number
+          rating_after: number
+          rating_before: number
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          fish_delivered: number
+          id?: string
+          match_id: string
+          placement: number
+          rating_after: number
+          rating_before: number
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          fish_delivered?: number
+          id?: string
+          match_id?: string
+          placement?: number
+          rating_after?: number
+          rating_before?: number
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "rating_history_match_id_fkey"
+            columns: ["match_id"]
+            isOneToOne: false
+            referencedRelation: "multiplayer_matches"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      replays: {
+        Row: {
+          created_at: string
+          data: Json
+          game_id: string
+          id: string
+          level_id: string
+          seed: number
+          ticks: number
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          data: Json
+          game_id: string
+          id?: string
+          level_id: string
+          seed: number
+          ticks: number
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          data?: Json
+          game_id?: string
+          id?: string
+          level_id?: string
+          seed?: number
+          ticks?: number
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "replays_game_id_fkey"
+            columns: ["game_id"]
+            isOneToOne: true
+            referencedRelation: "games"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       room_players: {
         Row: {
+          connected_at: string
           fish_collected: number
           id: string
           is_online: boolean
           is_ready: boolean
           joined_at: string
+          last_seen_at: string
           player_name: string
           position_x: number
           position_y: number
@@ -93,11 +470,13 @@ export type Database = {
           user_id: string
         }
         Insert: {
+          connected_at?: string
           fish_collected?: number
           id?: string
           is_online?: boolean
           is_ready?: boolean
           joined_at?: string
+          last_seen_at?: string
           player_name: string
           position_x?: number
           position_y?: number
@@ -105,11 +484,13 @@ export type Database = {
           user_id: string
         }
         Update: {
+          connected_at?: string
           fish_collected?: number
           id?: string
           is_online?: boolean
           is_ready?: boolean
           joined_at?: string
+          last_seen_at?: string
           player_name?: string
           position_x?: number
           position_y?: number
@@ -132,9 +513,20 @@ export type Database = {
           created_at: string
           created_by: string
           current_level: number
+          host_user_id: string
           id: string
+          level_id: string | null
           max_players: number
           name: string
+          round_ends_at: string | null
+          round_level_id: string | null
+          round_number: number
+          round_phase: string
+          round_seed: number
+          round_version: number
+          round_winner_id: string | null
+          rounds_played: number
+          started_at: string | null
           status: string
           updated_at: string
         }
@@ -143,9 +535,20 @@ export type Database = {
           created_at?: string
           created_by: string
           current_level?: number
+          host_user_id?: string
           id?: string
+          level_id?: string | null
           max_players?: number
           name: string
+          round_ends_at?: string | null
+          round_level_id?: string | null
+          round_number?: number
+          round_phase?: string
+          round_seed?: number
+          round_version?: number
+          round_winner_id?: string | null
+          rounds_played?: number
+          started_at?: string | null
           status?: string
           updated_at?: string
         }
@@ -154,12 +557,96 @@ export type Database = {
           created_at?: string
           created_by?: string
           current_level?: number
+          host_user_id?: string
           id?: string
+          level_id?: string | null
           max_players?: number
           name?: string
+          round_ends_at?: string | null
+          round_level_id?: string | null
+          round_number?: number
+          round_phase?: string
+          round_seed?: number
+          round_version?: number
+          round_winner_id?: string | null
+          rounds_played?: number
+          started_at?: string | null
           status?: string
           updated_at?: string
         }
+        Relationships: [
+          {
+            foreignKeyName: "rooms_level_id_fkey"
+            columns: ["level_id"]
+            isOneToOne: false
+            referencedRelation: "levels"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      season_standings: {
+        Row: {
+          metric: string
+          player_name: string | null
+          position: number
+          rank: number
+          season_id: string
+          user_id: string
+          value: number
+        }
+        Insert: {
+          metric: string
+          player_name?: string | null
+          position: number
+          rank: number
+          season_id: string
+          user_id: string
+          value: number
+        }
+        Update: {
+          metric?: string
+          player_name?: string | null
+          position?: number
+          rank?: number
+          season_id?: string
+          user_id?: string
+          value?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "season_standings_season_id_fkey"
+            columns: ["season_id"]
+            isOneToOne: false
+            referencedRelation: "seasons"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      seasons: {
+        Row: {
+          archived_at: string | null
+          created_at: string
+          ends_at: string
+          id: string
+          name: string
+          starts_at: string
+        }
+        Insert: {
+          archived_at?: string | null
+          created_at?: string
+          ends_at: string
+          id?: string
+          name: string
+          starts_at: string
+        }
+        Update: {
+          archived_at?: string | null
+          created_at?: string
+          ends_at?: string
+          id?: string
+          name?: string
+          starts_at?: string
+        }
         Relationships: []
       }
       user_stats: {
@@ -168,6 +655,9 @@ export type Database = {
           created_at: string
           games_played: number
           id: string
+          multiplayer_fish_delivered: number
+          multiplayer_rounds: number
+          multiplayer_wins: number
           total_fish: number
           updated_at: string
           user_id: string
@@ -177,6 +667,9 @@ export type Database = {
           created_at?: string
           games_played?: number
           id?: string
+          multiplayer_fish_delivered?: number
+          multiplayer_rounds?: number
+          multiplayer_wins?: number
           total_fish?: number
           updated_at?: string
           user_id: string
@@ -186,6 +679,9 @@ export type Database = {
           created_at?: string
           games_played?: number
           id?: string
+          multiplayer_fish_delivered?: number
+          multiplayer_rounds?: number
+          multiplayer_wins?: number
           total_fish?: number
           updated_at?: string
           user_id?: string
@@ -194,13 +690,191 @@ export type Database = {
       }
     }
     Views: {
-      [_ in never]: never
+      global_leaderboard: {
+        Row: {
+          metric: string | null
+          period: string | null
+          player_name: string | null
+          position: number | null
+          rank: number | null
+          user_id: string | null
+          value: number | null
+        }
+        Relationships: []
+      }
+      level_leaderboard: {
+        Row: {
+          created_at: string | null
+          game_id: string | null
+          level_id: string | null
+          player_name: string | null
+          rank: number | null
+          ticks: number | null
+          user_id: string | null
+        }
+        Relationships: []
+      }
+      match_history: {
+        Row: {
+          completed: boolean | null
+          created_at: string | null
+          falls: number | null
+          fish_collected: number | null
+          id: string | null
+          level_id: string | null
+          mode: string | null
+          replay_id: string | null
+          room_name: string | null
+          run_ticks: number | null
+          score: number | null
+          user_id: string | null
+          verified: boolean | null
+        }
+        Relationships: []
+      }
+      profile_stats: {
+        Row: {
+          avatar_url: string | null
+          best_run_ticks: number | null
+          best_score: number | null
+          bio: string | null
+          created_at: string | null
+          games_played: number | null
+          multiplayer_rounds: number | null
+          multiplayer_wins: number | null
+          nickname: string | null
+          rated_matches: number | null
+          rating: number | null
+          speedrun_rank: number | null
+          total_fish: number | null
+          user_id: string | null
+        }
+        Relationships: []
+      }
+      speedrun_leaderboard: {
+        Row: {
+          created_at: string | null
+          falls: number | null
+          game_id: string | null
+          player_name: string | null
+          rank: number | null
+          run_ticks: number | null
+          score: number | null
+          user_id: string | null
+        }
+        Relationships: []
+      }
     }
     Functions: {
+      advance_room_round: {
+        Args: {
+          duration_seconds: number
+          level_id: string
+          phase: string
+          room_id: string
+          round_number: number
+          seed: number
+        }
+        Returns: {
+          code: string
+          created_at: string
+          created_by: string
+          current_level: number
+          host_user_id: string
+          id: string
+          level_id: string | null
+          max_players: number
+          name: string
+          round_ends_at: string | null
+          round_level_id: string | null
+          round_number: number
+          round_phase: string
+          round_seed: number
+          round_version: number
+          round_winner_id: string | null
+          rounds_played: number
+          started_at: string | null
+          status: string
+          updated_at: string
+        }
+      }
+      archive_ended_seasons: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      deliver_room_fish: {
+        Args: { room_id: string }
+        Returns: boolean
+      }
+      finish_multiplayer_match: {
+        Args: { room_id: string }
+        Returns: string
+      }
       generate_room_code: {
         Args: Record<PropertyKey, never>
         Returns: string
       }
+      leaderboard_standings: {
+        Args: { ends_at: string; starts_at: string }
+        Returns: {
+          metric: string
+          player_name: string
+          position: number
+          rank: number
+          user_id: string
+          value: number
+        }[]
+      }
+      migrate_room_host: {
+        Args: { absent_host_id: string; room_id: string }
+        Returns: string
+      }
+      record_level_play: {
+        Args: { level_id: string }
+        Returns: undefined
+      }
+      record_room_round: {
+        Args: { room_id: string }
+        Returns: undefined
+      }
+      refresh_global_leaderboard: {
+        Args: Record<PropertyKey, never>
+        Returns: undefined
+      }
+      room_heartbeat: {
+        Args: { room_id: string }
+        Returns: undefined
+      }
+      server_time: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      submit_game_result: {
+        Args: {
+          elapsed_ticks: number
+          fall_count: number
+          final_score: number
+          fish_count: number
+          game_completed: boolean
+          game_level_id?: string
+          game_player_name: string
+          levels_completed: number
+          resumed: boolean
+        }
+        Returns: string
+      }
+      sweep_room_players: {
+        Args: { room_id: string }
+        Returns: undefined
+      }
+      sweep_stale_rooms: {
+        Args: Record<PropertyKey, never>
+        Returns: undefined
+      }
+      transfer_room_host: {
+        Args: { new_host_id: string; room_id: string }
+        Returns: string
+      }
     }
     Enums: {
       [_ in never]: never
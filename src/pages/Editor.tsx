@@ -0,0 +1,11 @@
+import { LevelEditor } from '@/components/LevelEditor';
+
+const Editor = () => {
+  return (
+    <div className="min-h-screen bg-background">
+      <LevelEditor />
+    </div>
+  );
+};
+
+export default Editor;
@@ -0,0 +1,11 @@
+import { GlobalLeaderboard } from '@/components/GlobalLeaderboard';
+
+const Leaderboard = () => {
+  return (
+    <div className="min-h-screen bg-background">
+      <GlobalLeaderboard />
+    </div>
+  );
+};
+
+export default Leaderboard;
@@ -0,0 +1,11 @@
+import { LevelBrowser } from '@/components/LevelBrowser';
+
+const Levels = () => {
+  return (
+    <div className="min-h-screen bg-background">
+      <LevelBrowser />
+    </div>
+  );
+};
+
+export default Levels;
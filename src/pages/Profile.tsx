@@ -0,0 +1,14 @@
+import { useParams } from 'react-router-dom';
+import { PlayerProfile } from '@/components/PlayerProfile';
+
+const Profile = () => {
+  const { nickname } = useParams();
+
+  return (
+    <div className="min-h-screen bg-background">
+      <PlayerProfile nickname={nickname} />
+    </div>
+  );
+};
+
+export default Profile;
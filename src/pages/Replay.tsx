@@ -0,0 +1,14 @@
+import { useParams } from 'react-router-dom';
+import { ReplayViewer } from '@/components/ReplayViewer';
+
+const Replay = () => {
+  const { id } = useParams();
+
+  return (
+    <div className="min-h-screen bg-background">
+      <ReplayViewer replayId={id} />
+    </div>
+  );
+};
+
+export default Replay;
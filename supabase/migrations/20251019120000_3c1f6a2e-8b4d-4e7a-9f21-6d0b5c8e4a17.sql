@@ -0,0 +1,127 @@
+-- Create levels table for user-created stages in the JSON level format
+CREATE TABLE public.levels (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  owner_id UUID NOT NULL,
+  title TEXT NOT NULL CHECK (char_length(title) BETWEEN 1 AND 80),
+  mode TEXT NOT NULL CHECK (mode IN ('solo', 'multiplayer')),
+  data JSONB NOT NULL,
+  published BOOLEAN NOT NULL DEFAULT false,
+  plays INTEGER NOT NULL DEFAULT 0,
+  likes INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- One like per user and level
+CREATE TABLE public.level_likes (
+  level_id UUID NOT NULL REFERENCES public.levels(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (level_id, user_id)
+);
+
+CREATE INDEX idx_levels_owner ON public.levels (owner_id);
+CREATE INDEX idx_levels_published ON public.levels (published, created_at DESC);
+
+-- Enable Row Level Security
+ALTER TABLE public.levels ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.level_likes ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for levels
+CREATE POLICY "Anyone can view published levels" 
+ON public.levels 
+FOR SELECT 
+USING (published OR auth.uid() = owner_id);
+
+CREATE POLICY "Users can create their own levels" 
+ON public.levels 
+FOR INSERT 
+WITH CHECK (auth.uid() = owner_id);
+
+CREATE POLICY "Owners can update their levels" 
+ON public.levels 
+FOR UPDATE 
+USING (auth.uid() = owner_id)
+WITH CHECK (auth.uid() = owner_id);
+
+CREATE POLICY "Owners can delete their levels" 
+ON public.levels 
+FOR DELETE 
+USING (auth.uid() = owner_id);
+
+-- Create policies for level_likes
+CREATE POLICY "Anyone can view level likes" 
+ON public.level_likes 
+FOR SELECT 
+USING (true);
+
+CREATE POLICY "Users can like published levels" 
+ON public.level_likes 
+FOR INSERT 
+WITH CHECK (
+  auth.uid() = user_id AND
+  EXISTS (
+    SELECT 1 FROM public.levels 
+    WHERE id = level_likes.level_id 
+    AND published
+  )
+);
+
+CREATE POLICY "Users can remove their likes" 
+ON public.level_likes 
+FOR DELETE 
+USING (auth.uid() = user_id);
+
+-- Counters are kept by the database so owners can not edit them
+CREATE OR REPLACE FUNCTION public.protect_level_counters()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF current_setting('app.level_counters', true) IS DISTINCT FROM 'on' THEN
+    NEW.plays = OLD.plays;
+    NEW.likes = OLD.likes;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER protect_levels_counters
+  BEFORE UPDATE ON public.levels
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_level_counters();
+
+CREATE OR REPLACE FUNCTION public.update_level_likes()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM set_config('app.level_counters', 'on', true);
+  IF TG_OP = 'INSERT' THEN
+    UPDATE public.levels SET likes = likes + 1 WHERE id = NEW.level_id;
+  ELSE
+    UPDATE public.levels SET likes = GREATEST(likes - 1, 0) WHERE id = OLD.level_id;
+  END IF;
+  PERFORM set_config('app.level_counters', 'off', true);
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER update_levels_likes
+  AFTER INSERT OR DELETE ON public.level_likes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_level_likes();
+
+-- Called when a published level is started
+CREATE OR REPLACE FUNCTION public.record_level_play(level_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  PERFORM set_config('app.level_counters', 'on', true);
+  UPDATE public.levels SET plays = plays + 1 WHERE id = level_id AND published;
+  PERFORM set_config('app.level_counters', 'off', true);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER update_levels_updated_at
+  BEFORE UPDATE ON public.levels
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Rooms can be created on a community level instead of the official rotation
+ALTER TABLE public.rooms ADD COLUMN level_id UUID REFERENCES public.levels(id) ON DELETE SET NULL;
@@ -0,0 +1,3 @@
+-- Times the kitty fell or was hurt and respawned during a run
+ALTER TABLE public.games
+ADD COLUMN falls INTEGER NOT NULL DEFAULT 0 CHECK (falls >= 0);
@@ -0,0 +1,37 @@
+-- Create replays table: the per-tick inputs of a solo run, replayed by re-simulating the levels
+CREATE TABLE public.replays (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  game_id UUID NOT NULL UNIQUE REFERENCES public.games(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  -- First level of the run, for listing replays by level
+  level_id TEXT NOT NULL,
+  seed BIGINT NOT NULL,
+  ticks INTEGER NOT NULL CHECK (ticks >= 0),
+  data JSONB NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_replays_user ON public.replays (user_id, created_at DESC);
+CREATE INDEX idx_replays_level ON public.replays (level_id);
+
+-- Enable Row Level Security
+ALTER TABLE public.replays ENABLE ROW LEVEL SECURITY;
+
+-- Replays are shared by link, so anyone can watch them
+CREATE POLICY "Anyone can view replays" 
+ON public.replays 
+FOR SELECT 
+USING (true);
+
+CREATE POLICY "Users can attach replays to their own games" 
+ON public.replays 
+FOR INSERT 
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (SELECT 1 FROM public.games WHERE games.id = game_id AND games.user_id = auth.uid())
+);
+
+CREATE POLICY "Users can delete their own replays" 
+ON public.replays 
+FOR DELETE 
+USING (auth.uid() = user_id);
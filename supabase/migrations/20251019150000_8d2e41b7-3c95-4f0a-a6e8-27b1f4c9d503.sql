@@ -0,0 +1,40 @@
+-- Create level_ghosts table: each player's fastest finish of a level, raced against as a ghost
+CREATE TABLE public.level_ghosts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  -- Name shown when other players pick this ghost
+  player_name TEXT NOT NULL,
+  -- LevelDefinition id: "solo-3" for the campaign, the `levels` row id for community levels
+  level_id TEXT NOT NULL,
+  ticks INTEGER NOT NULL CHECK (ticks > 0),
+  data JSONB NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, level_id)
+);
+
+CREATE INDEX idx_level_ghosts_level ON public.level_ghosts (level_id, ticks);
+
+-- Enable Row Level Security
+ALTER TABLE public.level_ghosts ENABLE ROW LEVEL SECURITY;
+
+-- Anyone can race anyone's ghost
+CREATE POLICY "Anyone can view level ghosts" 
+ON public.level_ghosts 
+FOR SELECT 
+USING (true);
+
+CREATE POLICY "Users can create their own level ghosts" 
+ON public.level_ghosts 
+FOR INSERT 
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own level ghosts" 
+ON public.level_ghosts 
+FOR UPDATE 
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_level_ghosts_updated_at
+  BEFORE UPDATE ON public.level_ghosts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
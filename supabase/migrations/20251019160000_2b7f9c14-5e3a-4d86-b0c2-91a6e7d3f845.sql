@@ -0,0 +1,95 @@
+-- Frame-accurate run times: `run_ticks` counts 60 Hz simulation ticks from the start of the run.
+-- Runs resumed from a saved snapshot have no run time, since the time before the resume is lost.
+ALTER TABLE public.games
+  ADD COLUMN run_ticks INTEGER CHECK (run_ticks >= 0),
+  ADD COLUMN completed BOOLEAN NOT NULL DEFAULT false,
+  -- Community level played; NULL for the official campaign
+  ADD COLUMN level_id TEXT,
+  ADD COLUMN player_name TEXT NOT NULL DEFAULT '';
+
+-- Create level_splits table: how long each level of a run took
+CREATE TABLE public.level_splits (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  game_id UUID NOT NULL REFERENCES public.games(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  level_id TEXT NOT NULL,
+  level_index INTEGER NOT NULL CHECK (level_index >= 0),
+  -- Ticks from entering the level until it was completed, restarts included
+  ticks INTEGER NOT NULL CHECK (ticks > 0),
+  -- Run time when the level was completed
+  run_ticks INTEGER NOT NULL CHECK (run_ticks >= ticks),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (game_id, level_index)
+);
+
+CREATE INDEX idx_level_splits_level ON public.level_splits (level_id, ticks);
+
+-- Enable Row Level Security
+ALTER TABLE public.level_splits ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own level splits" 
+ON public.level_splits 
+FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can add splits to their own games" 
+ON public.level_splits 
+FOR INSERT 
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (SELECT 1 FROM public.games WHERE games.id = game_id AND games.user_id = auth.uid())
+);
+
+-- Leaderboards. The views run with their owner's rights, so they publish each player's best time
+-- and nothing else from the private games and splits.
+
+-- Fastest time of each player on each level
+CREATE VIEW public.level_leaderboard AS
+SELECT
+  best.level_id,
+  best.user_id,
+  best.player_name,
+  best.game_id,
+  best.ticks,
+  best.created_at,
+  RANK() OVER (PARTITION BY best.level_id ORDER BY best.ticks) AS rank
+FROM (
+  SELECT DISTINCT ON (level_splits.level_id, level_splits.user_id)
+    level_splits.level_id,
+    level_splits.user_id,
+    games.player_name,
+    level_splits.game_id,
+    level_splits.ticks,
+    level_splits.created_at
+  FROM public.level_splits
+  JOIN public.games ON games.id = level_splits.game_id
+  ORDER BY level_splits.level_id, level_splits.user_id, level_splits.ticks, level_splits.created_at
+) best;
+
+-- Fastest full campaign of each player
+CREATE VIEW public.speedrun_leaderboard AS
+SELECT
+  best.user_id,
+  best.player_name,
+  best.game_id,
+  best.run_ticks,
+  best.score,
+  best.falls,
+  best.created_at,
+  RANK() OVER (ORDER BY best.run_ticks) AS rank
+FROM (
+  SELECT DISTINCT ON (games.user_id)
+    games.user_id,
+    games.player_name,
+    games.id AS game_id,
+    games.run_ticks,
+    games.score,
+    games.falls,
+    games.created_at
+  FROM public.games
+  WHERE games.completed AND games.level_id IS NULL AND games.run_ticks IS NOT NULL
+  ORDER BY games.user_id, games.run_ticks, games.created_at
+) best;
+
+GRANT SELECT ON public.level_leaderboard TO anon, authenticated;
+GRANT SELECT ON public.speedrun_leaderboard TO anon, authenticated;
@@ -0,0 +1,103 @@
+-- Game results are submitted through submit_game_result only: it checks the result against what the
+-- levels allow, then stores the game and updates user_stats in one transaction.
+DROP POLICY "Users can create their own games" ON public.games;
+DROP POLICY "Users can create their own stats" ON public.user_stats;
+DROP POLICY "Users can update their own stats" ON public.user_stats;
+
+CREATE OR REPLACE FUNCTION public.submit_game_result(
+  fish_count INTEGER,
+  final_score INTEGER,
+  fall_count INTEGER,
+  levels_completed INTEGER,
+  elapsed_ticks INTEGER,
+  resumed BOOLEAN,
+  completed BOOLEAN,
+  player_name TEXT,
+  level_id UUID DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  -- FISH_POINTS and DELIVERY_POINTS in src/game/solo.ts
+  fish_points CONSTANT INTEGER := 10;
+  delivery_points CONSTANT INTEGER := 20;
+  ticks_per_second CONSTANT INTEGER := 60;
+  player UUID := auth.uid();
+  level_data JSONB;
+  max_levels INTEGER;
+  max_fish INTEGER;
+  max_ticks INTEGER;
+  game_id UUID;
+BEGIN
+  IF player IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF level_id IS NULL THEN
+    -- The bundled campaign in src/game/levels/data/solo: 5 levels, 15 fish, 255 seconds of timers
+    max_levels := 5;
+    max_fish := 15;
+    max_ticks := 255 * ticks_per_second;
+  ELSE
+    SELECT data INTO level_data FROM public.levels WHERE id = level_id;
+    IF level_data IS NULL THEN
+      RAISE EXCEPTION 'Unknown level %', level_id;
+    END IF;
+    max_levels := 1;
+    max_fish := jsonb_array_length(level_data -> 'fishes');
+    max_ticks := (level_data ->> 'timeLimit')::INTEGER * ticks_per_second;
+  END IF;
+
+  IF fish_count < 0 OR final_score < 0 OR fall_count < 0 OR levels_completed < 0 OR elapsed_ticks < 0 THEN
+    RAISE EXCEPTION 'Game result values cannot be negative';
+  END IF;
+
+  IF levels_completed > max_levels OR (completed AND levels_completed <> max_levels) THEN
+    RAISE EXCEPTION 'Invalid level count %', levels_completed;
+  END IF;
+
+  IF fish_count > max_fish THEN
+    RAISE EXCEPTION 'Invalid fish count %', fish_count;
+  END IF;
+
+  -- Every fish scores when picked up and at most once more when delivered
+  IF final_score < fish_count * fish_points
+    OR final_score > fish_count * (fish_points + delivery_points)
+    OR final_score % fish_points <> 0 THEN
+    RAISE EXCEPTION 'Score % does not match % fish', final_score, fish_count;
+  END IF;
+
+  -- The countdown never allows more than the sum of the timers, give or take the ticks of the frame it
+  -- ran out in, and no level can be finished in under a second (resumed runs only timed part of theirs)
+  IF elapsed_ticks > max_ticks + ticks_per_second
+    OR (NOT resumed AND elapsed_ticks < levels_completed * ticks_per_second) THEN
+    RAISE EXCEPTION 'Invalid elapsed time of % ticks', elapsed_ticks;
+  END IF;
+
+  INSERT INTO public.games (user_id, fish_collected, score, falls, time_taken, run_ticks, completed, level_id, player_name)
+  VALUES (
+    player,
+    fish_count,
+    final_score,
+    fall_count,
+    round(elapsed_ticks::NUMERIC / ticks_per_second),
+    CASE WHEN resumed THEN NULL ELSE elapsed_ticks END,
+    completed,
+    level_id::TEXT,
+    coalesce(player_name, '')
+  )
+  RETURNING id INTO game_id;
+
+  INSERT INTO public.user_stats (user_id, total_fish, games_played, best_score)
+  VALUES (player, fish_count, 1, final_score)
+  ON CONFLICT (user_id) DO UPDATE SET
+    total_fish = user_stats.total_fish + EXCLUDED.total_fish,
+    games_played = user_stats.games_played + 1,
+    best_score = GREATEST(user_stats.best_score, EXCLUDED.best_score),
+    updated_at = now();
+
+  RETURN game_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.submit_game_result FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.submit_game_result TO authenticated;
@@ -0,0 +1,59 @@
+-- Runs are verified by scripts/verify-replays.ts, which re-simulates the uploaded replay with the game
+-- engine and sets these columns with the service role. Clients cannot write them: games has no
+-- client INSERT or UPDATE policy, and submit_game_result leaves them at their defaults.
+ALTER TABLE public.games
+  ADD COLUMN verified BOOLEAN NOT NULL DEFAULT false,
+  -- When the verifier looked at the run; NULL while it is still queued
+  ADD COLUMN verified_at TIMESTAMP WITH TIME ZONE,
+  -- Why the replay did not reproduce the result
+  ADD COLUMN verification_error TEXT;
+
+CREATE INDEX idx_games_unverified ON public.games (created_at) WHERE verified_at IS NULL;
+
+-- Leaderboards only rank runs whose replay reproduced the submitted result
+CREATE OR REPLACE VIEW public.level_leaderboard AS
+SELECT
+  best.level_id,
+  best.user_id,
+  best.player_name,
+  best.game_id,
+  best.ticks,
+  best.created_at,
+  RANK() OVER (PARTITION BY best.level_id ORDER BY best.ticks) AS rank
+FROM (
+  SELECT DISTINCT ON (level_splits.level_id, level_splits.user_id)
+    level_splits.level_id,
+    level_splits.user_id,
+    games.player_name,
+    level_splits.game_id,
+    level_splits.ticks,
+    level_splits.created_at
+  FROM public.level_splits
+  JOIN public.games ON games.id = level_splits.game_id
+  WHERE games.verified
+  ORDER BY level_splits.level_id, level_splits.user_id, level_splits.ticks, level_splits.created_at
+) best;
+
+CREATE OR REPLACE VIEW public.speedrun_leaderboard AS
+SELECT
+  best.user_id,
+  best.player_name,
+  best.game_id,
+  best.run_ticks,
+  best.score,
+  best.falls,
+  best.created_at,
+  RANK() OVER (ORDER BY best.run_ticks) AS rank
+FROM (
+  SELECT DISTINCT ON (games.user_id)
+    games.user_id,
+    games.player_name,
+    games.id AS game_id,
+    games.run_ticks,
+    games.score,
+    games.falls,
+    games.created_at
+  FROM public.games
+  WHERE games.verified AND games.completed AND games.level_id IS NULL AND games.run_ticks IS NOT NULL
+  ORDER BY games.user_id, games.run_ticks, games.created_at
+) best;
@@ -0,0 +1,44 @@
+-- Online play in user_stats. A round is won by the player who delivers its fish.
+ALTER TABLE public.user_stats
+  ADD COLUMN multiplayer_wins INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN multiplayer_rounds INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN multiplayer_fish_delivered INTEGER NOT NULL DEFAULT 0;
+
+-- Called by each player when a round they were in ends. user_stats has no client write policies,
+-- so this is the only way to count online play.
+CREATE OR REPLACE FUNCTION public.record_multiplayer_round(room_id UUID, fish_delivered INTEGER)
+RETURNS VOID AS $$
+DECLARE
+  player UUID := auth.uid();
+BEGIN
+  IF player IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- One fish per round can be delivered
+  IF fish_delivered NOT IN (0, 1) THEN
+    RAISE EXCEPTION 'Invalid fish count %', fish_delivered;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.room_players
+    JOIN public.rooms ON rooms.id = room_players.room_id
+    WHERE room_players.room_id = record_multiplayer_round.room_id
+      AND room_players.user_id = player
+      AND rooms.status = 'playing'
+  ) THEN
+    RAISE EXCEPTION 'Not playing in room %', room_id;
+  END IF;
+
+  INSERT INTO public.user_stats (user_id, multiplayer_rounds, multiplayer_wins, multiplayer_fish_delivered)
+  VALUES (player, 1, fish_delivered, fish_delivered)
+  ON CONFLICT (user_id) DO UPDATE SET
+    multiplayer_rounds = user_stats.multiplayer_rounds + 1,
+    multiplayer_wins = user_stats.multiplayer_wins + EXCLUDED.multiplayer_wins,
+    multiplayer_fish_delivered = user_stats.multiplayer_fish_delivered + EXCLUDED.multiplayer_fish_delivered,
+    updated_at = now();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.record_multiplayer_round FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.record_multiplayer_round TO authenticated;
@@ -0,0 +1,100 @@
+-- Create multiplayer_rounds table: one row per player per finished online round, for match history
+CREATE TABLE public.multiplayer_rounds (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  room_id UUID REFERENCES public.rooms(id) ON DELETE SET NULL,
+  -- Kept so the history still reads well after the room is gone
+  room_name TEXT NOT NULL,
+  fish_delivered INTEGER NOT NULL DEFAULT 0 CHECK (fish_delivered IN (0, 1)),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_multiplayer_rounds_user ON public.multiplayer_rounds (user_id, created_at DESC);
+
+-- Enable Row Level Security
+ALTER TABLE public.multiplayer_rounds ENABLE ROW LEVEL SECURITY;
+
+-- Rows are only written by record_multiplayer_round
+CREATE POLICY "Users can view their own multiplayer rounds" 
+ON public.multiplayer_rounds 
+FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE OR REPLACE FUNCTION public.record_multiplayer_round(room_id UUID, fish_delivered INTEGER)
+RETURNS VOID AS $$
+DECLARE
+  player UUID := auth.uid();
+  room_name TEXT;
+BEGIN
+  IF player IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- One fish per round can be delivered
+  IF fish_delivered NOT IN (0, 1) THEN
+    RAISE EXCEPTION 'Invalid fish count %', fish_delivered;
+  END IF;
+
+  SELECT rooms.name INTO room_name
+  FROM public.room_players
+  JOIN public.rooms ON rooms.id = room_players.room_id
+  WHERE room_players.room_id = record_multiplayer_round.room_id
+    AND room_players.user_id = player
+    AND rooms.status = 'playing';
+
+  IF room_name IS NULL THEN
+    RAISE EXCEPTION 'Not playing in room %', room_id;
+  END IF;
+
+  INSERT INTO public.multiplayer_rounds (user_id, room_id, room_name, fish_delivered)
+  VALUES (player, record_multiplayer_round.room_id, room_name, record_multiplayer_round.fish_delivered);
+
+  INSERT INTO public.user_stats (user_id, multiplayer_rounds, multiplayer_wins, multiplayer_fish_delivered)
+  VALUES (player, 1, fish_delivered, fish_delivered)
+  ON CONFLICT (user_id) DO UPDATE SET
+    multiplayer_rounds = user_stats.multiplayer_rounds + 1,
+    multiplayer_wins = user_stats.multiplayer_wins + EXCLUDED.multiplayer_wins,
+    multiplayer_fish_delivered = user_stats.multiplayer_fish_delivered + EXCLUDED.multiplayer_fish_delivered,
+    updated_at = now();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- The signed-in player's solo games and online rounds, newest first when ordered by created_at.
+-- Views run with their owner's rights, so the view itself restricts rows to auth.uid().
+CREATE VIEW public.match_history AS
+SELECT
+  games.id,
+  games.user_id,
+  'solo' AS mode,
+  games.created_at,
+  games.score,
+  games.fish_collected,
+  games.falls,
+  games.run_ticks,
+  games.completed,
+  games.verified,
+  games.level_id,
+  NULL::TEXT AS room_name,
+  replays.id AS replay_id
+FROM public.games
+LEFT JOIN public.replays ON replays.game_id = games.id
+WHERE games.user_id = auth.uid()
+UNION ALL
+SELECT
+  multiplayer_rounds.id,
+  multiplayer_rounds.user_id,
+  'multiplayer' AS mode,
+  multiplayer_rounds.created_at,
+  NULL::INTEGER AS score,
+  multiplayer_rounds.fish_delivered AS fish_collected,
+  NULL::INTEGER AS falls,
+  NULL::INTEGER AS run_ticks,
+  multiplayer_rounds.fish_delivered > 0 AS completed,
+  false AS verified,
+  NULL::TEXT AS level_id,
+  multiplayer_rounds.room_name,
+  NULL::UUID AS replay_id
+FROM public.multiplayer_rounds
+WHERE multiplayer_rounds.user_id = auth.uid();
+
+GRANT SELECT ON public.match_history TO authenticated;
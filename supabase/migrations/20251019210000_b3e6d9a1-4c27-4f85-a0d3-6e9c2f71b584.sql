@@ -0,0 +1,209 @@
+-- Keep the name a player had in the room, so online-only players have one on the global leaderboard
+ALTER TABLE public.multiplayer_rounds
+  ADD COLUMN player_name TEXT;
+
+CREATE OR REPLACE FUNCTION public.record_multiplayer_round(room_id UUID, fish_delivered INTEGER)
+RETURNS VOID AS $$
+DECLARE
+  player UUID := auth.uid();
+  room_name TEXT;
+  player_name TEXT;
+BEGIN
+  IF player IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- One fish per round can be delivered
+  IF fish_delivered NOT IN (0, 1) THEN
+    RAISE EXCEPTION 'Invalid fish count %', fish_delivered;
+  END IF;
+
+  SELECT rooms.name, room_players.player_name INTO room_name, player_name
+  FROM public.room_players
+  JOIN public.rooms ON rooms.id = room_players.room_id
+  WHERE room_players.room_id = record_multiplayer_round.room_id
+    AND room_players.user_id = player
+    AND rooms.status = 'playing';
+
+  IF room_name IS NULL THEN
+    RAISE EXCEPTION 'Not playing in room %', room_id;
+  END IF;
+
+  INSERT INTO public.multiplayer_rounds (user_id, room_id, room_name, player_name, fish_delivered)
+  VALUES (player, record_multiplayer_round.room_id, room_name, player_name, record_multiplayer_round.fish_delivered);
+
+  INSERT INTO public.user_stats (user_id, multiplayer_rounds, multiplayer_wins, multiplayer_fish_delivered)
+  VALUES (player, 1, fish_delivered, fish_delivered)
+  ON CONFLICT (user_id) DO UPDATE SET
+    multiplayer_rounds = user_stats.multiplayer_rounds + 1,
+    multiplayer_wins = user_stats.multiplayer_wins + EXCLUDED.multiplayer_wins,
+    multiplayer_fish_delivered = user_stats.multiplayer_fish_delivered + EXCLUDED.multiplayer_fish_delivered,
+    updated_at = now();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Time-boxed seasons. Their standings are frozen into season_standings once they end.
+CREATE TABLE public.seasons (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  starts_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  ends_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  -- When the final standings were written; NULL while the season runs
+  archived_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (ends_at > starts_at)
+);
+
+CREATE INDEX idx_seasons_period ON public.seasons (starts_at, ends_at);
+
+CREATE TABLE public.season_standings (
+  season_id UUID NOT NULL REFERENCES public.seasons(id) ON DELETE CASCADE,
+  metric TEXT NOT NULL CHECK (metric IN ('best_score', 'total_fish', 'multiplayer_wins')),
+  user_id UUID NOT NULL,
+  player_name TEXT,
+  value INTEGER NOT NULL,
+  rank INTEGER NOT NULL,
+  position INTEGER NOT NULL,
+  PRIMARY KEY (season_id, metric, user_id)
+);
+
+CREATE INDEX idx_season_standings_position ON public.season_standings (season_id, metric, position);
+
+-- Enable Row Level Security
+ALTER TABLE public.seasons ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.season_standings ENABLE ROW LEVEL SECURITY;
+
+-- Seasons are managed with the service role
+CREATE POLICY "Anyone can view seasons"
+ON public.seasons
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Anyone can view season standings"
+ON public.season_standings
+FOR SELECT
+USING (true);
+
+-- The first season runs for the current calendar month; archive_ended_seasons opens the next ones
+INSERT INTO public.seasons (name, starts_at, ends_at)
+VALUES ('Temporada 1', date_trunc('month', now()), date_trunc('month', now()) + INTERVAL '1 month');
+
+-- Rankings of every metric over [starts_at, ends_at), from verified solo games and online rounds.
+-- Shared by global_leaderboard and archive_ended_seasons; it reads games as its owner because games
+-- rows are private, and only returns what the leaderboards publish anyway.
+CREATE OR REPLACE FUNCTION public.leaderboard_standings(starts_at TIMESTAMP WITH TIME ZONE, ends_at TIMESTAMP WITH TIME ZONE)
+RETURNS TABLE (metric TEXT, user_id UUID, player_name TEXT, value INTEGER, rank INTEGER, "position" INTEGER) AS $$
+  WITH results AS (
+    SELECT games.user_id, games.player_name, games.created_at, games.score, games.fish_collected AS fish, 0 AS wins
+    FROM public.games
+    WHERE games.verified
+    UNION ALL
+    SELECT rounds.user_id, rounds.player_name, rounds.created_at, NULL::INTEGER, rounds.fish_delivered, rounds.fish_delivered
+    FROM public.multiplayer_rounds rounds
+  ),
+  totals AS (
+    SELECT
+      results.user_id,
+      -- The most recent name the player used in the period
+      (array_agg(results.player_name ORDER BY results.created_at DESC) FILTER (WHERE results.player_name IS NOT NULL))[1] AS player_name,
+      MAX(results.score) AS best_score,
+      SUM(results.fish) AS total_fish,
+      SUM(results.wins) AS multiplayer_wins
+    FROM results
+    WHERE results.created_at >= leaderboard_standings.starts_at AND results.created_at < leaderboard_standings.ends_at
+    GROUP BY results.user_id
+  ),
+  metric_values AS (
+    SELECT 'best_score' AS metric, totals.user_id, totals.player_name, totals.best_score AS value
+    FROM totals
+    WHERE totals.best_score IS NOT NULL
+    UNION ALL
+    SELECT 'total_fish', totals.user_id, totals.player_name, totals.total_fish
+    FROM totals
+    WHERE totals.total_fish > 0
+    UNION ALL
+    SELECT 'multiplayer_wins', totals.user_id, totals.player_name, totals.multiplayer_wins
+    FROM totals
+    WHERE totals.multiplayer_wins > 0
+  )
+  SELECT
+    metric_values.metric,
+    metric_values.user_id,
+    metric_values.player_name,
+    metric_values.value::INTEGER,
+    RANK() OVER (PARTITION BY metric_values.metric ORDER BY metric_values.value DESC)::INTEGER,
+    -- Unique place in the list, ties broken by user id; used for paging
+    ROW_NUMBER() OVER (PARTITION BY metric_values.metric ORDER BY metric_values.value DESC, metric_values.user_id)::INTEGER
+  FROM metric_values;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Views call functions with the reader's rights
+REVOKE EXECUTE ON FUNCTION public.leaderboard_standings FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.leaderboard_standings TO anon, authenticated;
+
+-- All-time, weekly, monthly and current-season rankings. Weeks start on Monday and periods
+-- follow the database time zone.
+CREATE VIEW public.global_leaderboard AS
+WITH periods AS (
+  SELECT 'all' AS period, '-infinity'::TIMESTAMP WITH TIME ZONE AS starts_at, 'infinity'::TIMESTAMP WITH TIME ZONE AS ends_at
+  UNION ALL
+  SELECT 'week', date_trunc('week', now()), 'infinity'
+  UNION ALL
+  SELECT 'month', date_trunc('month', now()), 'infinity'
+  UNION ALL
+  SELECT 'season', seasons.starts_at, seasons.ends_at
+  FROM public.seasons
+  WHERE seasons.starts_at <= now() AND seasons.ends_at > now()
+)
+SELECT
+  periods.period,
+  standings.metric,
+  standings.user_id,
+  standings.player_name,
+  standings.value,
+  standings.rank,
+  standings.position
+FROM periods
+CROSS JOIN LATERAL public.leaderboard_standings(periods.starts_at, periods.ends_at) standings;
+
+GRANT SELECT ON public.global_leaderboard TO anon, authenticated;
+
+-- Freezes the standings of every season that has ended, then opens a new season of the same
+-- length when none is running. Run by scripts/archive-seasons.ts with the service role.
+CREATE OR REPLACE FUNCTION public.archive_ended_seasons()
+RETURNS INTEGER AS $$
+DECLARE
+  season RECORD;
+  latest RECORD;
+  archived INTEGER := 0;
+BEGIN
+  FOR season IN
+    SELECT * FROM public.seasons
+    WHERE seasons.archived_at IS NULL AND seasons.ends_at <= now()
+    ORDER BY seasons.starts_at
+    FOR UPDATE
+  LOOP
+    INSERT INTO public.season_standings (season_id, metric, user_id, player_name, value, rank, position)
+    SELECT season.id, standings.metric, standings.user_id, standings.player_name, standings.value, standings.rank, standings.position
+    FROM public.leaderboard_standings(season.starts_at, season.ends_at) standings;
+
+    UPDATE public.seasons SET archived_at = now() WHERE seasons.id = season.id;
+    archived := archived + 1;
+  END LOOP;
+
+  IF NOT EXISTS (SELECT 1 FROM public.seasons WHERE seasons.starts_at <= now() AND seasons.ends_at > now()) THEN
+    SELECT * INTO latest FROM public.seasons ORDER BY seasons.ends_at DESC LIMIT 1;
+    -- A gap between seasons starts the next one now rather than in the past
+    INSERT INTO public.seasons (name, starts_at, ends_at)
+    SELECT
+      'Temporada ' || (COUNT(*) + 1),
+      GREATEST(latest.ends_at, now()),
+      GREATEST(latest.ends_at, now()) + (latest.ends_at - latest.starts_at)
+    FROM public.seasons;
+  END IF;
+
+  RETURN archived;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.archive_ended_seasons FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,222 @@
+-- When the current match started; rounds recorded since then belong to it
+ALTER TABLE public.rooms
+  ADD COLUMN started_at TIMESTAMP WITH TIME ZONE;
+
+CREATE OR REPLACE FUNCTION public.set_room_started_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'playing' AND OLD.status IS DISTINCT FROM 'playing' THEN
+    NEW.started_at = now();
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER set_rooms_started_at
+  BEFORE UPDATE ON public.rooms
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_room_started_at();
+
+-- Multi-player Elo rating per user; players without a row are rated 1200
+CREATE TABLE public.player_ratings (
+  user_id UUID NOT NULL PRIMARY KEY,
+  -- Name used in the last rated match
+  player_name TEXT,
+  rating INTEGER NOT NULL DEFAULT 1200,
+  matches_played INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- One row per rated multiplayer game
+CREATE TABLE public.multiplayer_matches (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  room_id UUID REFERENCES public.rooms(id) ON DELETE SET NULL,
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  players INTEGER NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (room_id, started_at)
+);
+
+CREATE TABLE public.rating_history (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  match_id UUID NOT NULL REFERENCES public.multiplayer_matches(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  -- 1 for the most fish delivered; tied players share a placement
+  placement INTEGER NOT NULL,
+  fish_delivered INTEGER NOT NULL,
+  rating_before INTEGER NOT NULL,
+  rating_after INTEGER NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (match_id, user_id)
+);
+
+CREATE INDEX idx_rating_history_user ON public.rating_history (user_id, created_at DESC);
+
+-- Enable Row Level Security
+ALTER TABLE public.player_ratings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.multiplayer_matches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.rating_history ENABLE ROW LEVEL SECURITY;
+
+-- Ratings are public and only written by finish_multiplayer_match
+CREATE POLICY "Anyone can view player ratings"
+ON public.player_ratings
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Anyone can view multiplayer matches"
+ON public.multiplayer_matches
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Anyone can view rating history"
+ON public.rating_history
+FOR SELECT
+USING (true);
+
+CREATE TRIGGER update_player_ratings_updated_at
+  BEFORE UPDATE ON public.player_ratings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Rates the room's current match from the rounds recorded since it started: players are placed by
+-- fish delivered and every pair of players counts as one Elo game (K = 32, split across opponents).
+-- Each client ends the match on its own timer; the first call rates it and later calls return the
+-- same match, so rounds recorded after that do not change the ratings.
+CREATE OR REPLACE FUNCTION public.finish_multiplayer_match(room_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  player UUID := auth.uid();
+  room RECORD;
+  rated_match_id UUID;
+  player_count INTEGER;
+BEGIN
+  IF player IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- Locking the room serialises the players' calls
+  SELECT * INTO room
+  FROM public.rooms
+  WHERE rooms.id = finish_multiplayer_match.room_id
+  FOR UPDATE;
+
+  IF room.id IS NULL OR room.status <> 'playing' OR room.started_at IS NULL THEN
+    RAISE EXCEPTION 'Room % is not playing', finish_multiplayer_match.room_id;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.room_players
+    WHERE room_players.room_id = room.id AND room_players.user_id = player
+  ) THEN
+    RAISE EXCEPTION 'Not playing in room %', room.id;
+  END IF;
+
+  SELECT multiplayer_matches.id INTO rated_match_id
+  FROM public.multiplayer_matches
+  WHERE multiplayer_matches.room_id = room.id AND multiplayer_matches.started_at = room.started_at;
+
+  IF rated_match_id IS NOT NULL THEN
+    RETURN rated_match_id;
+  END IF;
+
+  SELECT COUNT(DISTINCT rounds.user_id) INTO player_count
+  FROM public.multiplayer_rounds rounds
+  WHERE rounds.room_id = room.id AND rounds.created_at >= room.started_at;
+
+  INSERT INTO public.multiplayer_matches (room_id, started_at, players)
+  VALUES (room.id, room.started_at, player_count)
+  RETURNING id INTO rated_match_id;
+
+  -- A match needs opponents to be rated
+  IF player_count < 2 THEN
+    RETURN rated_match_id;
+  END IF;
+
+  WITH results AS (
+    SELECT
+      rounds.user_id,
+      SUM(rounds.fish_delivered)::INTEGER AS fish_delivered
+    FROM public.multiplayer_rounds rounds
+    WHERE rounds.room_id = room.id AND rounds.created_at >= room.started_at
+    GROUP BY rounds.user_id
+  ),
+  placed AS (
+    SELECT
+      results.user_id,
+      results.fish_delivered,
+      COALESCE(player_ratings.rating, 1200) AS rating,
+      RANK() OVER (ORDER BY results.fish_delivered DESC)::INTEGER AS placement
+    FROM results
+    LEFT JOIN public.player_ratings ON player_ratings.user_id = results.user_id
+  )
+  INSERT INTO public.rating_history (match_id, user_id, placement, fish_delivered, rating_before, rating_after)
+  SELECT
+    rated_match_id,
+    me.user_id,
+    me.placement,
+    me.fish_delivered,
+    me.rating,
+    me.rating + ROUND(32.0 / (player_count - 1) * SUM(
+      CASE
+        WHEN me.placement < them.placement THEN 1
+        WHEN me.placement = them.placement THEN 0.5
+        ELSE 0
+      END
+      - 1 / (1 + power(10, (them.rating - me.rating) / 400.0))
+    ))::INTEGER
+  FROM placed me
+  JOIN placed them ON them.user_id <> me.user_id
+  GROUP BY me.user_id, me.placement, me.fish_delivered, me.rating;
+
+  INSERT INTO public.player_ratings (user_id, player_name, rating, matches_played)
+  SELECT rating_history.user_id, room_players.player_name, rating_history.rating_after, 1
+  FROM public.rating_history
+  LEFT JOIN public.room_players
+    ON room_players.room_id = room.id AND room_players.user_id = rating_history.user_id
+  WHERE rating_history.match_id = rated_match_id
+  ON CONFLICT (user_id) DO UPDATE SET
+    player_name = COALESCE(EXCLUDED.player_name, player_ratings.player_name),
+    rating = EXCLUDED.rating,
+    matches_played = player_ratings.matches_played + 1;
+
+  RETURN rated_match_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.finish_multiplayer_match FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.finish_multiplayer_match TO authenticated;
+
+-- Ratings join the global leaderboard. They are a current value, so only the all-time period has them.
+CREATE OR REPLACE VIEW public.global_leaderboard AS
+WITH periods AS (
+  SELECT 'all' AS period, '-infinity'::TIMESTAMP WITH TIME ZONE AS starts_at, 'infinity'::TIMESTAMP WITH TIME ZONE AS ends_at
+  UNION ALL
+  SELECT 'week', date_trunc('week', now()), 'infinity'
+  UNION ALL
+  SELECT 'month', date_trunc('month', now()), 'infinity'
+  UNION ALL
+  SELECT 'season', seasons.starts_at, seasons.ends_at
+  FROM public.seasons
+  WHERE seasons.starts_at <= now() AND seasons.ends_at > now()
+)
+SELECT
+  periods.period,
+  standings.metric,
+  standings.user_id,
+  standings.player_name,
+  standings.value,
+  standings.rank,
+  standings.position
+FROM periods
+CROSS JOIN LATERAL public.leaderboard_standings(periods.starts_at, periods.ends_at) standings
+UNION ALL
+SELECT
+  'all',
+  'rating',
+  player_ratings.user_id,
+  player_ratings.player_name,
+  player_ratings.rating,
+  RANK() OVER (ORDER BY player_ratings.rating DESC)::INTEGER,
+  ROW_NUMBER() OVER (ORDER BY player_ratings.rating DESC, player_ratings.user_id)::INTEGER
+FROM public.player_ratings;
@@ -0,0 +1,113 @@
+-- Public player profiles, one per account, created on signup
+CREATE TABLE public.profiles (
+  id UUID NOT NULL PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  nickname TEXT NOT NULL CHECK (char_length(nickname) BETWEEN 3 AND 30),
+  avatar_url TEXT,
+  bio TEXT CHECK (char_length(bio) <= 280),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Nicknames are unique regardless of case, so /u/Theo and /u/theo cannot be different players
+CREATE UNIQUE INDEX profiles_nickname_key ON public.profiles (lower(nickname));
+
+-- Enable Row Level Security
+ALTER TABLE public.profiles ENABLE ROW LEVEL SECURITY;
+
+-- Rows are only created by handle_new_user
+CREATE POLICY "Anyone can view profiles"
+ON public.profiles
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Users can update their own profile"
+ON public.profiles
+FOR UPDATE
+USING (auth.uid() = id);
+
+-- The nickname is fixed at signup; players can only edit their avatar and bio
+REVOKE UPDATE ON public.profiles FROM anon, authenticated;
+GRANT UPDATE (avatar_url, bio) ON public.profiles TO authenticated;
+
+CREATE TRIGGER update_profiles_updated_at
+  BEFORE UPDATE ON public.profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Creates the profile of a new account from the nickname given at signup. The signup form checks the
+-- nickname is free, but two signups can still race for it; the later one gets part of its id appended.
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER AS $$
+DECLARE
+  new_nickname TEXT := COALESCE(
+    NULLIF(trim(NEW.raw_user_meta_data ->> 'nickname'), ''),
+    NULLIF(split_part(NEW.email, '@', 1), ''),
+    'Jogador'
+  );
+BEGIN
+  new_nickname := left(new_nickname, 24);
+  IF char_length(new_nickname) < 3 OR EXISTS (SELECT 1 FROM public.profiles WHERE lower(profiles.nickname) = lower(new_nickname)) THEN
+    new_nickname := new_nickname || left(replace(NEW.id::TEXT, '-', ''), 6);
+  END IF;
+
+  INSERT INTO public.profiles (id, nickname)
+  VALUES (NEW.id, new_nickname);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER on_auth_user_created
+  AFTER INSERT ON auth.users
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_new_user();
+
+-- Profiles for the accounts created before this migration, with the same fallbacks
+INSERT INTO public.profiles (id, nickname, created_at)
+SELECT
+  numbered.id,
+  CASE
+    WHEN numbered.duplicate = 1 AND char_length(numbered.nickname) >= 3 THEN numbered.nickname
+    ELSE numbered.nickname || left(replace(numbered.id::TEXT, '-', ''), 6)
+  END,
+  numbered.created_at
+FROM (
+  SELECT
+    named.*,
+    ROW_NUMBER() OVER (PARTITION BY lower(named.nickname) ORDER BY named.created_at) AS duplicate
+  FROM (
+    SELECT
+      users.id,
+      users.created_at,
+      left(COALESCE(
+        NULLIF(trim(users.raw_user_meta_data ->> 'nickname'), ''),
+        NULLIF(split_part(users.email, '@', 1), ''),
+        'Jogador'
+      ), 24) AS nickname
+    FROM auth.users
+  ) named
+) numbered;
+
+-- Global statistics shown on public profile pages. user_stats rows are private, so the view, which
+-- runs with its owner's rights, is what publishes them.
+CREATE VIEW public.profile_stats AS
+SELECT
+  profiles.id AS user_id,
+  profiles.nickname,
+  profiles.avatar_url,
+  profiles.bio,
+  profiles.created_at,
+  COALESCE(user_stats.games_played, 0) AS games_played,
+  COALESCE(user_stats.best_score, 0) AS best_score,
+  COALESCE(user_stats.total_fish, 0) AS total_fish,
+  COALESCE(user_stats.multiplayer_rounds, 0) AS multiplayer_rounds,
+  COALESCE(user_stats.multiplayer_wins, 0) AS multiplayer_wins,
+  COALESCE(player_ratings.rating, 1200) AS rating,
+  COALESCE(player_ratings.matches_played, 0) AS rated_matches,
+  speedrun_leaderboard.run_ticks AS best_run_ticks,
+  speedrun_leaderboard.rank AS speedrun_rank
+FROM public.profiles
+LEFT JOIN public.user_stats ON user_stats.user_id = profiles.id
+LEFT JOIN public.player_ratings ON player_ratings.user_id = profiles.id
+LEFT JOIN public.speedrun_leaderboard ON speedrun_leaderboard.user_id = profiles.id;
+
+GRANT SELECT ON public.profile_stats TO anon, authenticated;
@@ -0,0 +1,84 @@
+-- Round state of a multiplayer room, owned by the room host:
+-- lobby -> countdown -> playing -> round_end -> countdown ... -> playing -> results -> lobby
+ALTER TABLE public.rooms
+  ADD COLUMN round_phase TEXT NOT NULL DEFAULT 'lobby'
+    CHECK (round_phase IN ('lobby', 'countdown', 'playing', 'round_end', 'results')),
+  ADD COLUMN round_number INTEGER NOT NULL DEFAULT 0,
+  -- LevelDefinition id everyone plays this round, and the seed for anything picked at random in it
+  ADD COLUMN round_level_id TEXT,
+  ADD COLUMN round_seed INTEGER NOT NULL DEFAULT 0,
+  -- When the current phase ends, by the database clock; NULL in the lobby
+  ADD COLUMN round_ends_at TIMESTAMP WITH TIME ZONE,
+  -- Bumped on every transition, so clients can tell a newer state from a late one
+  ADD COLUMN round_version INTEGER NOT NULL DEFAULT 0;
+
+-- Moves the room to its next round phase. The deadline is taken from the database clock, so every
+-- client counts down to the same moment whatever its own clock says.
+CREATE OR REPLACE FUNCTION public.advance_room_round(
+  room_id UUID,
+  phase TEXT,
+  round_number INTEGER,
+  level_id TEXT,
+  seed INTEGER,
+  duration_seconds INTEGER
+)
+RETURNS public.rooms AS $$
+DECLARE
+  room public.rooms;
+BEGIN
+  SELECT * INTO room
+  FROM public.rooms
+  WHERE rooms.id = advance_room_round.room_id
+  FOR UPDATE;
+
+  IF room.id IS NULL OR room.created_by IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the host can advance room %', advance_room_round.room_id;
+  END IF;
+
+  IF NOT (
+    (room.round_phase, advance_room_round.phase) IN (
+      ('lobby', 'countdown'),
+      ('countdown', 'playing'),
+      ('playing', 'round_end'),
+      ('playing', 'results'),
+      ('round_end', 'countdown'),
+      ('results', 'lobby')
+    )
+  ) THEN
+    RAISE EXCEPTION 'Cannot go from % to %', room.round_phase, advance_room_round.phase;
+  END IF;
+
+  IF advance_room_round.duration_seconds NOT BETWEEN 0 AND 600 THEN
+    RAISE EXCEPTION 'Invalid phase duration %', advance_room_round.duration_seconds;
+  END IF;
+
+  UPDATE public.rooms SET
+    round_phase = advance_room_round.phase,
+    round_number = advance_room_round.round_number,
+    round_level_id = advance_room_round.level_id,
+    round_seed = advance_room_round.seed,
+    round_ends_at = CASE
+      WHEN advance_room_round.phase = 'lobby' THEN NULL
+      ELSE now() + make_interval(secs => advance_room_round.duration_seconds)
+    END,
+    round_version = rooms.round_version + 1,
+    -- Rounds and ratings are recorded while the room is playing, results included
+    status = CASE WHEN advance_room_round.phase = 'lobby' THEN 'waiting' ELSE 'playing' END,
+    current_level = GREATEST(advance_room_round.round_number - 1, 0)
+  WHERE rooms.id = room.id
+  RETURNING * INTO room;
+
+  RETURN room;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.advance_room_round FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.advance_room_round TO authenticated;
+
+-- Current database time, for clients to measure how far their clock is from it
+CREATE OR REPLACE FUNCTION public.server_time()
+RETURNS TIMESTAMP WITH TIME ZONE AS $$
+  SELECT now();
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION public.server_time TO anon, authenticated;
@@ -0,0 +1,201 @@
+-- The player running the room: starts the game and advances its rounds. Starts as the creator and
+-- moves to another player when the host leaves or hands it over.
+ALTER TABLE public.rooms
+  ADD COLUMN host_user_id UUID;
+
+UPDATE public.rooms SET host_user_id = created_by;
+
+ALTER TABLE public.rooms
+  ALTER COLUMN host_user_id SET NOT NULL;
+
+CREATE OR REPLACE FUNCTION public.set_room_host()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.host_user_id = NEW.created_by;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER set_rooms_host
+  BEFORE INSERT ON public.rooms
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_room_host();
+
+-- When the player last came online in the room; the longest-connected player is next in line to host
+ALTER TABLE public.room_players
+  ADD COLUMN connected_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now();
+
+UPDATE public.room_players SET connected_at = joined_at;
+
+CREATE OR REPLACE FUNCTION public.set_room_player_connected_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.is_online AND (TG_OP = 'INSERT' OR NOT OLD.is_online) THEN
+    NEW.connected_at = now();
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER set_room_players_connected_at
+  BEFORE INSERT OR UPDATE ON public.room_players
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_room_player_connected_at();
+
+-- The host, not the creator, runs the room. The host itself only changes through the functions below,
+-- and the round state only through advance_room_round.
+DROP POLICY "Room creators can update their rooms" ON public.rooms;
+
+CREATE POLICY "Room hosts can update their rooms"
+ON public.rooms
+FOR UPDATE
+USING (auth.uid() = host_user_id);
+
+REVOKE UPDATE ON public.rooms FROM anon, authenticated;
+GRANT UPDATE (name, status, max_players, level_id) ON public.rooms TO authenticated;
+
+-- Rounds are advanced by the host
+CREATE OR REPLACE FUNCTION public.advance_room_round(
+  room_id UUID,
+  phase TEXT,
+  round_number INTEGER,
+  level_id TEXT,
+  seed INTEGER,
+  duration_seconds INTEGER
+)
+RETURNS public.rooms AS $$
+DECLARE
+  room public.rooms;
+BEGIN
+  SELECT * INTO room
+  FROM public.rooms
+  WHERE rooms.id = advance_room_round.room_id
+  FOR UPDATE;
+
+  IF room.id IS NULL OR room.host_user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the host can advance room %', advance_room_round.room_id;
+  END IF;
+
+  IF NOT (
+    (room.round_phase, advance_room_round.phase) IN (
+      ('lobby', 'countdown'),
+      ('countdown', 'playing'),
+      ('playing', 'round_end'),
+      ('playing', 'results'),
+      ('round_end', 'countdown'),
+      ('results', 'lobby')
+    )
+  ) THEN
+    RAISE EXCEPTION 'Cannot go from % to %', room.round_phase, advance_room_round.phase;
+  END IF;
+
+  IF advance_room_round.duration_seconds NOT BETWEEN 0 AND 600 THEN
+    RAISE EXCEPTION 'Invalid phase duration %', advance_room_round.duration_seconds;
+  END IF;
+
+  UPDATE public.rooms SET
+    round_phase = advance_room_round.phase,
+    round_number = advance_room_round.round_number,
+    round_level_id = advance_room_round.level_id,
+    round_seed = advance_room_round.seed,
+    round_ends_at = CASE
+      WHEN advance_room_round.phase = 'lobby' THEN NULL
+      ELSE now() + make_interval(secs => advance_room_round.duration_seconds)
+    END,
+    round_version = rooms.round_version + 1,
+    -- Rounds and ratings are recorded while the room is playing, results included
+    status = CASE WHEN advance_room_round.phase = 'lobby' THEN 'waiting' ELSE 'playing' END,
+    current_level = GREATEST(advance_room_round.round_number - 1, 0)
+  WHERE rooms.id = room.id
+  RETURNING * INTO room;
+
+  RETURN room;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Hands the room to another online player; only the host can
+CREATE OR REPLACE FUNCTION public.transfer_room_host(room_id UUID, new_host_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  room public.rooms;
+BEGIN
+  SELECT * INTO room
+  FROM public.rooms
+  WHERE rooms.id = transfer_room_host.room_id
+  FOR UPDATE;
+
+  IF room.id IS NULL OR room.host_user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the host can hand over room %', transfer_room_host.room_id;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.room_players
+    WHERE room_players.room_id = room.id
+      AND room_players.user_id = transfer_room_host.new_host_id
+      AND room_players.is_online
+  ) THEN
+    RAISE EXCEPTION 'Player % is not online in room %', transfer_room_host.new_host_id, room.id;
+  END IF;
+
+  UPDATE public.rooms
+  SET host_user_id = transfer_room_host.new_host_id
+  WHERE rooms.id = room.id;
+
+  RETURN transfer_room_host.new_host_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.transfer_room_host FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.transfer_room_host TO authenticated;
+
+-- Moves the room to its longest-connected online player once the host is gone. Presence is only
+-- known to the clients, so any player in the room may report the host missing, the host included
+-- when it leaves. Reports naming a former host change nothing, so every client can report the same
+-- departure and the host moves once. Returns the host afterwards.
+CREATE OR REPLACE FUNCTION public.migrate_room_host(room_id UUID, absent_host_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  room public.rooms;
+  next_host_id UUID;
+BEGIN
+  SELECT * INTO room
+  FROM public.rooms
+  WHERE rooms.id = migrate_room_host.room_id
+  FOR UPDATE;
+
+  IF room.id IS NULL OR NOT EXISTS (
+    SELECT 1 FROM public.room_players
+    WHERE room_players.room_id = room.id AND room_players.user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Not playing in room %', migrate_room_host.room_id;
+  END IF;
+
+  IF room.host_user_id IS DISTINCT FROM migrate_room_host.absent_host_id THEN
+    RETURN room.host_user_id;
+  END IF;
+
+  UPDATE public.room_players
+  SET is_online = false
+  WHERE room_players.room_id = room.id AND room_players.user_id = migrate_room_host.absent_host_id;
+
+  SELECT room_players.user_id INTO next_host_id
+  FROM public.room_players
+  WHERE room_players.room_id = room.id AND room_players.is_online
+  ORDER BY room_players.connected_at, room_players.joined_at
+  LIMIT 1;
+
+  -- Nobody left to host; the room is closed once everyone is offline
+  IF next_host_id IS NULL THEN
+    RETURN room.host_user_id;
+  END IF;
+
+  UPDATE public.rooms
+  SET host_user_id = next_host_id
+  WHERE rooms.id = room.id;
+
+  RETURN next_host_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.migrate_room_host FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.migrate_room_host TO authenticated;
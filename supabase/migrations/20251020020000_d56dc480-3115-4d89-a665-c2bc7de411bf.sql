@@ -0,0 +1,82 @@
+-- Last heartbeat of each player in a room. Clients send one every few seconds while the room is open;
+-- players whose heartbeats stop (closed tab, crash, lost network) are swept offline.
+ALTER TABLE public.room_players
+  ADD COLUMN last_seen_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now();
+
+-- Marks the room's silent players offline, moves the host off an offline player and closes the room
+-- once nobody is left. Only called by the functions below.
+CREATE OR REPLACE FUNCTION public.sweep_room_players(room_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  room public.rooms;
+  next_host_id UUID;
+BEGIN
+  SELECT * INTO room
+  FROM public.rooms
+  WHERE rooms.id = sweep_room_players.room_id
+  FOR UPDATE;
+
+  IF room.id IS NULL OR room.status = 'completed' THEN
+    RETURN;
+  END IF;
+
+  UPDATE public.room_players
+  SET is_online = false
+  WHERE room_players.room_id = room.id
+    AND room_players.is_online
+    AND room_players.last_seen_at < now() - interval '30 seconds';
+
+  -- The host keeps the room while online, otherwise it goes to the longest-connected player
+  SELECT room_players.user_id INTO next_host_id
+  FROM public.room_players
+  WHERE room_players.room_id = room.id AND room_players.is_online
+  ORDER BY room_players.user_id = room.host_user_id DESC, room_players.connected_at, room_players.joined_at
+  LIMIT 1;
+
+  IF next_host_id IS NULL THEN
+    UPDATE public.rooms
+    SET status = 'completed'
+    WHERE rooms.id = room.id;
+  ELSIF next_host_id <> room.host_user_id THEN
+    UPDATE public.rooms
+    SET host_user_id = next_host_id
+    WHERE rooms.id = room.id;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.sweep_room_players FROM PUBLIC, anon, authenticated;
+
+-- Keeps the caller online in an open room, bringing them back online after a reconnect, and sweeps
+-- the room's other players
+CREATE OR REPLACE FUNCTION public.room_heartbeat(room_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  UPDATE public.room_players
+  SET is_online = true, last_seen_at = now()
+  FROM public.rooms
+  WHERE rooms.id = room_players.room_id
+    AND rooms.status <> 'completed'
+    AND room_players.room_id = room_heartbeat.room_id
+    AND room_players.user_id = auth.uid();
+
+  PERFORM public.sweep_room_players(room_heartbeat.room_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.room_heartbeat FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.room_heartbeat TO authenticated;
+
+-- Sweeps every open room; the lobby runs it before listing rooms, so abandoned rooms close even when
+-- nobody is left in them to send heartbeats
+CREATE OR REPLACE FUNCTION public.sweep_stale_rooms()
+RETURNS VOID AS $$
+BEGIN
+  PERFORM public.sweep_room_players(rooms.id)
+  FROM public.rooms
+  WHERE rooms.status IN ('waiting', 'playing');
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.sweep_stale_rooms FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.sweep_stale_rooms TO anon, authenticated;
@@ -0,0 +1,111 @@
+-- submit_game_result takes community limits from published levels only, since their owners can edit
+-- unpublished ones at will, and community runs no longer count towards best_score and total_fish: a
+-- published level can still hold any number of fish. The parameters that shared a name with a games
+-- column are renamed.
+DROP FUNCTION public.submit_game_result(INTEGER, INTEGER, INTEGER, INTEGER, INTEGER, BOOLEAN, BOOLEAN, TEXT, UUID);
+
+CREATE OR REPLACE FUNCTION public.submit_game_result(
+  fish_count INTEGER,
+  final_score INTEGER,
+  fall_count INTEGER,
+  levels_completed INTEGER,
+  elapsed_ticks INTEGER,
+  resumed BOOLEAN,
+  game_completed BOOLEAN,
+  game_player_name TEXT,
+  game_level_id UUID DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  -- FISH_POINTS and DELIVERY_POINTS in src/game/solo.ts
+  fish_points CONSTANT INTEGER := 10;
+  delivery_points CONSTANT INTEGER := 20;
+  ticks_per_second CONSTANT INTEGER := 60;
+  player UUID := auth.uid();
+  level_data JSONB;
+  max_levels INTEGER;
+  max_fish INTEGER;
+  max_ticks INTEGER;
+  game_id UUID;
+BEGIN
+  IF player IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF game_level_id IS NULL THEN
+    -- The bundled campaign in src/game/levels/data/solo: 5 levels, 15 fish, 255 seconds of timers
+    max_levels := 5;
+    max_fish := 15;
+    max_ticks := 255 * ticks_per_second;
+  ELSE
+    SELECT levels.data INTO level_data
+    FROM public.levels
+    WHERE levels.id = game_level_id AND levels.published;
+    IF level_data IS NULL THEN
+      RAISE EXCEPTION 'Unknown level %', game_level_id;
+    END IF;
+    max_levels := 1;
+    max_fish := jsonb_array_length(level_data -> 'fishes');
+    max_ticks := (level_data ->> 'timeLimit')::INTEGER * ticks_per_second;
+  END IF;
+
+  IF fish_count < 0 OR final_score < 0 OR fall_count < 0 OR levels_completed < 0 OR elapsed_ticks < 0 THEN
+    RAISE EXCEPTION 'Game result values cannot be negative';
+  END IF;
+
+  IF levels_completed > max_levels OR (game_completed AND levels_completed <> max_levels) THEN
+    RAISE EXCEPTION 'Invalid level count %', levels_completed;
+  END IF;
+
+  IF fish_count > max_fish THEN
+    RAISE EXCEPTION 'Invalid fish count %', fish_count;
+  END IF;
+
+  -- Every fish scores when picked up and at most once more when delivered
+  IF final_score < fish_count * fish_points
+    OR final_score > fish_count * (fish_points + delivery_points)
+    OR final_score % fish_points <> 0 THEN
+    RAISE EXCEPTION 'Score % does not match % fish', final_score, fish_count;
+  END IF;
+
+  -- The countdown never allows more than the sum of the timers, give or take the ticks of the frame it
+  -- ran out in, and no level can be finished in under a second (resumed runs only timed part of theirs)
+  IF elapsed_ticks > max_ticks + ticks_per_second
+    OR (NOT resumed AND elapsed_ticks < levels_completed * ticks_per_second) THEN
+    RAISE EXCEPTION 'Invalid elapsed time of % ticks', elapsed_ticks;
+  END IF;
+
+  INSERT INTO public.games (user_id, fish_collected, score, falls, time_taken, run_ticks, completed, level_id, player_name)
+  VALUES (
+    player,
+    fish_count,
+    final_score,
+    fall_count,
+    round(elapsed_ticks::NUMERIC / ticks_per_second),
+    CASE WHEN resumed THEN NULL ELSE elapsed_ticks END,
+    game_completed,
+    game_level_id::TEXT,
+    coalesce(game_player_name, '')
+  )
+  RETURNING id INTO game_id;
+
+  -- Community levels are played, but only the campaign counts towards fish and best score
+  INSERT INTO public.user_stats (user_id, total_fish, games_played, best_score)
+  VALUES (
+    player,
+    CASE WHEN game_level_id IS NULL THEN fish_count ELSE 0 END,
+    1,
+    CASE WHEN game_level_id IS NULL THEN final_score ELSE 0 END
+  )
+  ON CONFLICT (user_id) DO UPDATE SET
+    total_fish = user_stats.total_fish + EXCLUDED.total_fish,
+    games_played = user_stats.games_played + 1,
+    best_score = GREATEST(user_stats.best_score, EXCLUDED.best_score),
+    updated_at = now();
+
+  RETURN game_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.submit_game_result FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.submit_game_result TO authenticated;
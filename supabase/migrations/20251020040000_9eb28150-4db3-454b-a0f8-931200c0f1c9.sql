@@ -0,0 +1,15 @@
+-- Level splits are checked by the replay verifier against the run it re-simulates, so they can only be
+-- added while the verifier has not seen the game: before its replay is uploaded and before it is verified.
+DROP POLICY "Users can add splits to their own games" ON public.level_splits;
+
+CREATE POLICY "Users can add splits to their own unverified games" 
+ON public.level_splits 
+FOR INSERT 
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (
+    SELECT 1 FROM public.games
+    WHERE games.id = game_id AND games.user_id = auth.uid() AND games.verified_at IS NULL
+  )
+  AND NOT EXISTS (SELECT 1 FROM public.replays WHERE replays.game_id = level_splits.game_id)
+);
@@ -0,0 +1,188 @@
+-- Online rounds are recorded by the database when the host moves a round out of playing, no longer by
+-- each client's own claim. The round is won by the first player to deliver its fish, which
+-- deliver_room_fish settles while the round is playing.
+ALTER TABLE public.rooms
+  -- First player to deliver the fish this round; NULL until someone does
+  ADD COLUMN round_winner_id UUID,
+  -- Rounds recorded in the room across all its matches; numbers its multiplayer_rounds
+  ADD COLUMN rounds_played INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE public.multiplayer_rounds
+  ADD COLUMN round_number INTEGER;
+
+-- Number the rounds recorded so far in the order each player played them
+UPDATE public.multiplayer_rounds
+SET round_number = numbered.round_number
+FROM (
+  SELECT
+    multiplayer_rounds.id,
+    ROW_NUMBER() OVER (PARTITION BY multiplayer_rounds.room_id, multiplayer_rounds.user_id ORDER BY multiplayer_rounds.created_at) AS round_number
+  FROM public.multiplayer_rounds
+) numbered
+WHERE numbered.id = multiplayer_rounds.id;
+
+ALTER TABLE public.multiplayer_rounds
+  ALTER COLUMN round_number SET NOT NULL,
+  ADD CONSTRAINT multiplayer_rounds_room_round_user_key UNIQUE (room_id, round_number, user_id);
+
+UPDATE public.rooms
+SET rounds_played = recorded.rounds
+FROM (
+  SELECT multiplayer_rounds.room_id, MAX(multiplayer_rounds.round_number) AS rounds
+  FROM public.multiplayer_rounds
+  GROUP BY multiplayer_rounds.room_id
+) recorded
+WHERE recorded.room_id = rooms.id;
+
+DROP FUNCTION public.record_multiplayer_round(UUID, INTEGER);
+
+-- Delivers the caller's fish. Only the first delivery of a playing round counts; returns whether it
+-- was the caller's.
+CREATE OR REPLACE FUNCTION public.deliver_room_fish(room_id UUID)
+RETURNS BOOLEAN AS $$
+DECLARE
+  player UUID := auth.uid();
+  room public.rooms;
+BEGIN
+  IF player IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO room
+  FROM public.rooms
+  WHERE rooms.id = deliver_room_fish.room_id
+  FOR UPDATE;
+
+  IF room.id IS NULL OR NOT EXISTS (
+    SELECT 1 FROM public.room_players
+    WHERE room_players.room_id = room.id AND room_players.user_id = player AND room_players.is_online
+  ) THEN
+    RAISE EXCEPTION 'Not playing in room %', deliver_room_fish.room_id;
+  END IF;
+
+  IF room.round_phase <> 'playing' OR room.round_ends_at < now() OR room.round_winner_id IS NOT NULL THEN
+    RETURN false;
+  END IF;
+
+  UPDATE public.rooms
+  SET round_winner_id = player
+  WHERE rooms.id = room.id;
+
+  UPDATE public.room_players
+  SET fish_collected = room_players.fish_collected + 1
+  WHERE room_players.room_id = room.id AND room_players.user_id = player;
+
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.deliver_room_fish FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.deliver_room_fish TO authenticated;
+
+-- Records the room's current round for its online players and its winner, in multiplayer_rounds and
+-- user_stats. Only called by advance_room_round, once per round.
+CREATE OR REPLACE FUNCTION public.record_room_round(room_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  room public.rooms;
+BEGIN
+  UPDATE public.rooms
+  SET rounds_played = rooms.rounds_played + 1
+  WHERE rooms.id = record_room_round.room_id
+  RETURNING * INTO room;
+
+  INSERT INTO public.multiplayer_rounds (user_id, room_id, round_number, room_name, player_name, fish_delivered)
+  SELECT
+    room_players.user_id,
+    room.id,
+    room.rounds_played,
+    room.name,
+    room_players.player_name,
+    CASE WHEN room_players.user_id = room.round_winner_id THEN 1 ELSE 0 END
+  FROM public.room_players
+  WHERE room_players.room_id = room.id
+    AND (room_players.is_online OR room_players.user_id = room.round_winner_id)
+  ON CONFLICT ON CONSTRAINT multiplayer_rounds_room_round_user_key DO NOTHING;
+
+  INSERT INTO public.user_stats (user_id, multiplayer_rounds, multiplayer_wins, multiplayer_fish_delivered)
+  SELECT rounds.user_id, 1, rounds.fish_delivered, rounds.fish_delivered
+  FROM public.multiplayer_rounds rounds
+  WHERE rounds.room_id = room.id AND rounds.round_number = room.rounds_played
+  ON CONFLICT (user_id) DO UPDATE SET
+    multiplayer_rounds = user_stats.multiplayer_rounds + 1,
+    multiplayer_wins = user_stats.multiplayer_wins + EXCLUDED.multiplayer_wins,
+    multiplayer_fish_delivered = user_stats.multiplayer_fish_delivered + EXCLUDED.multiplayer_fish_delivered,
+    updated_at = now();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.record_room_round FROM PUBLIC, anon, authenticated;
+
+-- Rounds only end early once someone delivered, and are recorded as they leave playing
+CREATE OR REPLACE FUNCTION public.advance_room_round(
+  room_id UUID,
+  phase TEXT,
+  round_number INTEGER,
+  level_id TEXT,
+  seed INTEGER,
+  duration_seconds INTEGER
+)
+RETURNS public.rooms AS $$
+DECLARE
+  room public.rooms;
+BEGIN
+  SELECT * INTO room
+  FROM public.rooms
+  WHERE rooms.id = advance_room_round.room_id
+  FOR UPDATE;
+
+  IF room.id IS NULL OR room.host_user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the host can advance room %', advance_room_round.room_id;
+  END IF;
+
+  IF NOT (
+    (room.round_phase, advance_room_round.phase) IN (
+      ('lobby', 'countdown'),
+      ('countdown', 'playing'),
+      ('playing', 'round_end'),
+      ('playing', 'results'),
+      ('round_end', 'countdown'),
+      ('results', 'lobby')
+    )
+  ) THEN
+    RAISE EXCEPTION 'Cannot go from % to %', room.round_phase, advance_room_round.phase;
+  END IF;
+
+  IF advance_room_round.phase = 'round_end' AND room.round_winner_id IS NULL THEN
+    RAISE EXCEPTION 'Nobody delivered the fish in room %', room.id;
+  END IF;
+
+  IF advance_room_round.duration_seconds NOT BETWEEN 0 AND 600 THEN
+    RAISE EXCEPTION 'Invalid phase duration %', advance_room_round.duration_seconds;
+  END IF;
+
+  IF room.round_phase = 'playing' THEN
+    PERFORM public.record_room_round(room.id);
+  END IF;
+
+  UPDATE public.rooms SET
+    round_phase = advance_room_round.phase,
+    round_number = advance_room_round.round_number,
+    round_level_id = advance_room_round.level_id,
+    round_seed = advance_room_round.seed,
+    round_ends_at = CASE
+      WHEN advance_room_round.phase = 'lobby' THEN NULL
+      ELSE now() + make_interval(secs => advance_room_round.duration_seconds)
+    END,
+    round_version = rooms.round_version + 1,
+    -- A new round starts without a winner
+    round_winner_id = CASE WHEN advance_room_round.phase = 'countdown' THEN NULL ELSE rooms.round_winner_id END,
+    -- Rounds and ratings are recorded while the room is playing, results included
+    status = CASE WHEN advance_room_round.phase = 'lobby' THEN 'waiting' ELSE 'playing' END,
+    current_level = GREATEST(advance_room_round.round_number - 1, 0)
+  WHERE rooms.id = room.id
+  RETURNING * INTO room;
+
+  RETURN room;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
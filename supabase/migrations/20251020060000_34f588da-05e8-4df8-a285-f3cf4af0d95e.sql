@@ -0,0 +1,149 @@
+-- Solo results on the global leaderboard come from the campaign only: anyone can publish a community
+-- level generous enough to top it.
+CREATE OR REPLACE FUNCTION public.leaderboard_standings(starts_at TIMESTAMP WITH TIME ZONE, ends_at TIMESTAMP WITH TIME ZONE)
+RETURNS TABLE (metric TEXT, user_id UUID, player_name TEXT, value INTEGER, rank INTEGER, "position" INTEGER) AS $$
+  WITH results AS (
+    SELECT games.user_id, games.player_name, games.created_at, games.score, games.fish_collected AS fish, 0 AS wins
+    FROM public.games
+    WHERE games.verified AND games.level_id IS NULL
+    UNION ALL
+    SELECT rounds.user_id, rounds.player_name, rounds.created_at, NULL::INTEGER, rounds.fish_delivered, rounds.fish_delivered
+    FROM public.multiplayer_rounds rounds
+  ),
+  totals AS (
+    SELECT
+      results.user_id,
+      -- The most recent name the player used in the period
+      (array_agg(results.player_name ORDER BY results.created_at DESC) FILTER (WHERE results.player_name IS NOT NULL))[1] AS player_name,
+      MAX(results.score) AS best_score,
+      SUM(results.fish) AS total_fish,
+      SUM(results.wins) AS multiplayer_wins
+    FROM results
+    WHERE results.created_at >= leaderboard_standings.starts_at AND results.created_at < leaderboard_standings.ends_at
+    GROUP BY results.user_id
+  ),
+  metric_values AS (
+    SELECT 'best_score' AS metric, totals.user_id, totals.player_name, totals.best_score AS value
+    FROM totals
+    WHERE totals.best_score IS NOT NULL
+    UNION ALL
+    SELECT 'total_fish', totals.user_id, totals.player_name, totals.total_fish
+    FROM totals
+    WHERE totals.total_fish > 0
+    UNION ALL
+    SELECT 'multiplayer_wins', totals.user_id, totals.player_name, totals.multiplayer_wins
+    FROM totals
+    WHERE totals.multiplayer_wins > 0
+  )
+  SELECT
+    metric_values.metric,
+    metric_values.user_id,
+    metric_values.player_name,
+    metric_values.value::INTEGER,
+    RANK() OVER (PARTITION BY metric_values.metric ORDER BY metric_values.value DESC)::INTEGER,
+    -- Unique place in the list, ties broken by user id; used for paging
+    ROW_NUMBER() OVER (PARTITION BY metric_values.metric ORDER BY metric_values.value DESC, metric_values.user_id)::INTEGER
+  FROM metric_values;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Only the snapshot below and archive_ended_seasons compute standings now
+REVOKE EXECUTE ON FUNCTION public.leaderboard_standings FROM PUBLIC, anon, authenticated;
+
+-- The global leaderboard is a snapshot refreshed by scripts/refresh-leaderboard.ts, so reading a page
+-- or a player's rank no longer ranks every player of every period.
+DROP VIEW public.global_leaderboard;
+
+CREATE MATERIALIZED VIEW public.global_leaderboard AS
+WITH periods AS (
+  SELECT 'all' AS period, '-infinity'::TIMESTAMP WITH TIME ZONE AS starts_at, 'infinity'::TIMESTAMP WITH TIME ZONE AS ends_at
+  UNION ALL
+  SELECT 'week', date_trunc('week', now()), 'infinity'
+  UNION ALL
+  SELECT 'month', date_trunc('month', now()), 'infinity'
+  UNION ALL
+  SELECT 'season', seasons.starts_at, seasons.ends_at
+  FROM public.seasons
+  WHERE seasons.starts_at <= now() AND seasons.ends_at > now()
+)
+SELECT
+  periods.period,
+  standings.metric,
+  standings.user_id,
+  standings.player_name,
+  standings.value,
+  standings.rank,
+  standings.position
+FROM periods
+CROSS JOIN LATERAL public.leaderboard_standings(periods.starts_at, periods.ends_at) standings
+UNION ALL
+SELECT
+  'all',
+  'rating',
+  player_ratings.user_id,
+  player_ratings.player_name,
+  player_ratings.rating,
+  RANK() OVER (ORDER BY player_ratings.rating DESC)::INTEGER,
+  ROW_NUMBER() OVER (ORDER BY player_ratings.rating DESC, player_ratings.user_id)::INTEGER
+FROM public.player_ratings;
+
+-- Unique so the snapshot can be refreshed without blocking readers
+CREATE UNIQUE INDEX idx_global_leaderboard_player ON public.global_leaderboard (period, metric, user_id);
+CREATE INDEX idx_global_leaderboard_position ON public.global_leaderboard (period, metric, "position");
+
+GRANT SELECT ON public.global_leaderboard TO anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.refresh_global_leaderboard()
+RETURNS VOID AS $$
+BEGIN
+  REFRESH MATERIALIZED VIEW CONCURRENTLY public.global_leaderboard;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.refresh_global_leaderboard FROM PUBLIC, anon, authenticated;
+
+-- Also opens a first season when there is none at all, and refreshes the global leaderboard so it
+-- ranks the season that is running now
+CREATE OR REPLACE FUNCTION public.archive_ended_seasons()
+RETURNS INTEGER AS $$
+DECLARE
+  season RECORD;
+  latest RECORD;
+  archived INTEGER := 0;
+BEGIN
+  FOR season IN
+    SELECT * FROM public.seasons
+    WHERE seasons.archived_at IS NULL AND seasons.ends_at <= now()
+    ORDER BY seasons.starts_at
+    FOR UPDATE
+  LOOP
+    INSERT INTO public.season_standings (season_id, metric, user_id, player_name, value, rank, position)
+    SELECT season.id, standings.metric, standings.user_id, standings.player_name, standings.value, standings.rank, standings.position
+    FROM public.leaderboard_standings(season.starts_at, season.ends_at) standings;
+
+    UPDATE public.seasons SET archived_at = now() WHERE seasons.id = season.id;
+    archived := archived + 1;
+  END LOOP;
+
+  IF NOT EXISTS (SELECT 1 FROM public.seasons WHERE seasons.starts_at <= now() AND seasons.ends_at > now()) THEN
+    SELECT * INTO latest FROM public.seasons ORDER BY seasons.ends_at DESC LIMIT 1;
+
+    IF NOT FOUND THEN
+      -- Like the first season: the current calendar month
+      INSERT INTO public.seasons (name, starts_at, ends_at)
+      VALUES ('Temporada 1', date_trunc('month', now()), date_trunc('month', now()) + INTERVAL '1 month');
+    ELSE
+      -- A gap between seasons starts the next one now rather than in the past
+      INSERT INTO public.seasons (name, starts_at, ends_at)
+      SELECT
+        'Temporada ' || (COUNT(*) + 1),
+        GREATEST(latest.ends_at, now()),
+        GREATEST(latest.ends_at, now()) + (latest.ends_at - latest.starts_at)
+      FROM public.seasons;
+    END IF;
+  END IF;
+
+  PERFORM public.refresh_global_leaderboard();
+
+  RETURN archived;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,184 @@
+-- Matches are rated by the host's move into results, after the last round ran out of time, instead of
+-- by whichever player calls finish_multiplayer_match first. Players then look the match up by the
+-- room and its start.
+
+-- Rates the room's finished match from the rounds recorded since it started: players are placed by
+-- fish delivered and every pair of players counts as one Elo game (K = 32, split across opponents).
+-- Only called by advance_room_round as the host moves the room into results; calling it again returns
+-- the same match.
+CREATE OR REPLACE FUNCTION public.finish_multiplayer_match(room_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  player UUID := auth.uid();
+  room RECORD;
+  rated_match_id UUID;
+  player_count INTEGER;
+BEGIN
+  IF player IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO room
+  FROM public.rooms
+  WHERE rooms.id = finish_multiplayer_match.room_id
+  FOR UPDATE;
+
+  IF room.id IS NULL OR room.host_user_id IS DISTINCT FROM player THEN
+    RAISE EXCEPTION 'Only the host can finish the match in room %', finish_multiplayer_match.room_id;
+  END IF;
+
+  IF room.status <> 'playing' OR room.started_at IS NULL OR room.round_phase <> 'results' THEN
+    RAISE EXCEPTION 'The match in room % is not over', room.id;
+  END IF;
+
+  SELECT multiplayer_matches.id INTO rated_match_id
+  FROM public.multiplayer_matches
+  WHERE multiplayer_matches.room_id = room.id AND multiplayer_matches.started_at = room.started_at;
+
+  IF rated_match_id IS NOT NULL THEN
+    RETURN rated_match_id;
+  END IF;
+
+  SELECT COUNT(DISTINCT rounds.user_id) INTO player_count
+  FROM public.multiplayer_rounds rounds
+  WHERE rounds.room_id = room.id AND rounds.created_at >= room.started_at;
+
+  INSERT INTO public.multiplayer_matches (room_id, started_at, players)
+  VALUES (room.id, room.started_at, player_count)
+  RETURNING id INTO rated_match_id;
+
+  -- A match needs opponents to be rated
+  IF player_count < 2 THEN
+    RETURN rated_match_id;
+  END IF;
+
+  WITH results AS (
+    SELECT
+      rounds.user_id,
+      SUM(rounds.fish_delivered)::INTEGER AS fish_delivered
+    FROM public.multiplayer_rounds rounds
+    WHERE rounds.room_id = room.id AND rounds.created_at >= room.started_at
+    GROUP BY rounds.user_id
+  ),
+  placed AS (
+    SELECT
+      results.user_id,
+      results.fish_delivered,
+      COALESCE(player_ratings.rating, 1200) AS rating,
+      RANK() OVER (ORDER BY results.fish_delivered DESC)::INTEGER AS placement
+    FROM results
+    LEFT JOIN public.player_ratings ON player_ratings.user_id = results.user_id
+  )
+  INSERT INTO public.rating_history (match_id, user_id, placement, fish_delivered, rating_before, rating_after)
+  SELECT
+    rated_match_id,
+    me.user_id,
+    me.placement,
+    me.fish_delivered,
+    me.rating,
+    me.rating + ROUND(32.0 / (player_count - 1) * SUM(
+      CASE
+        WHEN me.placement < them.placement THEN 1
+        WHEN me.placement = them.placement THEN 0.5
+        ELSE 0
+      END
+      - 1 / (1 + power(10, (them.rating - me.rating) / 400.0))
+    ))::INTEGER
+  FROM placed me
+  JOIN placed them ON them.user_id <> me.user_id
+  GROUP BY me.user_id, me.placement, me.fish_delivered, me.rating;
+
+  INSERT INTO public.player_ratings (user_id, player_name, rating, matches_played)
+  SELECT rating_history.user_id, room_players.player_name, rating_history.rating_after, 1
+  FROM public.rating_history
+  LEFT JOIN public.room_players
+    ON room_players.room_id = room.id AND room_players.user_id = rating_history.user_id
+  WHERE rating_history.match_id = rated_match_id
+  ON CONFLICT (user_id) DO UPDATE SET
+    player_name = COALESCE(EXCLUDED.player_name, player_ratings.player_name),
+    rating = EXCLUDED.rating,
+    matches_played = player_ratings.matches_played + 1;
+
+  RETURN rated_match_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.finish_multiplayer_match FROM PUBLIC, anon, authenticated;
+
+-- Rounds that end early need a delivery, the last round needs its deadline, and results rate the match
+CREATE OR REPLACE FUNCTION public.advance_room_round(
+  room_id UUID,
+  phase TEXT,
+  round_number INTEGER,
+  level_id TEXT,
+  seed INTEGER,
+  duration_seconds INTEGER
+)
+RETURNS public.rooms AS $$
+DECLARE
+  room public.rooms;
+BEGIN
+  SELECT * INTO room
+  FROM public.rooms
+  WHERE rooms.id = advance_room_round.room_id
+  FOR UPDATE;
+
+  IF room.id IS NULL OR room.host_user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the host can advance room %', advance_room_round.room_id;
+  END IF;
+
+  IF NOT (
+    (room.round_phase, advance_room_round.phase) IN (
+      ('lobby', 'countdown'),
+      ('countdown', 'playing'),
+      ('playing', 'round_end'),
+      ('playing', 'results'),
+      ('round_end', 'countdown'),
+      ('results', 'lobby')
+    )
+  ) THEN
+    RAISE EXCEPTION 'Cannot go from % to %', room.round_phase, advance_room_round.phase;
+  END IF;
+
+  IF advance_room_round.phase = 'round_end' AND room.round_winner_id IS NULL THEN
+    RAISE EXCEPTION 'Nobody delivered the fish in room %', room.id;
+  END IF;
+
+  -- The match is over once its last round ran out of time, and not a moment earlier
+  IF advance_room_round.phase = 'results' AND room.round_ends_at > now() + INTERVAL '1 second' THEN
+    RAISE EXCEPTION 'The round in room % is still running', room.id;
+  END IF;
+
+  IF advance_room_round.duration_seconds NOT BETWEEN 0 AND 600 THEN
+    RAISE EXCEPTION 'Invalid phase duration %', advance_room_round.duration_seconds;
+  END IF;
+
+  IF room.round_phase = 'playing' THEN
+    PERFORM public.record_room_round(room.id);
+  END IF;
+
+  UPDATE public.rooms SET
+    round_phase = advance_room_round.phase,
+    round_number = advance_room_round.round_number,
+    round_level_id = advance_room_round.level_id,
+    round_seed = advance_room_round.seed,
+    round_ends_at = CASE
+      WHEN advance_room_round.phase = 'lobby' THEN NULL
+      ELSE now() + make_interval(secs => advance_room_round.duration_seconds)
+    END,
+    round_version = rooms.round_version + 1,
+    -- A new round starts without a winner
+    round_winner_id = CASE WHEN advance_room_round.phase = 'countdown' THEN NULL ELSE rooms.round_winner_id END,
+    -- Rounds and ratings are recorded while the room is playing, results included
+    status = CASE WHEN advance_room_round.phase = 'lobby' THEN 'waiting' ELSE 'playing' END,
+    current_level = GREATEST(advance_room_round.round_number - 1, 0)
+  WHERE rooms.id = room.id
+  RETURNING * INTO room;
+
+  IF room.round_phase = 'results' THEN
+    PERFORM public.finish_multiplayer_match(room.id);
+  END IF;
+
+  RETURN room;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
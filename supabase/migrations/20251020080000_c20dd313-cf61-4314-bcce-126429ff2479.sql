@@ -0,0 +1,31 @@
+-- Live player states travel on private Realtime channels named player-state:<room id>:<user id>
+-- (src/game/netcode.ts). The players of the room may listen to each of them, but only the user the
+-- channel is named after may send on it, so a state's channel says who sent it.
+CREATE POLICY "Room players can receive player states"
+ON realtime.messages
+FOR SELECT
+TO authenticated
+USING (
+  realtime.messages.extension = 'broadcast'
+  AND split_part(realtime.topic(), ':', 1) = 'player-state'
+  AND EXISTS (
+    SELECT 1 FROM public.room_players
+    WHERE room_players.room_id::TEXT = split_part(realtime.topic(), ':', 2)
+      AND room_players.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Players can send their own player state"
+ON realtime.messages
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  realtime.messages.extension = 'broadcast'
+  AND split_part(realtime.topic(), ':', 1) = 'player-state'
+  AND split_part(realtime.topic(), ':', 3) = auth.uid()::TEXT
+  AND EXISTS (
+    SELECT 1 FROM public.room_players
+    WHERE room_players.room_id::TEXT = split_part(realtime.topic(), ':', 2)
+      AND room_players.user_id = auth.uid()
+  )
+);
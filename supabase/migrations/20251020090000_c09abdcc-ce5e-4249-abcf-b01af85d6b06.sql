@@ -0,0 +1,77 @@
+-- Clients only write the room_players columns they need to join and leave. connected_at, which orders
+-- the next hosts, last_seen_at, which keeps a player from being swept offline, and fish_collected,
+-- which ends rounds, are left to the triggers and functions.
+REVOKE INSERT, UPDATE ON public.room_players FROM anon, authenticated;
+GRANT INSERT (room_id, user_id, player_name, is_ready, is_online) ON public.room_players TO authenticated;
+GRANT UPDATE (is_ready, is_online) ON public.room_players TO authenticated;
+
+-- Coming online counts as being seen, so a player back in the room is not swept out before their
+-- first heartbeat
+CREATE OR REPLACE FUNCTION public.set_room_player_connected_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.is_online AND (TG_OP = 'INSERT' OR NOT OLD.is_online) THEN
+    NEW.connected_at = now();
+    NEW.last_seen_at = now();
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- A live host cannot be reported absent: other players' reports only move the room once the host
+-- has gone offline or missed two heartbeats (src/game/presence.ts sends one every 10 seconds). The
+-- host may always report itself when leaving.
+CREATE OR REPLACE FUNCTION public.migrate_room_host(room_id UUID, absent_host_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  room public.rooms;
+  next_host_id UUID;
+BEGIN
+  SELECT * INTO room
+  FROM public.rooms
+  WHERE rooms.id = migrate_room_host.room_id
+  FOR UPDATE;
+
+  IF room.id IS NULL OR NOT EXISTS (
+    SELECT 1 FROM public.room_players
+    WHERE room_players.room_id = room.id AND room_players.user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Not playing in room %', migrate_room_host.room_id;
+  END IF;
+
+  IF room.host_user_id IS DISTINCT FROM migrate_room_host.absent_host_id THEN
+    RETURN room.host_user_id;
+  END IF;
+
+  IF auth.uid() IS DISTINCT FROM room.host_user_id AND EXISTS (
+    SELECT 1 FROM public.room_players
+    WHERE room_players.room_id = room.id
+      AND room_players.user_id = room.host_user_id
+      AND room_players.is_online
+      AND room_players.last_seen_at > now() - INTERVAL '20 seconds'
+  ) THEN
+    RETURN room.host_user_id;
+  END IF;
+
+  UPDATE public.room_players
+  SET is_online = false
+  WHERE room_players.room_id = room.id AND room_players.user_id = migrate_room_host.absent_host_id;
+
+  SELECT room_players.user_id INTO next_host_id
+  FROM public.room_players
+  WHERE room_players.room_id = room.id AND room_players.is_online
+  ORDER BY room_players.connected_at, room_players.joined_at
+  LIMIT 1;
+
+  -- Nobody left to host; the room is closed once everyone is offline
+  IF next_host_id IS NULL THEN
+    RETURN room.host_user_id;
+  END IF;
+
+  UPDATE public.rooms
+  SET host_user_id = next_host_id
+  WHERE rooms.id = room.id;
+
+  RETURN next_host_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
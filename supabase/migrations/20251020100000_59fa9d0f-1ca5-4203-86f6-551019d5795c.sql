@@ -0,0 +1,27 @@
+-- Only signed-in players run the lobby sweep, and it only touches rooms where nobody sent a heartbeat
+-- lately. A room with a live player is swept by that player's own heartbeats. Rooms another sweep or
+-- heartbeat already holds are skipped instead of waited on.
+CREATE OR REPLACE FUNCTION public.sweep_stale_rooms()
+RETURNS VOID AS $$
+DECLARE
+  stale_room_id UUID;
+BEGIN
+  FOR stale_room_id IN
+    SELECT rooms.id
+    FROM public.rooms
+    WHERE rooms.status IN ('waiting', 'playing')
+      AND NOT EXISTS (
+        SELECT 1 FROM public.room_players
+        WHERE room_players.room_id = rooms.id
+          AND room_players.is_online
+          AND room_players.last_seen_at >= now() - interval '30 seconds'
+      )
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    PERFORM public.sweep_room_players(stale_room_id);
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.sweep_stale_rooms FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.sweep_stale_rooms TO authenticated;
@@ -0,0 +1,27 @@
+-- Two signups racing for the same nickname both find it free; the later one now gets part of its id
+-- appended when the insert hits the unique index, instead of failing the whole signup
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER AS $$
+DECLARE
+  new_nickname TEXT := COALESCE(
+    NULLIF(trim(NEW.raw_user_meta_data ->> 'nickname'), ''),
+    NULLIF(split_part(NEW.email, '@', 1), ''),
+    'Jogador'
+  );
+  id_suffix TEXT := left(replace(NEW.id::TEXT, '-', ''), 6);
+BEGIN
+  new_nickname := left(new_nickname, 24);
+  IF char_length(new_nickname) < 3 THEN
+    new_nickname := new_nickname || id_suffix;
+  END IF;
+
+  BEGIN
+    INSERT INTO public.profiles (id, nickname)
+    VALUES (NEW.id, new_nickname);
+  EXCEPTION WHEN unique_violation THEN
+    INSERT INTO public.profiles (id, nickname)
+    VALUES (NEW.id, new_nickname || id_suffix);
+  END;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,31 @@
+-- Ghosts, level splits and verified results are checked and ranked against a level's data, so the data
+-- is frozen the first time the level is published. Unpublishing does not unfreeze it; owners who want
+-- to change a published level save it as a new one.
+ALTER TABLE public.levels ADD COLUMN published_at TIMESTAMP WITH TIME ZONE;
+
+UPDATE public.levels
+SET published_at = updated_at
+WHERE published;
+
+-- published_at is only ever set by the database, once
+CREATE OR REPLACE FUNCTION public.protect_published_level()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.published_at = CASE WHEN NEW.published THEN now() END;
+    RETURN NEW;
+  END IF;
+
+  IF OLD.published_at IS NOT NULL AND (NEW.data IS DISTINCT FROM OLD.data OR NEW.mode IS DISTINCT FROM OLD.mode) THEN
+    RAISE EXCEPTION 'Level % was published and can no longer be changed', OLD.id;
+  END IF;
+
+  NEW.published_at = COALESCE(OLD.published_at, CASE WHEN NEW.published THEN now() END);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER protect_levels_published
+  BEFORE INSERT OR UPDATE ON public.levels
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_published_level();